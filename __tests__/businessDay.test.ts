@@ -0,0 +1,158 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {parseArgs} from '../src/cli/dailyReport';
+import {transactionsToDailyStats} from '../src/import/transactions';
+import {
+  normalizeBusinessDay,
+  rowBusinessDateISO,
+  todayBusinessISO,
+  zonedDateHour,
+} from '../src/report/businessDay';
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {buildDailyReport, detectDateISO} from '../src/report/engine';
+import {parseHour} from '../src/report/parse';
+import {jpDateLabel} from '../src/report/render';
+import {buildDailyReports} from '../src/report/split';
+
+const LATE_NIGHT = {timeZone: 'Asia/Tokyo', cutoffHour: 4};
+
+describe('business day', () => {
+  it('reads the date in the shop time zone', () => {
+    // 2025-09-19 08:30 JST = 前日 23:30 UTC
+    const instant = new Date('2025-09-18T23:30:00Z');
+    expect(zonedDateHour(instant, 'Asia/Tokyo')).toEqual({
+      dateISO: '2025-09-19',
+      hour: 8,
+    });
+    expect(
+      todayBusinessISO({timeZone: 'Asia/Tokyo', cutoffHour: 0}, instant),
+    ).toBe('2025-09-19');
+    expect(todayBusinessISO({timeZone: 'UTC', cutoffHour: 0}, instant)).toBe(
+      '2025-09-18',
+    );
+  });
+
+  it('counts hours before the cutoff as the previous day', () => {
+    const at = (iso: string) => todayBusinessISO(LATE_NIGHT, new Date(iso));
+    expect(at('2025-09-19T18:59:00Z')).toBe('2025-09-19'); // 03:59 JST
+    expect(at('2025-09-19T19:00:00Z')).toBe('2025-09-20'); // 04:00 JST
+    expect(at('2025-09-19T15:00:00Z')).toBe('2025-09-19'); // 00:00 JST
+  });
+
+  it('normalizes saved settings', () => {
+    expect(
+      normalizeBusinessDay({timeZone: 'Not/AZone', cutoffHour: 30}),
+    ).toEqual({
+      timeZone: 'Asia/Tokyo',
+      cutoffHour: 23,
+    });
+    expect(normalizeBusinessDay({timeZone: ' UTC ', cutoffHour: 3.6})).toEqual({
+      timeZone: 'UTC',
+      cutoffHour: 4,
+    });
+  });
+
+  it('parses the hour after a date or on its own', () => {
+    expect(parseHour('2025/9/20 1:30')).toBe(1);
+    expect(parseHour('2025-09-20T23:59:00')).toBe(23);
+    expect(parseHour('2025年9月20日 2時')).toBe(2);
+    expect(parseHour('03:15:00')).toBe(3);
+    expect(parseHour('2025-09-20')).toBeUndefined();
+    expect(parseHour('2025-09-19 〜 2025-09-19')).toBeUndefined();
+  });
+
+  it('dates rows by business day using the date or a separate time column', () => {
+    expect(rowBusinessDateISO({日時: '2025/09/20 01:30'}, LATE_NIGHT)).toBe(
+      '2025-09-19',
+    );
+    expect(
+      rowBusinessDateISO({日付: '2025/09/20', 時刻: '02:10'}, LATE_NIGHT),
+    ).toBe('2025-09-19');
+    expect(
+      rowBusinessDateISO({日付: '2025/09/20', 時刻: '18:00'}, LATE_NIGHT),
+    ).toBe('2025-09-20');
+    // 時刻がなければ日付のまま
+    expect(
+      rowBusinessDateISO({集計期間: '2025-09-20 〜 2025-09-20'}, LATE_NIGHT),
+    ).toBe('2025-09-20');
+    expect(
+      rowBusinessDateISO(
+        {集計期間: '2025-09-19 04:00 〜 2025-09-20 03:59'},
+        LATE_NIGHT,
+      ),
+    ).toBe('2025-09-19');
+    expect(rowBusinessDateISO({日時: '2025/09/20 01:30'})).toBe('2025-09-20');
+  });
+
+  it('falls back to the file name and then to today', () => {
+    expect(detectDateISO({}, '売上_2025年9月19日.csv')).toBe('2025-09-19');
+    expect(detectDateISO({}, undefined, undefined, LATE_NIGHT)).toBe(
+      todayBusinessISO(LATE_NIGHT),
+    );
+  });
+
+  it('does not treat the time column as a payment', () => {
+    const report = buildDailyReport(
+      {
+        productRows: [],
+        statsRows: [{日付: '2025/09/20', 時刻: '01:30', 現金: '1000'}],
+        businessDay: LATE_NIGHT,
+      },
+      DEFAULT_MENU_CATALOG,
+    );
+    expect(report.meta.dateISO).toBe('2025-09-19');
+    expect(report.meta.otherPayments).toEqual([]);
+  });
+
+  it('moves after-midnight receipts and items to the previous day', () => {
+    const receipts = [
+      {日付: '2025/09/19 22:00', 取引ID: 'A1', 現金: '1000'},
+      {日付: '2025/09/20 01:30', 取引ID: 'A2', 現金: '500'},
+      {日付: '2025/09/20 18:00', 取引ID: 'B1', 現金: '800'},
+    ];
+    const items = [
+      {日付: '2025/09/19 22:00', 商品名: '豆乳ラーメン「花」', 数量: '1'},
+      {日付: '2025/09/20 01:30', 商品名: '豆乳ラーメン「花」', 数量: '1'},
+      {日付: '2025/09/20 18:00', 商品名: '豆乳ラーメン「月」', 数量: '1'},
+    ];
+    const statsRows = transactionsToDailyStats(receipts, LATE_NIGHT);
+    expect(statsRows).toEqual([
+      {集計期間: '2025-09-19', 現金: 1500, 会計数: 2},
+      {集計期間: '2025-09-20', 現金: 800, 会計数: 1},
+    ]);
+    const reports = buildDailyReports(
+      {productRows: items, statsRows, businessDay: LATE_NIGHT},
+      DEFAULT_MENU_CATALOG,
+    );
+    expect(reports.map(r => r.meta.dateISO)).toEqual([
+      '2025-09-19',
+      '2025-09-20',
+    ]);
+    expect(reports[0].ramenTotals.花).toBe(2);
+    expect(reports[1].ramenTotals.月).toBe(1);
+  });
+
+  it('labels dates from the string regardless of the device time zone', () => {
+    expect(jpDateLabel('2025-09-19')).toBe('9月19日（金曜日）');
+    expect(jpDateLabel('2025-01-01')).toBe('1月1日（水曜日）');
+  });
+
+  it('takes the cutoff and time zone from the CLI', () => {
+    expect(
+      parseArgs(['p.csv', 's.csv', '--cutoff', '4', '--timezone', 'UTC'])!
+        .businessDay,
+    ).toEqual({timeZone: 'UTC', cutoffHour: 4});
+    expect(parseArgs(['p.csv', 's.csv'])!.businessDay).toEqual({
+      timeZone: 'Asia/Tokyo',
+      cutoffHour: 0,
+    });
+    expect(() => parseArgs(['p.csv', 's.csv', '--cutoff', '25'])).toThrow();
+    expect(() =>
+      parseArgs(['p.csv', 's.csv', '--timezone', 'Mars/Base']),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {
+  countedCash,
+  countedSales,
+  overShort,
+  renderCashClosing,
+} from '../src/report/cashClosing';
+import type {CashClosing} from '../src/report/cashClosing';
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {renderOutput} from '../src/report/render';
+
+import {makeReport} from './helpers/report';
+
+const closing: CashClosing = {
+  counts: {10000: 5, 1000: 12, 500: 3, 100: 7, 10: 4, 1: 2},
+  openingFloat: 30000,
+  appendToOutput: true,
+  closedAt: '2025-09-19T14:00:00.000Z',
+};
+
+describe('cash closing', () => {
+  it('computes the counted cash and over/short', () => {
+    expect(countedCash(closing)).toBe(64242);
+    expect(countedSales(closing)).toBe(34242);
+    expect(overShort(closing, 34242)).toBe(0);
+    expect(overShort(closing, 34300)).toBe(-58);
+  });
+
+  it('appends the closing to the report text when asked', () => {
+    const report = makeReport({payments: {cash: 34300}});
+    const withClosing = {...report, cashClosing: closing};
+    expect(renderOutput(withClosing, DEFAULT_MENU_CATALOG)).toContain(
+      renderCashClosing(closing, 34300).join('\n'),
+    );
+    expect(renderCashClosing(closing, 34300)[3]).toBe('不足 -¥58');
+    const hidden = {
+      ...withClosing,
+      cashClosing: {...closing, appendToOutput: false},
+    };
+    expect(renderOutput(hidden, DEFAULT_MENU_CATALOG)).not.toContain(
+      'レジ締め',
+    );
+  });
+});
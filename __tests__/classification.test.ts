@@ -0,0 +1,111 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {classifyProducts} from '../src/report/engine';
+
+// 商品名 1 行がどこに計上されるかを 1 つの文字列で表す
+//   ramen:<銘柄> / set:<銘柄> / side:<サイド> / course:<名前>@<価格>x<人数>
+//   unassigned（要振り分け） / none（どこにも計上しない）
+const classify = (name: string, category = '', qty = 1) => {
+  const r = classifyProducts(
+    [{商品名: name, カテゴリ: category, 数量: String(qty)}],
+    DEFAULT_MENU_CATALOG,
+  );
+  const hits: string[] = [];
+  Object.entries(r.ramenTotals).forEach(
+    ([k, v]) => v && hits.push(`ramen:${k}`),
+  );
+  Object.entries(r.ramenSetTotals).forEach(
+    ([k, v]) => v && hits.push(`set:${k}`),
+  );
+  Object.entries(r.sides).forEach(([k, v]) => v && hits.push(`side:${k}`));
+  r.coursePeople.forEach(c =>
+    hits.push(`course:${c.label}@${c.price}x${c.count}`),
+  );
+  r.unassigned.forEach(() => hits.push('unassigned'));
+  return hits.join(',') || 'none';
+};
+
+describe('product name rules', () => {
+  it.each([
+    // 銘柄：長い名前が短い名前に吸われないこと（items の並び順）
+    ['豆乳ラーメン「花」', 'ramen:花'],
+    ['花', 'ramen:花'],
+    ['Hana', 'ramen:花'],
+    ['ラーメン「月花」', 'ramen:月花'],
+    ['gekka', 'ramen:月花'],
+    ['雪月', 'ramen:雪月'],
+    ['setsugetsu', 'ramen:雪月'],
+    ['雪月花', 'ramen:雪月花'],
+    ['Setsugekka', 'ramen:雪月花'],
+    ['氷花', 'ramen:氷花'],
+    ['ice hana', 'ramen:氷花'],
+    ['花こふれ', 'ramen:花こふれ'],
+    ['hana coffret', 'ramen:花こふれ'],
+    ['カレーラーメン', 'ramen:カレーラーメン'],
+    ['curry ramen', 'ramen:カレーラーメン'],
+    ['ランチ「月」', 'ramen:月'],
+    ['月', 'ramen:月'],
+    ['tsuki', 'ramen:月'],
+    ['ランチ「雪」', 'ramen:雪'],
+    ['yuki', 'ramen:雪'],
+  ])('%s → %s', (name, expected) => {
+    expect(classify(name)).toBe(expected);
+  });
+
+  it.each([
+    // セット：商品名の「セット / set」またはカテゴリの「セット」
+    ['ラーメン「月花」セット', '', 'set:月花'],
+    ['豆乳ラーメン「花」 set', '', 'set:花'],
+    ['豆乳ラーメン「花」', 'セットメニュー', 'set:花'],
+    ['settle 花', '', 'ramen:花'],
+  ])('%s（%s）→ %s', (name, category, expected) => {
+    expect(classify(name, category)).toBe(expected);
+  });
+
+  it.each([
+    ['よくばりカレー', 'side:よくばりカレー'],
+    ['よくばり欧風カレー', 'side:よくばりカレー'],
+    ['パティカレー', 'side:パティカレー'],
+    ['ﾊﾟﾃｨｶﾚｰ', 'side:パティカレー'],
+  ])('side %s → %s', (name, expected) => {
+    expect(classify(name)).toBe(expected);
+  });
+
+  it.each([
+    // コース：価格は 4〜5 桁の数字、人数は「N名」（なければ数量）
+    ['ディナーコース 8800 2名', '', 1, 'course:ディナー@8800x2'],
+    ['ディナーコース 8800', '', 3, 'course:ディナー@8800x3'],
+    ['Dinner course 12000 4名', '', 1, 'course:ディナー@12000x4'],
+    ['クラファンコース', '', 2, 'course:クラファンコース@0x2'],
+    ['記念日プラン 6600', '予約メニュー', 1, 'course:コース@6600x1'],
+    ['おまかせ course', '', 1, 'course:コース@0x1'],
+  ])('course %s（%s）x%d → %s', (name, category, qty, expected) => {
+    expect(classify(name, category, qty)).toBe(expected);
+  });
+
+  it.each([
+    // 除外：「月花…コース」はコースにもラーメンにも入れない
+    ['月花コース', 'none'],
+    ['月花 ディナーコース 8800', 'none'],
+    // 曖昧：「花 or 月花」のセットは手で振り分ける
+    ['ラーメン「花」or「月花」セット', 'unassigned'],
+    ['ラーメン『花』 or 『月花』 ランチセット', 'unassigned'],
+    // 銘柄不明のラーメンらしいもの
+    ['限定まぜ麺', 'unassigned'],
+    ['季節のらーめん', 'unassigned'],
+    // ラーメンでもサイドでもない
+    ['ドリンク', 'none'],
+    ['替え玉', 'none'],
+  ])('%s → %s', (name, expected) => {
+    expect(classify(name)).toBe(expected);
+  });
+
+  it('skips rows with zero quantity', () => {
+    expect(classify('豆乳ラーメン「花」', '', 0)).toBe('none');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {parseArgs, runDailyReport} from '../src/cli/dailyReport';
+import type {CliIO} from '../src/cli/dailyReport';
+
+const FILES: Record<string, string> = {
+  'in/product.csv': [
+    '商品名,カテゴリ,数量',
+    '豆乳ラーメン「花」,ラーメン,10',
+    '限定まぜ麺,ラーメン,2',
+  ].join('\n'),
+  'in/stats.csv': [
+    '集計期間,売上高（税込み）,現金,会計数,客数',
+    '2025-09-19,30000,30000,8,15',
+  ].join('\n'),
+  'short.txt': '{{dateISO}} {{payment.total|yen}}',
+};
+
+const io: CliIO = {
+  readBytes: path => new TextEncoder().encode(FILES[path]),
+  readText: path => FILES[path],
+  exists: path => path in FILES,
+};
+
+describe('parseArgs', () => {
+  it('reads files and flags', () => {
+    expect(
+      parseArgs([
+        'p.csv',
+        's.xlsx',
+        '--date=2025-09-19',
+        '--format',
+        'json',
+        '--template',
+        'builtin_short',
+      ]),
+    ).toMatchObject({
+      productPath: 'p.csv',
+      statsPath: 's.xlsx',
+      date: '2025-09-19',
+      format: 'json',
+      template: 'builtin_short',
+    });
+    expect(parseArgs(['--help'])).toBeNull();
+  });
+
+  it('rejects bad arguments', () => {
+    expect(() => parseArgs(['p.csv'])).toThrow();
+    expect(() => parseArgs(['p.csv', 's.csv', '--format', 'xml'])).toThrow();
+    expect(() => parseArgs(['p.csv', 's.csv', '--date', '9/19'])).toThrow();
+    expect(() => parseArgs(['p.csv', 's.csv', '--verbose'])).toThrow();
+  });
+});
+
+describe('runDailyReport', () => {
+  it('renders with a template file and reports unassigned items', () => {
+    const result = runDailyReport(
+      parseArgs(['in/product.csv', 'in/stats.csv', '--template', 'short.txt'])!,
+      io,
+    );
+    expect(result.output).toBe('2025-09-19 ¥30,000\n');
+    expect(result.errors).toEqual(['未振り分け 2025-09-19：限定まぜ麺 × 2']);
+    expect(result.exitCode).toBe(2);
+  });
+
+  it('writes the export document as JSON with the date override', () => {
+    const result = runDailyReport(
+      parseArgs([
+        'in/product.csv',
+        'in/stats.csv',
+        '--format',
+        'json',
+        '--date',
+        '2025-09-20',
+      ])!,
+      io,
+    );
+    const doc = JSON.parse(result.output);
+    expect(doc.dateISO).toBe('2025-09-20');
+    expect(doc.sourceFiles).toEqual({
+      product: 'product.csv',
+      stats: 'stats.csv',
+    });
+    expect(doc.ramen.find((r: any) => r.key === '花').normal).toBe(10);
+    expect(doc.payments.map((p: any) => p.label)).toContain('現金');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {
+  applyColumnMapping,
+  autoMapping,
+  findMatchingProfile,
+  headersOf,
+  missingRequiredFields,
+} from '../src/import/columnMapping';
+import type {ColumnProfile} from '../src/import/columnMapping';
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {buildDailyReport} from '../src/report/engine';
+
+const productRows = [
+  {メニュー名: '豆乳ラーメン「花」', 出数: '12'},
+  {メニュー名: 'ラーメン「月」', 出数: '3'},
+];
+const statsRows = [{税込売上合計: '50,000', クレカ: '20,000', 現金: '30,000'}];
+
+const profile: ColumnProfile = {
+  id: 'cols_1',
+  name: '新POS 商品別',
+  kind: 'product',
+  mapping: {メニュー名: 'productName', 出数: 'quantity'},
+  createdAt: '2025-09-20T00:00:00.000Z',
+};
+
+describe('column mapping', () => {
+  it('reports required fields the default headers cannot resolve', () => {
+    expect(missingRequiredFields(headersOf(productRows), 'product')).toEqual([
+      'productName',
+      'quantity',
+    ]);
+    expect(
+      missingRequiredFields(headersOf(productRows), 'product', profile.mapping),
+    ).toEqual([]);
+    expect(missingRequiredFields(['商品名', '数量'], 'product')).toEqual([]);
+  });
+
+  it('pre-fills known headers', () => {
+    expect(autoMapping(['商品名', '数量', 'メモ'], 'product')).toEqual({
+      商品名: 'productName',
+      数量: 'quantity',
+    });
+  });
+
+  it('picks a saved profile whose headers are all present', () => {
+    expect(
+      findMatchingProfile([profile], ['メニュー名', '出数', '単価'], 'product'),
+    ).toBe(profile);
+    expect(findMatchingProfile([profile], ['メニュー名'], 'product')).toBe(
+      undefined,
+    );
+    expect(
+      findMatchingProfile([profile], ['メニュー名', '出数'], 'stats'),
+    ).toBe(undefined);
+  });
+
+  it('feeds renamed columns into the report', () => {
+    const report = buildDailyReport(
+      {
+        productRows: applyColumnMapping(productRows, profile.mapping),
+        statsRows: applyColumnMapping(statsRows, {
+          税込売上合計: 'payment:total',
+          クレカ: 'payment:card',
+        }),
+      },
+      DEFAULT_MENU_CATALOG,
+    );
+    expect(report.ramenTotals.花).toBe(12);
+    expect(report.ramenTotals.月).toBe(3);
+    expect(report.meta.payments.total).toBe(50000);
+    expect(report.meta.payments.card).toBe(20000);
+    expect(report.meta.payments.cash).toBe(30000);
+    expect(report.meta.otherPayments).toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {buildComparison, lastYearISO} from '../src/report/comparison';
+import {toDailyRecord} from '../src/report/history';
+import {renderOutput} from '../src/report/render';
+import {
+  BUILTIN_TEMPLATES,
+  DEFAULT_TEMPLATE,
+} from '../src/report/reportTemplates';
+
+import {makeReport} from './helpers/report';
+
+const day = (dateISO: string, total: number, people: number, bowls: number) =>
+  makeReport({dateISO, total, people, ramen: {雪月: bowls}});
+
+const today = day('2025-09-19', 63000, 32, 30);
+const records = [
+  day('2025-09-12', 60000, 30, 32),
+  day('2024-09-19', 50000, 25, 20),
+  day('2025-09-01', 40000, 20, 20),
+  // 前月・後日は月累計に入れない
+  day('2025-08-31', 99999, 1, 1),
+  day('2025-09-20', 99999, 1, 1),
+].map(r => toDailyRecord(r, {}));
+
+describe('buildComparison', () => {
+  it('compares with the same weekday last week and the same date last year', () => {
+    const {lastWeek, lastYear} = buildComparison(today, records);
+    expect(lastWeek?.dateISO).toBe('2025-09-12');
+    expect(lastWeek?.metrics.total).toEqual({
+      current: 63000,
+      base: 60000,
+      diff: 3000,
+      ratio: 0.05,
+    });
+    expect(lastWeek?.metrics.bowls.diff).toBe(-2);
+    expect(lastYear?.metrics.people).toEqual({
+      current: 32,
+      base: 25,
+      diff: 7,
+      ratio: 0.28,
+    });
+  });
+
+  it('leaves out comparisons and targets that are not available', () => {
+    const comparison = buildComparison(today, []);
+    expect(comparison).toEqual({
+      monthToDate: {fromISO: '2025-09-01', total: 63000, days: 1},
+    });
+  });
+
+  it('tracks the daily target and month-to-date progress', () => {
+    const {dailyTarget, monthToDate, monthlyTarget} = buildComparison(
+      today,
+      records,
+      {daily: 60000, monthly: 1000000},
+    );
+    expect(dailyTarget).toEqual({
+      target: 60000,
+      actual: 63000,
+      diff: 3000,
+      progress: 1.05,
+    });
+    // 9/1・9/12 の保存分 + この日
+    expect(monthToDate).toEqual({
+      fromISO: '2025-09-01',
+      total: 163000,
+      days: 3,
+    });
+    expect(monthlyTarget?.progress).toBe(0.163);
+  });
+
+  it('uses the screen figures rather than a saved copy of the same day', () => {
+    const saved = toDailyRecord(day('2025-09-19', 10000, 5, 5), {});
+    const {monthToDate} = buildComparison(today, [...records, saved]);
+    expect(monthToDate.total).toBe(163000);
+  });
+
+  it('maps Feb 29 to Feb 28 of the previous year', () => {
+    expect(lastYearISO('2024-02-29')).toBe('2023-02-28');
+  });
+});
+
+describe('comparison output', () => {
+  it('adds the comparison lines to the daily text', () => {
+    const comparison = buildComparison(today, records, {
+      daily: 60000,
+      monthly: 1000000,
+    });
+    const text = renderOutput(
+      today,
+      DEFAULT_MENU_CATALOG,
+      DEFAULT_TEMPLATE,
+      undefined,
+      undefined,
+      undefined,
+      comparison,
+      {append: true},
+    );
+    expect(text).toContain(
+      '前週同曜日（9月12日（金曜日））　売上 +¥3,000（+5.0%）／客数 +2人（+6.7%）／杯数 -2杯（-6.2%）',
+    );
+    expect(text).toContain(
+      '前年同日（2024年9月19日）　売上 +¥13,000（+26.0%）',
+    );
+    expect(text).toContain('日目標　¥60,000 の 105.0%（+¥3,000）');
+    expect(text).toContain(
+      '月累計　¥163,000（3日分）／月目標 ¥1,000,000 の 16.3%（-¥837,000）',
+    );
+
+    const short = BUILTIN_TEMPLATES.find(t => t.id === 'builtin_short')!;
+    expect(
+      renderOutput(
+        today,
+        DEFAULT_MENU_CATALOG,
+        short,
+        undefined,
+        undefined,
+        undefined,
+        comparison,
+        {append: true},
+      ),
+    ).toContain('日目標 ¥60,000 の 105.0%');
+  });
+
+  it('leaves the comparison out of the text unless it is turned on', () => {
+    const comparison = buildComparison(today, records, {
+      daily: 60000,
+      monthly: 1000000,
+    });
+    expect(
+      renderOutput(
+        today,
+        DEFAULT_MENU_CATALOG,
+        DEFAULT_TEMPLATE,
+        undefined,
+        undefined,
+        undefined,
+        comparison,
+      ),
+    ).toBe(renderOutput(today, DEFAULT_MENU_CATALOG));
+  });
+
+  it('shows nothing extra without history or targets', () => {
+    const plain = renderOutput(today, DEFAULT_MENU_CATALOG);
+    const first = renderOutput(
+      today,
+      DEFAULT_MENU_CATALOG,
+      DEFAULT_TEMPLATE,
+      undefined,
+      undefined,
+      undefined,
+      buildComparison(today, []),
+      {append: true},
+    );
+    expect(first).toBe(plain);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import * as XLSX from 'xlsx';
+
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {
+  DAILY_EXPORT_SCHEMA,
+  DAILY_EXPORT_VERSION,
+  dailyCsvColumns,
+  dailyToCsv,
+  dailyToJson,
+  dailyToWorkbook,
+  toDailyExport,
+} from '../src/report/dailyExport';
+import type {DailyExportDocument} from '../src/report/dailyExport';
+import {
+  DEFAULT_PAYMENT_METHODS,
+  applyPaymentMethod,
+  methodFromOtherPayment,
+} from '../src/report/payments';
+
+import {makeReport} from './helpers/report';
+
+const sampleReport = () =>
+  makeReport({
+    total: 30000,
+    otherPayments: [{label: '商品券', amount: 1000}],
+    groups: 8,
+    people: 15,
+    ramen: {花: 10},
+    set: {花: 2},
+    course: {月花: 1},
+    sides: {よくばりカレー: 2},
+    coursePeople: [{label: 'ディナー', price: 8800, count: 4}],
+    unassigned: [{name: '限定まぜそば', count: 3}],
+  });
+
+describe('toDailyExport', () => {
+  it('builds a versioned document with the full ramen breakdown', () => {
+    const doc = toDailyExport(
+      sampleReport(),
+      DEFAULT_MENU_CATALOG,
+      DEFAULT_PAYMENT_METHODS,
+      {product: 'p.csv'},
+      '2025-09-20T00:00:00.000Z',
+    );
+    expect(doc.schema).toBe(DAILY_EXPORT_SCHEMA);
+    expect(doc.version).toBe(DAILY_EXPORT_VERSION);
+    expect(doc.dateISO).toBe('2025-09-19');
+    expect(doc.ramen.find(r => r.key === '花')).toEqual({
+      key: '花',
+      label: '花',
+      normal: 10,
+      set: 2,
+      course: 0,
+      total: 12,
+    });
+    expect(doc.unassigned).toEqual([{name: '限定まぜそば', count: 3}]);
+    expect(doc.cashClosing).toBeNull();
+    expect(doc.payments.slice(0, 2)).toEqual([
+      {key: 'total', label: '売上', amount: 30000},
+      {key: 'card', label: 'クレジット・IC（Square）', amount: 0},
+    ]);
+  });
+
+  it('writes a promoted payment with its name', () => {
+    const method = methodFromOtherPayment(DEFAULT_PAYMENT_METHODS, '商品券');
+    const methods = [...DEFAULT_PAYMENT_METHODS, method];
+    const report = applyPaymentMethod(sampleReport(), method);
+    const doc = JSON.parse(
+      dailyToJson(report, DEFAULT_MENU_CATALOG, methods),
+    ) as DailyExportDocument;
+    expect(doc.payments).toContainEqual({
+      key: method.key,
+      label: '商品券',
+      amount: 1000,
+    });
+    expect(doc.otherPayments).toEqual([]);
+    expect(doc).toEqual(
+      toDailyExport(report, DEFAULT_MENU_CATALOG, methods, {}, doc.exportedAt),
+    );
+  });
+});
+
+describe('dailyToCsv', () => {
+  it('keeps the same columns regardless of the figures', () => {
+    const empty = makeReport({dateISO: '2025-09-18'});
+    const [header, row] = dailyToCsv(sampleReport(), DEFAULT_MENU_CATALOG)
+      .replace(/^\uFEFF/, '')
+      .split('\n');
+    const [emptyHeader] = dailyToCsv(empty, DEFAULT_MENU_CATALOG)
+      .replace(/^\uFEFF/, '')
+      .split('\n');
+    expect(header).toBe(emptyHeader);
+    expect(header.split(',')).toHaveLength(
+      dailyCsvColumns(DEFAULT_MENU_CATALOG).length,
+    );
+    const cells = Object.fromEntries(
+      header.split(',').map((h, i) => [h, row.split(',')[i]]),
+    );
+    expect(cells['日付']).toBe('2025-09-19');
+    expect(cells['その他決済']).toBe('1000');
+    expect(cells['花（セット）']).toBe('2');
+    expect(cells['月花（コース）']).toBe('1');
+    expect(cells['ディナー（人数）']).toBe('4');
+    expect(cells['未振り分け件数']).toBe('1');
+  });
+});
+
+describe('dailyToWorkbook', () => {
+  it('has sheets for payments, ramen, courses and unassigned items', () => {
+    const wb = dailyToWorkbook(sampleReport(), DEFAULT_MENU_CATALOG);
+    expect(wb.SheetNames).toEqual(['支払', 'ラーメン', 'コース', '未振り分け']);
+    const unassigned = XLSX.utils.sheet_to_json(wb.Sheets['未振り分け'], {
+      header: 1,
+    });
+    expect(unassigned).toEqual([
+      ['商品名', '数量'],
+      ['限定まぜそば', 3],
+    ]);
+  });
+});
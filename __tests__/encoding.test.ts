@@ -0,0 +1,56 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import cptable from 'xlsx/dist/cpexcel.js';
+
+import {decodeText, detectEncoding} from '../src/import/encoding';
+import {bytesToRows} from '../src/import/rows';
+
+const CSV = '商品名,数量\n豆乳ラーメン「花」①,3\n';
+
+const sjisBytes = (text: string) =>
+  new Uint8Array(cptable.utils.encode(932, text) as Uint8Array);
+const utf16leBytes = (text: string, bom: boolean) => {
+  const body = Array.from(text).flatMap(ch => {
+    const code = ch.charCodeAt(0);
+    return [code % 256, Math.floor(code / 256)];
+  });
+  return new Uint8Array(bom ? [0xff, 0xfe, ...body] : body);
+};
+
+describe('detectEncoding', () => {
+  it('tells UTF-8, BOM, UTF-16 and Shift_JIS apart', () => {
+    const utf8 = new TextEncoder().encode(CSV);
+    expect(detectEncoding(utf8)).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, ...utf8]))).toBe(
+      'utf-8-bom',
+    );
+    expect(detectEncoding(utf16leBytes(CSV, true))).toBe('utf-16le');
+    expect(detectEncoding(utf16leBytes(CSV, false))).toBe('utf-16le');
+    expect(detectEncoding(sjisBytes(CSV))).toBe('shift_jis');
+  });
+});
+
+describe('decodeText', () => {
+  it('decodes Shift_JIS including CP932 characters', () => {
+    expect(decodeText(sjisBytes(CSV))).toEqual({
+      text: CSV,
+      encoding: 'shift_jis',
+    });
+  });
+
+  it('strips the byte order mark', () => {
+    expect(decodeText(utf16leBytes(CSV, true)).text).toBe(CSV);
+  });
+});
+
+describe('bytesToRows', () => {
+  it('parses a Shift_JIS CSV with Japanese headers', () => {
+    expect(bytesToRows(sjisBytes(CSV), 'items.csv', 'text/csv')).toEqual({
+      rows: [{商品名: '豆乳ラーメン「花」①', 数量: '3'}],
+      encoding: 'shift_jis',
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {
+  assignAllUnassigned,
+  assignUnassigned,
+  revertAllocation,
+} from '../src/report/allocate';
+import {DEFAULT_MENU_CATALOG, compileCatalog} from '../src/report/catalog';
+import {buildDailyReport, guessRamenKey} from '../src/report/engine';
+import {renderOutput} from '../src/report/render';
+
+const statsRows = [
+  {
+    集計期間: '2025-09-19 〜 2025-09-19',
+    '売上高（税込み）': '120,000',
+    '売上高（税抜き）': '109,091',
+    Square: '50,000',
+    PayPay: '10,000',
+    現金: '60,000',
+    商品ギフト券: '1,500',
+    会計数: '40',
+    客数: '72',
+  },
+];
+
+const productRows = [
+  {商品名: '豆乳ラーメン「花」', 商品販売数: '20'},
+  {商品名: 'ラーメン「月花」セット', 商品販売数: '5'},
+  {商品名: 'よくばりカレー', 商品販売数: '3'},
+  {
+    商品名: 'ディナーコース 8800 2名',
+    カテゴリ: '予約メニュー',
+    商品販売数: '1',
+  },
+  {商品名: '月花コース', 商品販売数: '4'},
+  {商品名: '限定まぜ麺', 商品販売数: '2'},
+  {商品名: 'ドリンク', 商品販売数: '9'},
+];
+
+describe('buildDailyReport', () => {
+  it('aggregates payments, people and products', () => {
+    const report = buildDailyReport(
+      {productRows, statsRows},
+      DEFAULT_MENU_CATALOG,
+    );
+    expect(report.meta.dateISO).toBe('2025-09-19');
+    expect(report.meta.payments).toEqual({
+      total: 120000,
+      card: 50000,
+      tablecheck: 0,
+      paypay: 10000,
+      cash: 60000,
+      funfo: 0,
+    });
+    expect(report.meta.otherPayments).toEqual([
+      {label: '商品ギフト券', amount: 1500},
+    ]);
+    expect(report.meta.groups).toBe(40);
+    expect(report.meta.people).toBe(72);
+    expect(report.meta.sides).toEqual({よくばりカレー: 3, パティカレー: 0});
+    expect(report.ramenTotals.花).toBe(20);
+    expect(report.ramenSetTotals.月花).toBe(5);
+    expect(report.coursePeople).toEqual([
+      {label: 'ディナー', price: 8800, count: 2},
+    ]);
+    expect(report.unassigned).toEqual([{name: '限定まぜ麺', count: 2}]);
+  });
+
+  it('falls back to the file name for the date', () => {
+    const report = buildDailyReport(
+      {
+        productRows: [],
+        statsRows: [{'売上高（税込み）': '1000'}],
+        statsFileName: '売上_2025年9月1日.csv',
+      },
+      DEFAULT_MENU_CATALOG,
+    );
+    expect(report.meta.dateISO).toBe('2025-09-01');
+  });
+
+  it('rejects an empty stats file', () => {
+    expect(() =>
+      buildDailyReport({productRows, statsRows: []}, DEFAULT_MENU_CATALOG),
+    ).toThrow();
+  });
+
+  it('rejects several stats rows for one day instead of reading the first', () => {
+    const row = {'売上高（税込み）': '1,000', 現金: '1,000'};
+    expect(() =>
+      buildDailyReport(
+        {productRows, statsRows: [row, row]},
+        DEFAULT_MENU_CATALOG,
+      ),
+    ).toThrow(/同じ日の行が 2 行/);
+  });
+});
+
+describe('guessRamenKey', () => {
+  const compiled = compileCatalog(DEFAULT_MENU_CATALOG);
+
+  it('prefers the longest bowl name', () => {
+    expect(guessRamenKey('雪月花', compiled)).toBe('雪月花');
+    expect(guessRamenKey('雪月 セット', compiled)).toBe('雪月');
+    expect(guessRamenKey('カレーラーメン', compiled)).toBe('カレーラーメン');
+    expect(guessRamenKey('ラーメン「月」', compiled)).toBe('月');
+    expect(guessRamenKey('餃子', compiled)).toBeUndefined();
+  });
+
+  it('picks up items added to the catalog', () => {
+    const catalog = {
+      ...DEFAULT_MENU_CATALOG,
+      items: [
+        {
+          key: '限定まぜ麺',
+          label: '限定まぜ麺',
+          order: 10,
+          patterns: ['まぜ麺'],
+          setAllowed: false,
+          category: 'ramen' as const,
+        },
+        ...DEFAULT_MENU_CATALOG.items,
+      ],
+    };
+    const report = buildDailyReport({productRows, statsRows}, catalog);
+    expect(report.ramenTotals.限定まぜ麺).toBe(2);
+    expect(report.unassigned).toEqual([]);
+  });
+});
+
+describe('assignUnassigned', () => {
+  it('moves quantity from unassigned into the chosen bucket', () => {
+    const report = buildDailyReport(
+      {productRows, statsRows},
+      DEFAULT_MENU_CATALOG,
+    );
+    const once = assignUnassigned(report, 0, '花', 'set', 1);
+    expect(once.ramenSetTotals.花).toBe(1);
+    expect(once.unassigned).toEqual([{name: '限定まぜ麺', count: 1}]);
+    const rest = assignUnassigned(once, 0, '花', 'course');
+    expect(rest.ramenCourseTotals.花).toBe(1);
+    expect(rest.unassigned).toEqual([]);
+    expect(renderOutput(rest, DEFAULT_MENU_CATALOG)).toContain(
+      '・花　22杯(+セット1杯, +コース1杯)',
+    );
+  });
+});
+
+describe('allocation log', () => {
+  it('records manual allocations and reverts one back to unassigned', () => {
+    const report = buildDailyReport(
+      {productRows, statsRows},
+      DEFAULT_MENU_CATALOG,
+    );
+    const tapped = assignUnassigned(
+      assignUnassigned(report, 0, '花', 'set', 1),
+      0,
+      '花',
+      'set',
+      1,
+    );
+    expect(tapped.allocations).toMatchObject([
+      {name: '限定まぜ麺', key: '花', bucket: 'set', qty: 2},
+    ]);
+
+    const reverted = revertAllocation(tapped, tapped.allocations![0].id);
+    expect(reverted.ramenSetTotals.花).toBe(0);
+    expect(reverted.unassigned).toEqual([{name: '限定まぜ麺', count: 2}]);
+    expect(reverted.allocations).toEqual([]);
+  });
+
+  it('logs each item of a bulk allocation', () => {
+    const report = buildDailyReport(
+      {productRows, statsRows},
+      DEFAULT_MENU_CATALOG,
+    );
+    const bulk = assignAllUnassigned(report, '花', 'set');
+    expect(bulk.allocations).toMatchObject([
+      {name: '限定まぜ麺', key: '花', bucket: 'set', qty: 2},
+    ]);
+  });
+});
+
+describe('learned rules', () => {
+  it('resolves unassigned items by exact product name', () => {
+    const rules = [
+      {
+        id: 'r1',
+        productName: '限定まぜ麺',
+        key: '花',
+        bucket: 'set' as const,
+        createdAt: '2025-09-19T00:00:00.000Z',
+      },
+    ];
+    const report = buildDailyReport(
+      {productRows, statsRows},
+      DEFAULT_MENU_CATALOG,
+      rules,
+    );
+    expect(report.unassigned).toEqual([]);
+    expect(report.ramenSetTotals.花).toBe(2);
+    expect(report.autoResolved).toEqual([
+      {name: '限定まぜ麺', count: 2, key: '花', bucket: 'set', ruleId: 'r1'},
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import type {ColumnProfile} from '../src/import/columnMapping';
+import {guessFileKind, routeFiles} from '../src/import/fileKind';
+
+const PRODUCT_HEADERS = ['日付', '商品名', 'カテゴリ', '数量'];
+const STATS_HEADERS = [
+  '集計期間',
+  '売上高（税込み）',
+  '現金',
+  '会計数',
+  '客数',
+  '商品販売数',
+];
+
+describe('guessFileKind', () => {
+  it('tells product and stats files apart by their headers', () => {
+    expect(guessFileKind(PRODUCT_HEADERS)).toBe('product');
+    expect(guessFileKind(STATS_HEADERS)).toBe('stats');
+    expect(guessFileKind(['メモ', '備考'])).toBeNull();
+  });
+
+  it('prefers a saved column profile', () => {
+    const profile: ColumnProfile = {
+      id: 'p1',
+      name: '自作集計',
+      kind: 'stats',
+      mapping: {売上: 'payment:total', 品目: 'groups'},
+      createdAt: '',
+    };
+    expect(guessFileKind(['売上', '品目', '数量'], [profile])).toBe('stats');
+  });
+});
+
+describe('routeFiles', () => {
+  it('routes two dropped files in either order', () => {
+    expect(routeFiles([STATS_HEADERS, PRODUCT_HEADERS])).toEqual([
+      'stats',
+      'product',
+    ]);
+    expect(routeFiles([PRODUCT_HEADERS, STATS_HEADERS])).toEqual([
+      'product',
+      'stats',
+    ]);
+  });
+
+  it('sends the weaker file to the other side when both look alike', () => {
+    expect(
+      routeFiles([
+        ['商品名', '数量'],
+        ['日付', '数量'],
+      ]),
+    ).toEqual(['product', 'stats']);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * @format
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import {describe, expect, it} from '@jest/globals';
+
+import type {FileKind} from '../src/import/columnMapping';
+import {buildReportsFromFiles, prepareImport} from '../src/import/pipeline';
+import {bytesToRows} from '../src/import/rows';
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {buildComparison, lastWeekISO} from '../src/report/comparison';
+import {toDailyRecord} from '../src/report/history';
+import {renderOutput} from '../src/report/render';
+
+// 実際の POS エクスポートに近いファイル → 日報オブジェクトと日報テキストの突き合わせ。
+// fixtures/golden/<ケース>/ に product.* と stats.*（csv / xlsx）を置き、
+// UPDATE_GOLDEN=1 npx jest golden で expected.json / expected.txt を作り直す
+const ROOT = path.join(__dirname, 'fixtures', 'golden');
+const UPDATE = process.env.UPDATE_GOLDEN === '1';
+const DAY_SEPARATOR = '\n\n----\n\n';
+
+const findInput = (dir: string, kind: FileKind) => {
+  const name = fs.readdirSync(dir).find(f => f.startsWith(`${kind}.`));
+  if (!name) {
+    throw new Error(`${dir} に ${kind}.csv / ${kind}.xlsx がありません`);
+  }
+  const rows = bytesToRows(
+    new Uint8Array(fs.readFileSync(path.join(dir, name))),
+    name,
+  );
+  return prepareImport(kind, {name, ...rows});
+};
+
+// 期待値は UPDATE_GOLDEN=1 のときだけ書く。ないときは失敗させる（ケース名の誤りで素通りしないように）
+const compareGolden = (file: string, actual: string) => {
+  if (UPDATE) {
+    fs.writeFileSync(file, actual, 'utf8');
+    return;
+  }
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `${file} がありません（UPDATE_GOLDEN=1 npx jest golden で作ります）`,
+    );
+  }
+  expect(actual).toBe(fs.readFileSync(file, 'utf8'));
+};
+
+describe('golden files', () => {
+  const cases = fs
+    .readdirSync(ROOT)
+    .filter(name => fs.statSync(path.join(ROOT, name)).isDirectory());
+
+  it.each(cases)('%s', name => {
+    const dir = path.join(ROOT, name);
+    const reports = buildReportsFromFiles(
+      findInput(dir, 'product'),
+      findInput(dir, 'stats'),
+      DEFAULT_MENU_CATALOG,
+    );
+    compareGolden(
+      path.join(dir, 'expected.json'),
+      JSON.stringify(reports, null, 2) + '\n',
+    );
+    const text =
+      reports
+        .map(r => renderOutput(r, DEFAULT_MENU_CATALOG))
+        .join(DAY_SEPARATOR) + '\n';
+    compareGolden(path.join(dir, 'expected.txt'), text);
+
+    // 履歴・目標があっても、比較を載せる設定にしなければ日報テキストは変わらない
+    const lastWeek = reports.map(r =>
+      toDailyRecord(
+        {...r, meta: {...r.meta, dateISO: lastWeekISO(r.meta.dateISO)}},
+        {},
+      ),
+    );
+    const withHistory = reports.map(r =>
+      renderOutput(
+        r,
+        DEFAULT_MENU_CATALOG,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        buildComparison(r, lastWeek, {daily: 100000, monthly: 1000000}),
+      ),
+    );
+    expect(withHistory.join(DAY_SEPARATOR) + '\n').toBe(text);
+  });
+});
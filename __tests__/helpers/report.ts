@@ -0,0 +1,61 @@
+/**
+ * @format
+ */
+
+import {DEFAULT_MENU_CATALOG} from '../../src/report/catalog';
+import {makeEmptyReport} from '../../src/report/engine';
+import {toDailyRecord} from '../../src/report/history';
+import type {
+  CoursePeopleEntry,
+  DailyReport,
+  OtherPayment,
+  UnassignedItem,
+} from '../../src/report/types';
+
+// テスト用の日報（標準カタログ）。指定しない数値は makeEmptyReport のまま 0。
+// total だけ渡すと全額現金、payments を渡すとその内訳（total は別に渡す）
+export type ReportFixture = {
+  dateISO?: string;
+  total?: number;
+  payments?: Record<string, number>;
+  otherPayments?: OtherPayment[];
+  groups?: number;
+  people?: number;
+  ramen?: Record<string, number>;
+  set?: Record<string, number>;
+  course?: Record<string, number>;
+  sides?: Record<string, number>;
+  coursePeople?: CoursePeopleEntry[];
+  unassigned?: UnassignedItem[];
+};
+
+export const makeReport = (fixture: ReportFixture = {}): DailyReport => {
+  const {dateISO = '2025-09-19', total} = fixture;
+  const report = makeEmptyReport(dateISO, DEFAULT_MENU_CATALOG);
+  const payments =
+    fixture.payments ?? (total !== undefined ? {cash: total} : {});
+  return {
+    ...report,
+    meta: {
+      ...report.meta,
+      payments: {
+        ...report.meta.payments,
+        ...payments,
+        ...(total !== undefined ? {total} : {}),
+      },
+      otherPayments: fixture.otherPayments ?? report.meta.otherPayments,
+      groups: fixture.groups ?? report.meta.groups,
+      people: fixture.people ?? report.meta.people,
+      sides: {...report.meta.sides, ...fixture.sides},
+    },
+    ramenTotals: {...report.ramenTotals, ...fixture.ramen},
+    ramenSetTotals: {...report.ramenSetTotals, ...fixture.set},
+    ramenCourseTotals: {...report.ramenCourseTotals, ...fixture.course},
+    coursePeople: fixture.coursePeople ?? report.coursePeople,
+    unassigned: fixture.unassigned ?? report.unassigned,
+  };
+};
+
+// 履歴に保存した形（取込ファイル名なし）
+export const makeRecord = (fixture: ReportFixture = {}) =>
+  toDailyRecord(makeReport(fixture), {});
@@ -0,0 +1,114 @@
+/**
+ * @format
+ */
+
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+
+import {assignUnassigned} from '../src/report/allocate';
+import {
+  recordToReport,
+  sortRecordsDesc,
+  toDailyRecord,
+} from '../src/report/history';
+import {overrideFigure} from '../src/report/overrides';
+import {
+  deleteDailyRecord,
+  loadDailyRecord,
+  loadHistory,
+  saveDailyRecord,
+} from '../src/storage/history';
+
+import {makeRecord, makeReport} from './helpers/report';
+
+// 端末の保存先の代わりにメモリに置く
+const mockStore = new Map<string, string>();
+jest.mock('../src/storage/jsonStore', () => ({
+  loadJSON: async (key: string, fallback: unknown) =>
+    mockStore.has(key) ? JSON.parse(mockStore.get(key)!) : fallback,
+  saveJSON: async (key: string, value: unknown) => {
+    mockStore.set(key, JSON.stringify(value));
+  },
+  removeJSON: async (key: string) => {
+    mockStore.delete(key);
+  },
+}));
+
+describe('saved history', () => {
+  beforeEach(() => mockStore.clear());
+
+  it('overwrites a day saved twice', async () => {
+    await saveDailyRecord(makeRecord({dateISO: '2025-09-19', total: 1000}));
+    await saveDailyRecord(makeRecord({dateISO: '2025-09-19', total: 2500}));
+    const history = await loadHistory();
+    expect(history).toHaveLength(1);
+    expect(history[0].meta.payments.total).toBe(2500);
+    expect((await loadDailyRecord('2025-09-19'))?.meta.payments.total).toBe(
+      2500,
+    );
+  });
+
+  it('keeps each store apart and deletes a single day', async () => {
+    await saveDailyRecord(makeRecord({dateISO: '2025-09-18'}));
+    await saveDailyRecord(makeRecord({dateISO: '2025-09-19'}));
+    await saveDailyRecord(makeRecord({dateISO: '2025-09-19'}), 'store_b');
+    await deleteDailyRecord('2025-09-19');
+    expect((await loadHistory()).map(r => r.meta.dateISO)).toEqual([
+      '2025-09-18',
+    ]);
+    expect(await loadHistory('store_b')).toHaveLength(1);
+  });
+});
+
+describe('sortRecordsDesc', () => {
+  it('puts the newest day first without changing the input', () => {
+    const records = [
+      '2025-09-18',
+      '2025-10-01',
+      '2024-12-31',
+      '2025-09-19',
+    ].map(dateISO => makeRecord({dateISO}));
+    expect(sortRecordsDesc(records).map(r => r.meta.dateISO)).toEqual([
+      '2025-10-01',
+      '2025-09-19',
+      '2025-09-18',
+      '2024-12-31',
+    ]);
+    expect(records[0].meta.dateISO).toBe('2025-09-18');
+  });
+});
+
+describe('recordToReport', () => {
+  it.each([
+    ['a plain day', makeReport({total: 30000, people: 15, ramen: {花: 10}})],
+    [
+      'a day with allocations and manual edits',
+      overrideFigure(
+        assignUnassigned(
+          makeReport({total: 30000, unassigned: [{name: '限定麺', count: 2}]}),
+          0,
+          '花',
+          'set',
+        ),
+        'people',
+        12,
+      ),
+    ],
+    [
+      'a day with a cash closing',
+      {
+        ...makeReport({total: 5000}),
+        cashClosing: {
+          counts: {1000: 5},
+          openingFloat: 0,
+          appendToOutput: true,
+          closedAt: '2025-09-19T14:00:00.000Z',
+        },
+      },
+    ],
+  ])('gives back %s', (_name, report) => {
+    const record = toDailyRecord(report, {product: 'p.csv', stats: 's.csv'});
+    // 保存は JSON なので一度文字列にしても同じになること
+    const stored = JSON.parse(JSON.stringify(record));
+    expect(recordToReport(stored)).toEqual(report);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {parseArgs} from '../src/cli/dailyReport';
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {combinePeriod} from '../src/report/combined';
+import {toDailyRecord} from '../src/report/history';
+import {computeKpis} from '../src/report/kpi';
+import {DEFAULT_PAYMENT_METHODS} from '../src/report/payments';
+import {aggregatePeriod} from '../src/report/period';
+import {periodKpiRows} from '../src/report/periodExport';
+import {renderOutput} from '../src/report/render';
+import {DEFAULT_TEMPLATE} from '../src/report/reportTemplates';
+
+import {makeReport} from './helpers/report';
+
+const sampleReport = () =>
+  makeReport({
+    total: 60000,
+    payments: {cash: 24000, card: 30000, paypay: 6000},
+    groups: 20,
+    people: 30,
+    ramen: {雪月: 10, 月花: 8},
+    set: {雪月: 10},
+    course: {雪月花: 4},
+    coursePeople: [{label: 'おまかせ', price: 3000, count: 4}],
+  });
+
+describe('computeKpis', () => {
+  it('derives the per-customer figures and ratios from the day', () => {
+    expect(computeKpis(sampleReport())).toEqual({
+      perCustomer: 2000,
+      perGroup: 3000,
+      bowlsPerCustomer: 1.07,
+      setRatio: {雪月: 0.5, 月花: 0, 雪月花: 0},
+      courseShare: 0.2,
+      cashlessRatio: 0.6,
+    });
+  });
+
+  it('follows the cashless flag of the configured methods', () => {
+    const methods = DEFAULT_PAYMENT_METHODS.map(m =>
+      m.key === 'paypay' ? {...m, cashless: false} : m,
+    );
+    expect(computeKpis(sampleReport(), methods).cashlessRatio).toBe(0.5);
+  });
+
+  it('is all zero for an empty day', () => {
+    const kpis = computeKpis(makeReport());
+    expect(kpis).toMatchObject({
+      perCustomer: 0,
+      bowlsPerCustomer: 0,
+      courseShare: 0,
+      cashlessRatio: 0,
+    });
+  });
+});
+
+describe('KPI output', () => {
+  it('is appended to the daily text only when enabled', () => {
+    const report = sampleReport();
+    expect(renderOutput(report, DEFAULT_MENU_CATALOG)).not.toContain(
+      'キャッシュレス比率',
+    );
+    const text = renderOutput(
+      report,
+      DEFAULT_MENU_CATALOG,
+      DEFAULT_TEMPLATE,
+      undefined,
+      undefined,
+      {append: true},
+    );
+    expect(text).toContain('客単価　¥2,000');
+    expect(text).toContain('1人あたり杯数　1.07杯');
+    expect(text).toContain('セット率（雪月）　50.0%');
+    // セット不可の銘柄は出さない
+    expect(text).not.toContain('セット率（雪月花）');
+    expect(text).toContain('キャッシュレス比率　60.0%');
+  });
+
+  it('is switched on from the CLI with --kpi', () => {
+    expect(parseArgs(['p.csv', 's.csv'])?.kpi).toBe(false);
+    expect(parseArgs(['p.csv', 's.csv', '--kpi'])?.kpi).toBe(true);
+  });
+});
+
+describe('KPI history', () => {
+  it('is stored with the record and listed per day in the period export', () => {
+    const record = toDailyRecord(sampleReport(), {});
+    expect(record.kpis?.cashlessRatio).toBe(0.6);
+
+    const period = aggregatePeriod([record], '2025-09-19', '2025-09-19');
+    const [header, row] = periodKpiRows(period, DEFAULT_MENU_CATALOG);
+    expect(row[header.indexOf('キャッシュレス比率')]).toBe(0.6);
+    expect(row[header.indexOf('セット率（雪月）')]).toBe(0.5);
+  });
+
+  it('falls back to computing records saved before KPIs existed', () => {
+    const old = toDailyRecord(sampleReport(), {});
+    delete old.kpis;
+    const period = aggregatePeriod([old], '2025-09-19', '2025-09-19');
+    expect(period.days[0].kpis?.perGroup).toBe(3000);
+  });
+
+  it('recomputes the KPIs of days combined from several stores', () => {
+    const record = toDailyRecord(sampleReport(), {});
+    const store = (id: string) => ({id, name: id});
+    const combined = combinePeriod(
+      [
+        {store: store('a'), records: [record]},
+        {store: store('b'), records: [record]},
+      ],
+      '2025-09-19',
+      '2025-09-19',
+    );
+    const [header, row] = periodKpiRows(combined, DEFAULT_MENU_CATALOG);
+    expect(row[header.indexOf('客単価')]).toBe(2000);
+    expect(row[header.indexOf('キャッシュレス比率')]).toBe(0.6);
+    expect(combined.days[0].kpis).toEqual(computeKpis(record));
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {assignUnassigned, revertAllocation} from '../src/report/allocate';
+import {recordToReport, toDailyRecord} from '../src/report/history';
+import {
+  carryOverrides,
+  clearOverride,
+  coursePath,
+  getFigure,
+  overrideFigure,
+} from '../src/report/overrides';
+
+import {makeReport} from './helpers/report';
+
+const sampleReport = () =>
+  makeReport({
+    total: 30000,
+    people: 15,
+    set: {花: 2},
+    coursePeople: [
+      {label: 'ディナー', price: 8800, count: 2},
+      {label: 'ディナー', price: 8800, count: 2},
+    ],
+  });
+
+describe('overrideFigure', () => {
+  it('keeps the imported value next to the edited one', () => {
+    const edited = overrideFigure(sampleReport(), 'payments.cash', 28000);
+    expect(edited.meta.payments.cash).toBe(28000);
+    expect(edited.overrides).toEqual({
+      'payments.cash': {imported: 30000, value: 28000},
+    });
+
+    const again = overrideFigure(edited, 'payments.cash', 27000);
+    expect(again.overrides!['payments.cash']).toEqual({
+      imported: 30000,
+      value: 27000,
+    });
+
+    const reset = clearOverride(again, 'payments.cash');
+    expect(reset.meta.payments.cash).toBe(30000);
+    expect(reset.overrides).toEqual({});
+  });
+
+  it('drops the marker when the imported value is typed back', () => {
+    const edited = overrideFigure(sampleReport(), 'people', 16);
+    expect(overrideFigure(edited, 'people', 15).overrides).toEqual({});
+  });
+
+  it('edits ramen buckets, other payments and merged course entries', () => {
+    let report = overrideFigure(sampleReport(), 'ramenSetTotals.花', 3);
+    report = overrideFigure(report, 'otherPayments.商品券', 1000);
+    report = overrideFigure(report, coursePath('ディナー', 8800), 5);
+    expect(report.ramenSetTotals.花).toBe(3);
+    expect(report.meta.otherPayments).toEqual([
+      {label: '商品券', amount: 1000},
+    ]);
+    expect(getFigure(report, coursePath('ディナー', 8800))).toBe(5);
+    expect(report.overrides![coursePath('ディナー', 8800)].imported).toBe(4);
+  });
+});
+
+describe('carryOverrides', () => {
+  it('re-applies edits on top of a fresh import of the same day', () => {
+    const edited = overrideFigure(sampleReport(), 'people', 16);
+    const fresh = sampleReport();
+    fresh.meta.people = 14;
+    const [carried] = carryOverrides([edited], [fresh]);
+    expect(carried.meta.people).toBe(16);
+    expect(carried.overrides).toEqual({people: {imported: 14, value: 16}});
+  });
+
+  it('keeps allocations made after an edit and drops them on a fresh import', () => {
+    const imported = () =>
+      makeReport({ramen: {花: 10}, unassigned: [{name: '限定麺', count: 3}]});
+    const edited = overrideFigure(imported(), 'ramenTotals.花', 12);
+    const allocated = assignUnassigned(edited, 0, '花', 'normal');
+    expect(allocated.ramenTotals.花).toBe(15);
+    expect(allocated.overrides).toEqual({
+      'ramenTotals.花': {imported: 13, value: 15},
+    });
+    expect(clearOverride(allocated, 'ramenTotals.花').ramenTotals.花).toBe(13);
+    expect(
+      revertAllocation(allocated, allocated.allocations![0].id).overrides,
+    ).toEqual({'ramenTotals.花': {imported: 10, value: 12}});
+
+    // 保存して開き直しても配分した数は残り、取込し直すと配分前の修正値に戻る
+    const reloaded = recordToReport(toDailyRecord(allocated, {}));
+    expect(reloaded.ramenTotals.花).toBe(15);
+    expect(reloaded.overrides).toEqual(allocated.overrides);
+    const [again] = carryOverrides([reloaded], [imported()]);
+    expect(again.ramenTotals.花).toBe(12);
+    expect(again.unassigned).toEqual([{name: '限定麺', count: 3}]);
+    expect(again.overrides).toEqual({
+      'ramenTotals.花': {imported: 10, value: 12},
+    });
+  });
+});
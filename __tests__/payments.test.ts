@@ -0,0 +1,227 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {applyColumnMapping, autoMapping} from '../src/import/columnMapping';
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {parsePayments} from '../src/report/engine';
+import {computeKpis} from '../src/report/kpi';
+import {overrideFigure} from '../src/report/overrides';
+import {
+  DEFAULT_PAYMENT_METHODS,
+  applyPaymentMethod,
+  mergePaymentMethods,
+  methodFromOtherPayment,
+  paymentMethodsError,
+  paymentRows,
+  upsertPaymentMethod,
+} from '../src/report/payments';
+import type {PaymentMethod} from '../src/report/payments';
+import {renderOutput} from '../src/report/render';
+import {DEFAULT_TEMPLATE} from '../src/report/reportTemplates';
+
+import {makeReport} from './helpers/report';
+
+const GIFT: PaymentMethod = {
+  key: 'gift',
+  label: '商品券',
+  aliases: ['商品ギフト券', 'ギフト券'],
+  order: 0,
+  cashless: false,
+};
+
+const dayRow = {
+  集計期間: '2025-09-19 〜 2025-09-19',
+  '売上高（税込み）': '64,500',
+  Square: '20,000',
+  現金: '40,000',
+  商品ギフト券: '1,500',
+  d払い: '3,000',
+};
+
+describe('parsePayments', () => {
+  it('leaves unknown columns in otherPayments with the default methods', () => {
+    const {payments, otherPayments} = parsePayments(dayRow);
+    expect(payments.card).toBe(20000);
+    expect(otherPayments).toEqual([
+      {label: '商品ギフト券', amount: 1500},
+      {label: 'd払い', amount: 3000},
+    ]);
+  });
+
+  it('collects a configured method by its aliases', () => {
+    const {payments, otherPayments} = parsePayments(dayRow, [
+      ...DEFAULT_PAYMENT_METHODS,
+      GIFT,
+    ]);
+    expect(payments.gift).toBe(1500);
+    expect(otherPayments).toEqual([{label: 'd払い', amount: 3000}]);
+  });
+});
+
+describe('paymentRows', () => {
+  it('follows the configured order and appends keys no longer defined', () => {
+    const methods = [...DEFAULT_PAYMENT_METHODS, GIFT];
+    const rows = paymentRows(
+      {total: 100, cash: 60, gift: 10, old: 30},
+      methods,
+    );
+    expect(rows.map(r => r.key)).toEqual([
+      'gift',
+      'card',
+      'tablecheck',
+      'paypay',
+      'cash',
+      'funfo',
+      'old',
+    ]);
+    expect(rows[rows.length - 1]).toEqual({
+      key: 'old',
+      label: 'old',
+      amount: 30,
+    });
+  });
+
+  it('renders a custom method in the daily text', () => {
+    const report = makeReport({total: 11500, payments: {gift: 1500}});
+    const text = renderOutput(report, DEFAULT_MENU_CATALOG, DEFAULT_TEMPLATE, [
+      ...DEFAULT_PAYMENT_METHODS,
+      GIFT,
+    ]);
+    expect(text).toContain('商品券');
+  });
+});
+
+describe('paymentMethodsError', () => {
+  it('accepts the defaults', () => {
+    expect(paymentMethodsError(DEFAULT_PAYMENT_METHODS)).toBeNull();
+  });
+
+  it('rejects duplicate keys, the total key and shared column names', () => {
+    expect(
+      paymentMethodsError([...DEFAULT_PAYMENT_METHODS, {...GIFT, key: 'cash'}]),
+    ).toMatch('cash');
+    expect(paymentMethodsError([{...GIFT, key: 'total'}])).toMatch('total');
+    expect(
+      paymentMethodsError([
+        ...DEFAULT_PAYMENT_METHODS,
+        {...GIFT, aliases: ['現金']},
+      ]),
+    ).toMatch('現金');
+  });
+});
+
+describe('column mapping', () => {
+  it('maps and renames a configured method column', () => {
+    const methods = [...DEFAULT_PAYMENT_METHODS, GIFT];
+    const mapping = autoMapping(
+      ['売上高（税込み）', 'ギフト券'],
+      'stats',
+      methods,
+    );
+    expect(mapping.ギフト券).toBe('payment:gift');
+    const [row] = applyColumnMapping(
+      [{ギフト券: '500'}],
+      {ギフト券: 'payment:gift'},
+      methods,
+    );
+    expect(row).toEqual({商品ギフト券: '500'});
+  });
+});
+
+describe('promoting an other payment', () => {
+  const imported = () =>
+    makeReport({
+      otherPayments: [
+        {label: 'd払い', amount: 3000},
+        {label: '商品ギフト券', amount: 1500},
+      ],
+    });
+
+  it('creates a method that picks the column up on the next import', () => {
+    const method = methodFromOtherPayment(DEFAULT_PAYMENT_METHODS, 'd払い');
+    expect(method.label).toBe('d払い');
+    expect(method.order).toBe(6);
+    const {payments, otherPayments} = parsePayments(dayRow, [
+      ...DEFAULT_PAYMENT_METHODS,
+      method,
+    ]);
+    expect(payments[method.key]).toBe(3000);
+    expect(otherPayments.map(p => p.label)).toEqual(['商品ギフト券']);
+  });
+
+  it('does not count a promoted payment as cashless unless asked', () => {
+    const gift = methodFromOtherPayment(
+      DEFAULT_PAYMENT_METHODS,
+      '商品ギフト券',
+    );
+    expect(gift.cashless).toBe(false);
+    const report = applyPaymentMethod(
+      makeReport({
+        total: 10000,
+        payments: {cash: 8500},
+        otherPayments: [{label: '商品ギフト券', amount: 1500}],
+      }),
+      gift,
+    );
+    const methods = [...DEFAULT_PAYMENT_METHODS, gift];
+    expect(computeKpis(report, methods).cashlessRatio).toBe(0);
+
+    const dPay = methodFromOtherPayment(DEFAULT_PAYMENT_METHODS, 'd払い', true);
+    expect(dPay.cashless).toBe(true);
+  });
+
+  it('moves the amount out of otherPayments in a loaded report', () => {
+    const method = methodFromOtherPayment(DEFAULT_PAYMENT_METHODS, 'd払い');
+    const next = applyPaymentMethod(imported(), method);
+    expect(next.meta.payments[method.key]).toBe(3000);
+    expect(next.meta.otherPayments).toEqual([
+      {label: '商品ギフト券', amount: 1500},
+    ]);
+  });
+
+  it('carries a manual edit over to the new method', () => {
+    const method = methodFromOtherPayment(DEFAULT_PAYMENT_METHODS, 'd払い');
+    const edited = overrideFigure(imported(), 'otherPayments.d払い', 3500);
+    const next = applyPaymentMethod(edited, method);
+    expect(next.meta.payments[method.key]).toBe(3500);
+    expect(next.overrides).toEqual({
+      [`payments.${method.key}`]: {imported: 3000, value: 3500},
+    });
+  });
+
+  it('gives the same key to the same payment promoted in two stores', () => {
+    const a = methodFromOtherPayment(DEFAULT_PAYMENT_METHODS, 'd払い');
+    const b = methodFromOtherPayment(
+      [...DEFAULT_PAYMENT_METHODS, GIFT],
+      ' D払い ',
+    );
+    expect(b.key).toBe(a.key);
+    const merged = mergePaymentMethods([
+      [...DEFAULT_PAYMENT_METHODS, a],
+      [...DEFAULT_PAYMENT_METHODS, b],
+    ]);
+    expect(merged.filter(m => m.label === 'd払い')).toHaveLength(1);
+  });
+
+  it('adds the column to a registered method with the same name', () => {
+    const methods = [...DEFAULT_PAYMENT_METHODS, GIFT];
+    const method = methodFromOtherPayment(methods, 'ギフト券');
+    expect(method).toBe(GIFT);
+    const renamed = methodFromOtherPayment(methods, '商品券');
+    expect(renamed.key).toBe('gift');
+    expect(renamed.aliases).toEqual(['商品ギフト券', 'ギフト券', '商品券']);
+    const next = upsertPaymentMethod(methods, renamed);
+    expect(next).toHaveLength(methods.length);
+    expect(next.find(m => m.key === 'gift')).toBe(renamed);
+  });
+
+  it('returns the same report when nothing matches', () => {
+    const report = imported();
+    expect(applyPaymentMethod(report, GIFT)).not.toBe(report);
+    const none = {...GIFT, aliases: ['金券']};
+    expect(applyPaymentMethod(report, none)).toBe(report);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {addMonthsISO, periodRangeOf} from '../src/report/dates';
+import type {PeriodKind} from '../src/report/dates';
+import {DEFAULT_PAYMENT_METHODS} from '../src/report/payments';
+import {
+  aggregatePeriod,
+  bestAndWorstDays,
+  renderPeriodOutput,
+} from '../src/report/period';
+import {periodToCsv} from '../src/report/periodExport';
+
+import {makeRecord} from './helpers/report';
+
+// 3日分（9/16 は期間外）。日付順に並んでいなくてよい
+const records = [
+  makeRecord({
+    dateISO: '2025-09-19',
+    total: 31000,
+    payments: {cash: 21000, card: 10000},
+    groups: 10,
+    people: 16,
+    ramen: {花: 10},
+    set: {花: 4},
+  }),
+  makeRecord({
+    dateISO: '2025-09-17',
+    total: 10000,
+    groups: 4,
+    people: 6,
+    ramen: {花: 3, 月: 2},
+    sides: {よくばりカレー: 1},
+  }),
+  makeRecord({
+    dateISO: '2025-09-18',
+    total: 20000,
+    otherPayments: [{label: '商品券', amount: 1000}],
+    groups: 6,
+    people: 10,
+    course: {月花: 3},
+    coursePeople: [{label: 'ディナー', price: 8800, count: 3}],
+  }),
+  makeRecord({dateISO: '2025-09-16', total: 99999, people: 99}),
+];
+
+describe('addMonthsISO', () => {
+  it.each([
+    ['2025-09-19', 1, '2025-10-19'],
+    ['2025-12-15', 1, '2026-01-15'],
+    ['2025-01-15', -1, '2024-12-15'],
+    // 月末は移動先の月末にそろえる
+    ['2025-01-31', 1, '2025-02-28'],
+    ['2024-01-31', 1, '2024-02-29'],
+    ['2025-03-31', -1, '2025-02-28'],
+    ['2025-05-31', 1, '2025-06-30'],
+    ['2024-02-29', -12, '2023-02-28'],
+  ])('%s + %i → %s', (iso, months, expected) => {
+    expect(addMonthsISO(iso, months)).toBe(expected);
+  });
+});
+
+describe('periodRangeOf', () => {
+  it.each<[PeriodKind, string, string, string]>([
+    ['day', '2025-09-19', '2025-09-19', '2025-09-19'],
+    // 週は月曜始まり
+    ['week', '2025-09-19', '2025-09-15', '2025-09-21'],
+    ['week', '2025-09-15', '2025-09-15', '2025-09-21'],
+    ['week', '2025-09-21', '2025-09-15', '2025-09-21'],
+    ['week', '2025-10-01', '2025-09-29', '2025-10-05'],
+    ['week', '2025-12-31', '2025-12-29', '2026-01-04'],
+    ['month', '2025-09-19', '2025-09-01', '2025-09-30'],
+    ['month', '2025-02-10', '2025-02-01', '2025-02-28'],
+    ['month', '2024-02-10', '2024-02-01', '2024-02-29'],
+    ['month', '2025-12-31', '2025-12-01', '2025-12-31'],
+  ])('%s of %s → %s〜%s', (kind, anchor, fromISO, toISO) => {
+    expect(periodRangeOf(kind, anchor)).toEqual({fromISO, toISO});
+  });
+});
+
+describe('aggregatePeriod', () => {
+  const period = aggregatePeriod(records, '2025-09-17', '2025-09-20');
+
+  it('lists the saved days in the range in date order', () => {
+    expect(period.calendarDays).toBe(4);
+    expect(period.days.map(d => [d.dateISO, d.total, d.bowls])).toEqual([
+      ['2025-09-17', 10000, 5],
+      ['2025-09-18', 20000, 3],
+      ['2025-09-19', 31000, 14],
+    ]);
+    expect(period.days[1].otherTotal).toBe(1000);
+  });
+
+  it.each([
+    ['payments.total', period.payments.total, 61000],
+    ['payments.cash', period.payments.cash, 51000],
+    ['payments.card', period.payments.card, 10000],
+    ['groups', period.groups, 20],
+    ['people', period.people, 32],
+    ['ramen.花', period.ramen.花, {normal: 13, set: 4, course: 0}],
+    ['ramen.月花', period.ramen.月花, {normal: 0, set: 0, course: 3}],
+    ['sides.よくばりカレー', period.sides.よくばりカレー, 1],
+    ['otherPayments', period.otherPayments, [{label: '商品券', amount: 1000}]],
+    [
+      'coursePeople',
+      period.coursePeople,
+      [{label: 'ディナー', price: 8800, count: 3}],
+    ],
+  ])('%s', (_name, actual, expected) => {
+    expect(actual).toEqual(expected);
+  });
+
+  it('is empty when no day is saved in the range', () => {
+    const empty = aggregatePeriod(records, '2025-10-01', '2025-10-31');
+    expect(empty.days).toEqual([]);
+    expect(empty.payments.total).toBe(0);
+    expect(bestAndWorstDays(empty)).toEqual({
+      best: undefined,
+      worst: undefined,
+    });
+  });
+});
+
+describe('period output', () => {
+  const period = aggregatePeriod(records, '2025-09-17', '2025-09-20');
+
+  it('picks the best and worst day by sales', () => {
+    const {best, worst} = bestAndWorstDays(period);
+    expect(best?.dateISO).toBe('2025-09-19');
+    expect(worst?.dateISO).toBe('2025-09-17');
+  });
+
+  it.each([
+    // 1日平均は日報のある日数で割って四捨五入
+    ['1日平均（3日）\n売上　¥20,333\n7組　11人　7杯'],
+    ['最高　9月19日（金曜日）　¥31,000\n最低　9月17日（水曜日）　¥10,000'],
+    ['（4日間・日報3日分）'],
+    ['客単価　¥1,906'],
+    ['・花　17杯(通常13杯, +セット4杯)'],
+  ])('contains %s', line => {
+    expect(renderPeriodOutput(period, DEFAULT_MENU_CATALOG)).toContain(line);
+  });
+
+  it('leaves out best/worst for a single day', () => {
+    const single = aggregatePeriod(records, '2025-09-19', '2025-09-19');
+    expect(renderPeriodOutput(single, DEFAULT_MENU_CATALOG)).not.toContain(
+      '最高',
+    );
+  });
+});
+
+describe('periodToCsv', () => {
+  const period = aggregatePeriod(records, '2025-09-17', '2025-09-20');
+  const lines = (csv: string) => csv.replace(/^\uFEFF/, '').split('\n');
+
+  it('starts with a BOM and keeps the column order', () => {
+    const csv = periodToCsv(period);
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    const [header, first, , , total] = lines(csv);
+    expect(header.split(',')).toEqual([
+      '日付',
+      '曜日',
+      '売上',
+      ...DEFAULT_PAYMENT_METHODS.map(m => m.label),
+      'その他決済',
+      '組数',
+      '人数',
+      '客単価',
+      'ラーメン杯数',
+    ]);
+    expect(first).toBe('2025-09-17,水,10000,0,0,0,10000,0,0,4,6,1667,5');
+    expect(total).toBe('合計,,61000,10000,0,0,51000,0,1000,20,32,1906,22');
+  });
+
+  it('quotes labels with commas and quotes', () => {
+    const methods = DEFAULT_PAYMENT_METHODS.map(m =>
+      m.key === 'card' ? {...m, label: 'カード,"JCB"'} : m,
+    );
+    const [header] = lines(periodToCsv(period, methods));
+    expect(header).toContain(',"カード,""JCB""",');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {buildDailyReport} from '../src/report/engine';
+import {hasReconcileWarnings, reconcile} from '../src/report/reconcile';
+
+const productRows = [
+  {商品名: '豆乳ラーメン「花」', 数量: '20'},
+  {商品名: 'ドリンク', 数量: '9'},
+];
+
+const build = (stats: Record<string, string>) =>
+  buildDailyReport({productRows, statsRows: [stats]}, DEFAULT_MENU_CATALOG);
+
+describe('reconcile', () => {
+  it('passes when every figure agrees', () => {
+    const report = build({
+      '売上高（税込み）': '30,000',
+      Square: '10,000',
+      現金: '20,000',
+      商品販売数: '29',
+      会計数: '10',
+      客数: '18',
+    });
+    const checks = reconcile(report);
+    expect(checks.map(c => [c.id, c.ok])).toEqual([
+      ['payments', true],
+      ['items', true],
+      ['groups', true],
+    ]);
+    expect(hasReconcileWarnings(checks)).toBe(false);
+  });
+
+  it('flags mismatches', () => {
+    const report = build({
+      '売上高（税込み）': '30,000',
+      Square: '10,000',
+      現金: '19,990',
+      商品販売数: '31',
+      会計数: '20',
+      客数: '18',
+    });
+    const checks = reconcile(report);
+    expect(checks.map(c => [c.id, c.ok, c.diff])).toEqual([
+      ['payments', false, -10],
+      ['items', false, -2],
+      ['groups', false, 2],
+    ]);
+  });
+
+  it('allows a configured tolerance on payments', () => {
+    const report = build({'売上高（税込み）': '30,000', 現金: '29,990'});
+    expect(reconcile(report, {paymentTolerance: 10})[0].ok).toBe(true);
+    expect(reconcile(report, {paymentTolerance: 9})[0].ok).toBe(false);
+  });
+
+  it('counts non-taxable sales in the tax check', () => {
+    const stats = {
+      '売上高（税込み）': '11,500',
+      '売上高（税抜き）': '10,000',
+      '内消費税（10%標準）': '1,000',
+      '売上高（非課税）': '500',
+      現金: '11,500',
+    };
+    const check = reconcile(build(stats)).find(c => c.id === 'tax');
+    expect(check).toMatchObject({expected: 11500, actual: 11500, ok: true});
+
+    const missing = reconcile(build({...stats, '売上高（非課税）': '0'})).find(
+      c => c.id === 'tax',
+    );
+    expect(missing).toMatchObject({diff: -500, ok: false});
+  });
+
+  it('skips the item check without 商品販売数', () => {
+    const report = build({'売上高（税込み）': '1,000', 現金: '1,000'});
+    expect(reconcile(report).map(c => c.id)).toEqual(['payments']);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {
+  STANDARD_FORMAT,
+  detectSourceFormat,
+  encodingMismatch,
+  formatMapping,
+} from '../src/import/sourceFormats';
+
+describe('detectSourceFormat', () => {
+  it('recognizes a POS export by its headers', () => {
+    const airregi = detectSourceFormat(
+      ['日付', '売上合計', '現金', 'クレジットカード', '会計数', '客数'],
+      'stats',
+    );
+    expect(airregi.id).toBe('airregi');
+    expect(airregi.layout).toBe('daily');
+    expect(
+      detectSourceFormat(['取引ID', '日付', '合計回収額', 'カード'], 'stats')
+        .layout,
+    ).toBe('transaction');
+  });
+
+  it('falls back to the standard headers', () => {
+    expect(
+      detectSourceFormat(['集計期間', '売上高（税込み）', '現金'], 'stats'),
+    ).toBe(STANDARD_FORMAT);
+  });
+
+  it('maps only the columns the file has', () => {
+    const format = detectSourceFormat(
+      ['日付', '売上合計', '現金', '会計数', '客数'],
+      'stats',
+    );
+    expect(
+      formatMapping(
+        format,
+        ['日付', '売上合計', '現金', '会計数', '客数'],
+        'stats',
+      ),
+    ).toEqual({
+      日付: 'date',
+      売上合計: 'payment:total',
+      現金: 'payment:cash',
+      会計数: 'groups',
+      客数: 'people',
+    });
+  });
+
+  it('flags an unexpected encoding', () => {
+    const format = detectSourceFormat(['売上合計', '会計数', '客数'], 'stats');
+    expect(encodingMismatch(format, 'shift_jis')).toBe(false);
+    expect(encodingMismatch(format, 'utf-8')).toBe(true);
+    expect(encodingMismatch(STANDARD_FORMAT, 'utf-8')).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {buildDailyReports, splitByDay} from '../src/report/split';
+
+const statsRows = [
+  {
+    日付: '2025/09/20',
+    '売上高（税込み）': '80,000',
+    現金: '80,000',
+    客数: '50',
+  },
+  {
+    日付: '2025/09/19',
+    '売上高（税込み）': '60,000',
+    現金: '60,000',
+    客数: '40',
+  },
+];
+
+describe('splitByDay', () => {
+  it('keeps a single-day import as is', () => {
+    const input = {productRows: [], statsRows: [statsRows[0]]};
+    expect(splitByDay(input)).toEqual([input]);
+  });
+
+  it('builds one report per day in date order', () => {
+    const productRows = [
+      {日付: '2025/09/19', 商品名: '豆乳ラーメン「花」', 数量: '10'},
+      {日付: '2025/09/20', 商品名: '豆乳ラーメン「花」', 数量: '12'},
+      {日付: '2025/09/20', 商品名: 'ラーメン「月」', 数量: '3'},
+    ];
+    const reports = buildDailyReports(
+      {productRows, statsRows},
+      DEFAULT_MENU_CATALOG,
+    );
+    expect(reports.map(r => r.meta.dateISO)).toEqual([
+      '2025-09-19',
+      '2025-09-20',
+    ]);
+    expect(reports.map(r => r.meta.payments.total)).toEqual([60000, 80000]);
+    expect(reports.map(r => r.ramenTotals.花)).toEqual([10, 12]);
+    expect(reports[1].ramenTotals.月).toBe(3);
+    expect(reports[0].meta.otherPayments).toEqual([]);
+  });
+
+  it('refuses products that cannot be split by date', () => {
+    const productRows = [{商品名: '豆乳ラーメン「花」', 数量: '10'}];
+    expect(() => splitByDay({productRows, statsRows})).toThrow(/日付列/);
+  });
+
+  it('refuses undated stats rows in a multi-day file', () => {
+    const undated = {'売上高（税込み）': '5,000', 現金: '5,000'};
+    expect(() =>
+      splitByDay({productRows: [], statsRows: [...statsRows, undated]}),
+    ).toThrow(/日付なしの行が 1 行/);
+  });
+
+  it('refuses two stats rows for the same day', () => {
+    expect(() =>
+      buildDailyReports(
+        {productRows: [], statsRows: [...statsRows, statsRows[0]]},
+        DEFAULT_MENU_CATALOG,
+      ),
+    ).toThrow(/同じ日の行が 2 行/);
+  });
+});
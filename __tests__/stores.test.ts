@@ -0,0 +1,116 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import type {MenuCatalog} from '../src/report/catalog';
+import {combinePeriod, renderCombinedOutput} from '../src/report/combined';
+import {periodRangeOf} from '../src/report/dates';
+import {periodDailyRows, periodToWorkbook} from '../src/report/periodExport';
+import {activeStoreOf, mergeCatalogs} from '../src/report/stores';
+
+import {makeRecord} from './helpers/report';
+
+const MAIN = {id: 'default', name: '本店'};
+const STATION = {id: 'store_b', name: '駅前店'};
+
+const record = (
+  dateISO: string,
+  total: number,
+  people: number,
+  ramen: Record<string, number>,
+) => makeRecord({dateISO, total, groups: people, people, ramen});
+
+const entries = [
+  {
+    store: MAIN,
+    records: [
+      record('2025-09-19', 10000, 8, {花: 5}),
+      record('2025-09-20', 12000, 9, {花: 6}),
+    ],
+  },
+  {store: STATION, records: [record('2025-09-19', 6000, 4, {塩: 3})]},
+];
+
+describe('stores', () => {
+  it('picks the active store and falls back to the first one', () => {
+    expect(activeStoreOf({stores: [MAIN, STATION], activeId: 'store_b'})).toBe(
+      STATION,
+    );
+    expect(activeStoreOf({stores: [MAIN, STATION], activeId: 'gone'})).toBe(
+      MAIN,
+    );
+  });
+
+  it('merges catalogs keeping the first definition of each item', () => {
+    const station: MenuCatalog = {
+      ...DEFAULT_MENU_CATALOG,
+      items: [
+        {
+          key: '塩',
+          label: '塩ラーメン',
+          order: 1,
+          patterns: ['塩'],
+          setAllowed: false,
+          category: 'ramen',
+        },
+        {...DEFAULT_MENU_CATALOG.items[0], label: '別名'},
+      ],
+    };
+    const merged = mergeCatalogs([DEFAULT_MENU_CATALOG, station]);
+    expect(merged.items).toHaveLength(DEFAULT_MENU_CATALOG.items.length + 1);
+    expect(merged.items[0].label).toBe(DEFAULT_MENU_CATALOG.items[0].label);
+    expect(merged.items[merged.items.length - 1].key).toBe('塩');
+  });
+});
+
+describe('combinePeriod', () => {
+  it('sums all stores and merges the same day into one row', () => {
+    const combined = combinePeriod(entries, '2025-09-19', '2025-09-20');
+    expect(combined.payments.total).toBe(28000);
+    expect(combined.people).toBe(21);
+    expect(combined.ramen.花.normal).toBe(11);
+    expect(combined.ramen.塩.normal).toBe(3);
+    expect(combined.days.map(d => [d.dateISO, d.total, d.bowls])).toEqual([
+      ['2025-09-19', 16000, 8],
+      ['2025-09-20', 12000, 6],
+    ]);
+    expect(
+      combined.stores.map(s => [s.store.name, s.period.payments.total]),
+    ).toEqual([
+      ['本店', 22000],
+      ['駅前店', 6000],
+    ]);
+  });
+
+  it('combines a single day', () => {
+    const {fromISO, toISO} = periodRangeOf('day', '2025-09-19');
+    const combined = combinePeriod(entries, fromISO, toISO);
+    expect(combined.payments.total).toBe(16000);
+    expect(periodDailyRows(combined)).toHaveLength(3);
+  });
+
+  it('renders the per-store breakdown under the combined report', () => {
+    const catalog = mergeCatalogs([DEFAULT_MENU_CATALOG]);
+    const text = renderCombinedOutput(
+      combinePeriod(entries, '2025-09-19', '2025-09-20'),
+      catalog,
+    );
+    expect(text.split('\n')[0]).toBe('全店舗合算（2店舗）');
+    expect(text).toContain('・塩　3杯');
+    expect(text).toContain(
+      '店舗別\n・本店　¥22,000　17組　17人　11杯（日報2日分）',
+    );
+    expect(text).toContain('・駅前店　¥6,000　4組　4人　3杯（日報1日分）');
+  });
+
+  it('adds a per-store sheet to the workbook', () => {
+    const wb = periodToWorkbook(
+      combinePeriod(entries, '2025-09-19', '2025-09-20'),
+      DEFAULT_MENU_CATALOG,
+    );
+    expect(wb.SheetNames).toContain('店舗別');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {dailyCsvColumns, toDailyExport} from '../src/report/dailyExport';
+import {buildDailyReport} from '../src/report/engine';
+import {toDailyRecord} from '../src/report/history';
+import {overrideFigure} from '../src/report/overrides';
+import {aggregatePeriod} from '../src/report/period';
+import {reconcile} from '../src/report/reconcile';
+import {renderOutput} from '../src/report/render';
+import {DEFAULT_TEMPLATE} from '../src/report/reportTemplates';
+import {parseTax} from '../src/report/tax';
+
+const squareRow = {
+  集計期間: '2025-09-19 〜 2025-09-19',
+  '売上高（税込み）': '33,000',
+  '売上高（税抜き）': '29,538',
+  '内消費税（10%標準）': '2,740',
+  '内消費税（8%軽減）': '222',
+  '売上高（8%軽減）': '3,000',
+  '売上高（非課税）': '500',
+  割引合計: '-1,200',
+  会計割引: '-200',
+  現金: '33,000',
+};
+
+const build = (stats: Record<string, string>) =>
+  buildDailyReport({productRows: [], statsRows: [stats]}, DEFAULT_MENU_CATALOG);
+
+describe('parseTax', () => {
+  it('reads each tax and discount column, discounts as positive amounts', () => {
+    expect(parseTax(squareRow)).toEqual({
+      preTax: 29538,
+      standardSales: 0,
+      reducedSales: 3000,
+      tax10: 2740,
+      tax8: 222,
+      nonTaxable: 500,
+      discount: 1200,
+      receiptDiscount: 200,
+    });
+  });
+
+  it('is undefined when the file has no tax columns', () => {
+    expect(
+      parseTax({'売上高（税込み）': '1,000', 現金: '1,000'}),
+    ).toBeUndefined();
+  });
+
+  it('keeps the tax columns out of otherPayments', () => {
+    const report = build(squareRow);
+    expect(report.meta.tax?.tax10).toBe(2740);
+    expect(report.meta.otherPayments).toEqual([]);
+  });
+});
+
+describe('tax check', () => {
+  it('compares pre-tax sales plus tax with the tax-included total', () => {
+    const check = reconcile(build(squareRow)).find(c => c.id === 'tax');
+    expect(check).toMatchObject({expected: 33000, actual: 33000, ok: true});
+
+    const off = reconcile(
+      build({...squareRow, '売上高（税抜き）': '29,500'}),
+    ).find(c => c.id === 'tax');
+    expect(off).toMatchObject({diff: -38, ok: false});
+    const tolerated = reconcile(
+      build({...squareRow, '売上高（税抜き）': '29,500'}),
+      {paymentTolerance: 50},
+    ).find(c => c.id === 'tax');
+    expect(tolerated?.ok).toBe(true);
+  });
+
+  it('is skipped when only pre-tax sales are exported', () => {
+    const report = build({
+      '売上高（税込み）': '1,100',
+      '売上高（税抜き）': '1,000',
+      現金: '1,100',
+    });
+    expect(reconcile(report).map(c => c.id)).not.toContain('tax');
+  });
+});
+
+describe('tax section output', () => {
+  it('shows only the selected pieces in the report text', () => {
+    const report = build(squareRow);
+    const plain = renderOutput(report, DEFAULT_MENU_CATALOG);
+    expect(plain).not.toContain('税抜売上');
+    const text = renderOutput(
+      report,
+      DEFAULT_MENU_CATALOG,
+      DEFAULT_TEMPLATE,
+      undefined,
+      {shown: ['preTax', 'tax10', 'standardSales']},
+    );
+    expect(text).toContain('税抜売上　¥29,538\n内消費税（10%）　¥2,740');
+    // 0 円の項目は載せない
+    expect(text).not.toContain('10%対象売上');
+  });
+
+  it('is included in the exports and period totals', () => {
+    const report = build(squareRow);
+    expect(toDailyExport(report, DEFAULT_MENU_CATALOG).tax?.discount).toBe(
+      1200,
+    );
+    const column = dailyCsvColumns(DEFAULT_MENU_CATALOG).find(
+      c => c.header === '内消費税（8%）',
+    );
+    expect(column?.value(report)).toBe(222);
+
+    const next = {
+      ...report,
+      meta: {...report.meta, dateISO: '2025-09-20'},
+    };
+    const period = aggregatePeriod(
+      [toDailyRecord(report, {}), toDailyRecord(next, {})],
+      '2025-09-19',
+      '2025-09-20',
+    );
+    expect(period.tax?.preTax).toBe(59076);
+  });
+
+  it('can be corrected by hand like any other figure', () => {
+    const edited = overrideFigure(build(squareRow), 'tax.nonTaxable', 800);
+    expect(edited.meta.tax?.nonTaxable).toBe(800);
+    expect(edited.overrides).toEqual({
+      'tax.nonTaxable': {imported: 500, value: 800},
+    });
+  });
+});
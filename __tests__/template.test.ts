@@ -0,0 +1,106 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {renderOutput} from '../src/report/render';
+import {BUILTIN_TEMPLATES} from '../src/report/reportTemplates';
+import {renderTemplate, templateError} from '../src/report/template';
+
+import {makeReport} from './helpers/report';
+
+describe('renderTemplate', () => {
+  it('fills placeholders, filters and sections', () => {
+    const source = [
+      '売上 {{total|yen}}',
+      '{{#items}}',
+      '・{{name}} {{count}}',
+      '{{/items}}',
+      '{{^people}}客数なし{{/people}}',
+      '{{#memo}}メモ：{{memo}}{{/memo}}',
+    ].join('\n');
+    expect(
+      renderTemplate(source, {
+        total: 12000,
+        items: [
+          {name: '花', count: 3},
+          {name: '月', count: 1},
+        ],
+        people: 0,
+        memo: '',
+      }),
+    ).toBe('売上 ¥12,000\n・花 3\n・月 1\n客数なし');
+  });
+
+  it('collapses blank lines left by empty sections', () => {
+    expect(renderTemplate('A\n\n{{#x}}\nX\n{{/x}}\n\nB\n', {x: 0})).toBe(
+      'A\n\nB',
+    );
+  });
+
+  it('reports unbalanced tags and unknown filters', () => {
+    expect(templateError('{{#a}}x')).toMatch(/閉じていません/);
+    expect(templateError('{{/a}}')).toMatch(/開始タグ/);
+    expect(templateError('{{a|money}}')).toMatch(/money/);
+    expect(templateError('{{#a}}{{b|yen}}{{/a}}')).toBeNull();
+  });
+});
+
+describe('report templates', () => {
+  const report = makeReport({
+    total: 30000,
+    groups: 8,
+    people: 15,
+    ramen: {花: 10, 月: 3},
+    set: {花: 2},
+    sides: {よくばりカレー: 2},
+    coursePeople: [{label: 'ディナー', price: 8800, count: 4}],
+  });
+
+  it('keeps the standard output as the default', () => {
+    expect(
+      renderOutput(report, DEFAULT_MENU_CATALOG).split('\n').slice(1),
+    ).toEqual([
+      '',
+      '売上　¥30,000',
+      '現金　¥30,000',
+      '',
+      '8組',
+      '15人',
+      '',
+      'ラーメン  15杯',
+      '・月（ランチ）　3杯',
+      '・花　12杯(+セット2杯)',
+      '',
+      'よくばりカレー　2杯',
+      '',
+      'ディナー8800 4名',
+    ]);
+  });
+
+  it('renders the built-in alternatives', () => {
+    const [, short, hq] = BUILTIN_TEMPLATES;
+    expect(renderOutput(report, DEFAULT_MENU_CATALOG, short)).toContain(
+      '売上 ¥30,000／15人\nラーメン 15杯／月（ランチ）3／花12',
+    );
+    expect(renderOutput(report, DEFAULT_MENU_CATALOG, hq)).toContain(
+      '客数　15人（客単価 ¥2,000）',
+    );
+  });
+
+  it('keeps bowls and sides that are no longer in the catalog', () => {
+    const catalog = {
+      ...DEFAULT_MENU_CATALOG,
+      items: DEFAULT_MENU_CATALOG.items.filter(
+        item => item.key !== '花' && item.key !== 'よくばりカレー',
+      ),
+    };
+    const text = renderOutput(report, catalog);
+    expect(text).toContain('ラーメン  15杯');
+    // カタログにない銘柄はキーを名前にして末尾に出す
+    expect(text).toContain('・月（ランチ）　3杯\n・花　12杯(+セット2杯)');
+    expect(text).toContain('よくばりカレー　2杯');
+  });
+});
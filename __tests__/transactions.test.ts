@@ -0,0 +1,184 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {applyColumnMapping} from '../src/import/columnMapping';
+import {buildReportsFromFiles, prepareImport} from '../src/import/pipeline';
+import {detectSourceFormat, formatMapping} from '../src/import/sourceFormats';
+import {
+  transactionsToDailyProducts,
+  transactionsToDailyStats,
+} from '../src/import/transactions';
+import {DEFAULT_MENU_CATALOG} from '../src/report/catalog';
+import {buildDailyReports} from '../src/report/split';
+
+const receipts = [
+  {
+    日付: '2025/09/19 11:30',
+    取引ID: 'A1',
+    合計回収額: '2,400',
+    カード: '2,400',
+    現金: '0',
+    人数: '2',
+  },
+  {
+    日付: '2025/09/19 12:10',
+    取引ID: 'A2',
+    合計回収額: '1,200',
+    カード: '0',
+    現金: '1,200',
+    人数: '1',
+  },
+  // 分割払い：同じ会計の2行目
+  {
+    日付: '2025/09/19 12:10',
+    取引ID: 'A2',
+    合計回収額: '300',
+    カード: '300',
+    現金: '0',
+    人数: '1',
+  },
+  {
+    日付: '2025/09/20 18:00',
+    取引ID: 'B1',
+    合計回収額: '3,600',
+    カード: '0',
+    現金: '3,600',
+    人数: '3',
+  },
+];
+
+const items = [
+  {
+    日付: '2025/09/19 11:30',
+    取引ID: 'A1',
+    アイテム: '豆乳ラーメン「花」',
+    数量: '2',
+  },
+  {
+    日付: '2025/09/19 12:10',
+    取引ID: 'A2',
+    アイテム: '豆乳ラーメン「花」',
+    数量: '1',
+  },
+  {
+    日付: '2025/09/20 18:00',
+    取引ID: 'B1',
+    アイテム: 'ラーメン「月」',
+    数量: '3',
+  },
+];
+
+const mapped = (rows: Record<string, any>[], kind: 'product' | 'stats') => {
+  const headers = Object.keys(rows[0]);
+  const format = detectSourceFormat(headers, kind);
+  return applyColumnMapping(rows, {
+    ...formatMapping(format, headers, kind),
+    ...(kind === 'stats' ? {人数: 'people' as const} : {}),
+  });
+};
+
+describe('transactionsToDailyStats', () => {
+  it('sums payments and counts receipts per day', () => {
+    expect(transactionsToDailyStats(mapped(receipts, 'stats'))).toEqual([
+      {
+        集計期間: '2025-09-19',
+        '売上高（税込み）': 3900,
+        Square: 2700,
+        現金: 1200,
+        会計数: 2,
+        客数: 3,
+      },
+      {
+        集計期間: '2025-09-20',
+        '売上高（税込み）': 3600,
+        Square: 0,
+        現金: 3600,
+        会計数: 1,
+        客数: 3,
+      },
+    ]);
+  });
+
+  it('feeds the daily rows into the usual report pipeline', () => {
+    const reports = buildDailyReports(
+      {
+        productRows: mapped(items, 'product'),
+        statsRows: transactionsToDailyStats(mapped(receipts, 'stats')),
+      },
+      DEFAULT_MENU_CATALOG,
+    );
+    expect(reports.map(r => r.meta.dateISO)).toEqual([
+      '2025-09-19',
+      '2025-09-20',
+    ]);
+    expect(reports[0].meta.payments).toMatchObject({
+      total: 3900,
+      card: 2700,
+      cash: 1200,
+    });
+    expect(reports[0].meta.groups).toBe(2);
+    expect(reports[0].ramenTotals.花).toBe(3);
+    expect(reports[1].ramenTotals.月).toBe(3);
+  });
+
+  it('counts rows as receipts when there is no receipt id', () => {
+    const rows = [
+      {日付: '2025-09-19', 現金: '1000'},
+      {日付: '2025-09-19', 現金: '500'},
+    ];
+    expect(transactionsToDailyStats(rows)).toEqual([
+      {集計期間: '2025-09-19', 現金: 1500, 会計数: 2},
+    ]);
+  });
+});
+
+describe('transactionsToDailyProducts', () => {
+  const courseItems = [
+    {
+      日付: '2025/09/19 11:30',
+      取引ID: 'A1',
+      アイテム: 'ディナーコース 8800',
+      数量: '2',
+    },
+    {
+      日付: '2025/09/19 12:10',
+      取引ID: 'A2',
+      アイテム: 'ディナーコース 8800',
+      数量: '3',
+    },
+    {
+      日付: '2025/09/19 12:10',
+      取引ID: 'A2',
+      アイテム: '豆乳ラーメン「花」',
+      数量: '1',
+    },
+  ];
+
+  it('sums the quantity of each product per day', () => {
+    expect(transactionsToDailyProducts(mapped(courseItems, 'product'))).toEqual(
+      [
+        {集計期間: '2025-09-19', 商品名: 'ディナーコース 8800', 商品販売数: 5},
+        {集計期間: '2025-09-19', 商品名: '豆乳ラーメン「花」', 商品販売数: 1},
+      ],
+    );
+  });
+
+  it('counts a course sold on two receipts as one entry', () => {
+    const [report] = buildReportsFromFiles(
+      prepareImport('product', {name: 'items.csv', rows: courseItems}),
+      prepareImport('stats', {
+        name: 'receipts.csv',
+        rows: receipts.slice(0, 3),
+      }),
+      DEFAULT_MENU_CATALOG,
+    );
+    expect(report.coursePeople).toEqual([
+      {label: 'ディナー', price: 8800, count: 5},
+    ]);
+    expect(report.ramenTotals.花).toBe(1);
+    expect(report.meta.productQty).toBe(6);
+  });
+});
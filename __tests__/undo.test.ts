@@ -0,0 +1,84 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {assignUnassigned} from '../src/report/allocate';
+import {
+  makeUndoStack,
+  recordChange,
+  redoChange,
+  undoChange,
+} from '../src/report/undo';
+
+import {makeReport} from './helpers/report';
+
+describe('undo stack', () => {
+  it('restores the previous value of the changed day and redoes it', () => {
+    let stack = makeUndoStack();
+    stack = recordChange(stack, 1, 'b0', 'b1');
+    const days = ['a0', 'b1'];
+
+    const undone = undoChange(stack, days)!;
+    expect(undone.values).toEqual(['a0', 'b0']);
+    expect(undone.index).toBe(1);
+    expect(undoChange(undone.stack, undone.values)).toBeNull();
+
+    const redone = redoChange(undone.stack, undone.values)!;
+    expect(redone.values).toEqual(['a0', 'b1']);
+    expect(redoChange(redone.stack, redone.values)).toBeNull();
+  });
+
+  it('drops the redo history on a new change', () => {
+    let stack = recordChange(makeUndoStack(), 0, 1, 2);
+    stack = undoChange(stack, [2])!.stack;
+    expect(stack.future).toHaveLength(1);
+    expect(recordChange(stack, 0, 1, 2).future).toEqual([]);
+  });
+
+  it('records only the fields the change touched', () => {
+    const stack = recordChange(
+      makeUndoStack(),
+      0,
+      {a: 1, b: {c: [1], d: 2}},
+      {a: 1, b: {c: [1, 2], d: 2}},
+    );
+    expect(stack.past[0].changes).toEqual([
+      {path: ['b', 'c'], before: [1], after: [1, 2]},
+    ]);
+    expect(recordChange(makeUndoStack(), 0, {a: 1}, {a: 1}).past).toEqual([]);
+  });
+
+  it('keeps a cash closing saved after the undone allocation', () => {
+    const report = makeReport({unassigned: [{name: '限定まぜ麺', count: 2}]});
+    const allocated = assignUnassigned(report, 0, '花', 'set');
+    const stack = recordChange(makeUndoStack(), 0, report, allocated);
+
+    // レジ締めの保存・日付の変更は undo に積まない
+    const closing = {
+      counts: {1000: 3},
+      openingFloat: 0,
+      appendToOutput: false,
+      closedAt: '2025-09-19T14:00:00.000Z',
+    };
+    const later = {
+      ...allocated,
+      meta: {...allocated.meta, dateISO: '2025-09-18'},
+      cashClosing: closing,
+    };
+
+    const [undone] = undoChange(stack, [later])!.values;
+    expect(undone.unassigned).toEqual(report.unassigned);
+    expect(undone.ramenSetTotals).toEqual(report.ramenSetTotals);
+    expect(undone.allocations).toBeUndefined();
+    expect(undone.cashClosing).toEqual(closing);
+    expect(undone.meta.dateISO).toBe('2025-09-18');
+
+    const [redone] = redoChange(undoChange(stack, [later])!.stack, [
+      undone,
+    ])!.values;
+    expect(redone.ramenSetTotals['花']).toBe(2);
+    expect(redone.cashClosing).toEqual(closing);
+  });
+});
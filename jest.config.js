@@ -1,3 +1,5 @@
 module.exports = {
   preset: 'react-native',
+  // 共通のテスト用ヘルパー（テストファイルではない）
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/helpers/'],
 };
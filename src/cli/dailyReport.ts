@@ -0,0 +1,263 @@
+﻿// src/cli/dailyReport.ts
+// 日報 CLI の本体（引数の解釈と集計）。ファイルの読み書きは呼び出し側から受け取る
+import { fieldLabel } from '../import/columnMapping';
+import type { ColumnProfile, FileKind } from '../import/columnMapping';
+import { buildReportsFromFiles, missingFieldsOf, prepareImport } from '../import/pipeline';
+import { bytesToRows } from '../import/rows';
+import { DEFAULT_BUSINESS_DAY, isValidTimeZone } from '../report/businessDay';
+import type { BusinessDaySettings } from '../report/businessDay';
+import { DEFAULT_MENU_CATALOG } from '../report/catalog';
+import type { MenuCatalog } from '../report/catalog';
+import { toDailyExport } from '../report/dailyExport';
+import { isISODate } from '../report/dates';
+import { DEFAULT_PAYMENT_METHODS, paymentMethodsError } from '../report/payments';
+import type { PaymentMethod } from '../report/payments';
+import { renderOutput } from '../report/render';
+import { BUILTIN_TEMPLATES, DEFAULT_TEMPLATE } from '../report/reportTemplates';
+import type { ReportTemplate } from '../report/reportTemplates';
+import type { LearnedRule } from '../report/rules';
+import { TAX_FIELDS } from '../report/tax';
+import type { TaxField } from '../report/tax';
+import { templateError } from '../report/template';
+import type { DailyReport } from '../report/types';
+
+export const USAGE = `使い方: daily-report <商品別ファイル> <支払方法別ファイル> [オプション]
+
+  CSV（UTF-8 / Shift_JIS / UTF-16）と Excel（.xlsx / .xls）を読めます。
+
+オプション:
+  --date YYYY-MM-DD      日付を指定（単日ファイルは日付を上書き、複数日ファイルはその日だけ出力）
+  --cutoff <時>           営業日の区切り（既定 0。4 なら 3:59 までの会計は前日分）
+  --timezone <名前>       日付がないときの「今日」を決めるタイムゾーン（既定 Asia/Tokyo）
+  --template <書式>       組み込みテンプレートの ID・名前、またはテンプレートのファイル
+  --format text|json     出力形式（既定 text。json は日報書き出しと同じスキーマ）
+  --out <ファイル>        標準出力の代わりにファイルへ書く
+  --catalog <JSON>       メニューカタログ（アプリの設定と同じ形式）
+  --rules <JSON>         学習ルール
+  --profiles <JSON>      列の対応プロファイル
+  --payments <JSON>      支払方法の一覧（アプリの設定と同じ形式）
+  --tax <項目,…>          税・割引を text に載せる（all または ${TAX_FIELDS.join(' / ')}）
+  --kpi                  指標（客単価・セット率・キャッシュレス比率など）を text に載せる
+  -h, --help             この説明
+
+終了コード: 0 正常 / 1 エラー / 2 未振り分けが残っている（標準エラーに一覧）`;
+
+export type CliFormat = 'text' | 'json';
+
+export type CliOptions = {
+  productPath: string;
+  statsPath: string;
+  date?: string;
+  businessDay: BusinessDaySettings;
+  template?: string;
+  format: CliFormat;
+  out?: string;
+  catalogPath?: string;
+  rulesPath?: string;
+  profilesPath?: string;
+  paymentsPath?: string;
+  // 日報テキストに載せる税・割引の項目
+  taxShown: TaxField[];
+  // 指標を日報テキストに載せる
+  kpi: boolean;
+};
+
+export type CliIO = {
+  readBytes: (path: string) => Uint8Array;
+  readText: (path: string) => string;
+  exists: (path: string) => boolean;
+};
+
+export type CliResult = { output: string; errors: string[]; exitCode: number };
+
+// 値を取るオプション（cutoff / timeZone は businessDay に、tax は taxShown にまとめる）
+type ValueKey = Exclude<keyof CliOptions, 'businessDay' | 'taxShown' | 'kpi'> | 'cutoff' | 'timeZone' | 'tax';
+
+const VALUE_FLAGS: Record<string, ValueKey> = {
+  '--date': 'date',
+  '--cutoff': 'cutoff',
+  '--timezone': 'timeZone',
+  '--template': 'template',
+  '--format': 'format',
+  '--out': 'out',
+  '--catalog': 'catalogPath',
+  '--rules': 'rulesPath',
+  '--profiles': 'profilesPath',
+  '--payments': 'paymentsPath',
+  '--tax': 'tax',
+};
+
+const parseTaxFields = (value: string): TaxField[] => {
+  if (value === 'all') {
+    return TAX_FIELDS;
+  }
+  const fields = value.split(',').map(s => s.trim()).filter(Boolean);
+  const unknown = fields.filter(f => !(TAX_FIELDS as string[]).includes(f));
+  if (unknown.length) {
+    throw new Error(`--tax の項目が不明です：${unknown.join(', ')}`);
+  }
+  return TAX_FIELDS.filter(f => fields.includes(f));
+};
+
+// 引数の誤りは Error（呼び出し側で使い方と一緒に出す）。--help は null
+export const parseArgs = (argv: string[]): CliOptions | null => {
+  const positional: string[] = [];
+  const values: Partial<Record<ValueKey, string>> = {};
+  let kpi = false;
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      return null;
+    }
+    if (arg === '--kpi') {
+      kpi = true;
+      continue;
+    }
+    // --date=2025-09-19 の形も受け付ける
+    const eq = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const flag = eq > 0 ? arg.slice(0, eq) : arg;
+    const inline = eq > 0 ? arg.slice(eq + 1) : undefined;
+    const key = VALUE_FLAGS[flag];
+    if (key) {
+      const value = inline ?? argv[(i += 1)];
+      if (value === undefined) {
+        throw new Error(`${flag} に値がありません`);
+      }
+      values[key] = value;
+    } else if (arg.startsWith('-') && arg !== '-') {
+      throw new Error(`不明なオプション：${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+  if (positional.length !== 2) {
+    throw new Error('商品別ファイルと支払方法別ファイルを指定してください');
+  }
+  const format = values.format ?? 'text';
+  if (format !== 'text' && format !== 'json') {
+    throw new Error(`--format は text か json です：${format}`);
+  }
+  if (values.date !== undefined && !isISODate(values.date)) {
+    throw new Error(`--date は YYYY-MM-DD で指定してください：${values.date}`);
+  }
+  if (values.cutoff !== undefined && !/^([01]?\d|2[0-3])$/.test(values.cutoff)) {
+    throw new Error(`--cutoff は 0〜23 の時で指定してください：${values.cutoff}`);
+  }
+  if (values.timeZone !== undefined && !isValidTimeZone(values.timeZone)) {
+    throw new Error(`不明なタイムゾーン：${values.timeZone}`);
+  }
+  return {
+    productPath: positional[0],
+    statsPath: positional[1],
+    date: values.date,
+    businessDay: {
+      timeZone: values.timeZone ?? DEFAULT_BUSINESS_DAY.timeZone,
+      cutoffHour: values.cutoff !== undefined ? Number(values.cutoff) : DEFAULT_BUSINESS_DAY.cutoffHour,
+    },
+    template: values.template,
+    format,
+    out: values.out,
+    catalogPath: values.catalogPath,
+    rulesPath: values.rulesPath,
+    profilesPath: values.profilesPath,
+    paymentsPath: values.paymentsPath,
+    taxShown: values.tax !== undefined ? parseTaxFields(values.tax) : [],
+    kpi,
+  };
+};
+
+const baseName = (path: string) => path.split(/[\\/]/).pop() ?? path;
+
+const readJson = <T>(io: CliIO, path: string, label: string): T => {
+  try {
+    return JSON.parse(io.readText(path)) as T;
+  } catch (e: any) {
+    throw new Error(`${label}を読めません（${path}）：${e?.message ?? String(e)}`);
+  }
+};
+
+// ID・名前が組み込みに一致すればそれ、なければファイルとして読む
+const resolveTemplate = (io: CliIO, spec?: string): ReportTemplate => {
+  if (!spec) {
+    return DEFAULT_TEMPLATE;
+  }
+  const builtIn = BUILTIN_TEMPLATES.find(t => t.id === spec || t.name === spec);
+  if (builtIn) {
+    return builtIn;
+  }
+  if (!io.exists(spec)) {
+    const names = BUILTIN_TEMPLATES.map(t => `${t.id}（${t.name}）`).join(', ');
+    throw new Error(`テンプレートが見つかりません：${spec}（組み込み：${names}）`);
+  }
+  const body = io.readText(spec);
+  const error = templateError(body);
+  if (error) {
+    throw new Error(`テンプレートエラー（${spec}）：${error}`);
+  }
+  return { id: spec, name: baseName(spec), body };
+};
+
+const resolvePaymentMethods = (io: CliIO, path?: string): PaymentMethod[] => {
+  if (!path) {
+    return DEFAULT_PAYMENT_METHODS;
+  }
+  const methods = readJson<PaymentMethod[]>(io, path, '支払方法');
+  const error = Array.isArray(methods) ? paymentMethodsError(methods) : '配列ではありません';
+  if (error) {
+    throw new Error(`支払方法のエラー（${path}）：${error}`);
+  }
+  return methods;
+};
+
+const loadFile = (io: CliIO, kind: FileKind, path: string, profiles: ColumnProfile[]) => {
+  const name = baseName(path);
+  const file = prepareImport(kind, { name, ...bytesToRows(io.readBytes(path), name) }, profiles);
+  const missing = missingFieldsOf(kind, file);
+  if (missing.length) {
+    throw new Error(`${name}：必要な列が見つかりません（${missing.map(f => fieldLabel(f)).join('、')}）`);
+  }
+  return file;
+};
+
+// 単日は日付を上書き、複数日はその日だけにする
+const selectDate = (reports: DailyReport[], date?: string) => {
+  if (!date) {
+    return reports;
+  }
+  if (reports.length === 1) {
+    return [{ ...reports[0], meta: { ...reports[0].meta, dateISO: date } }];
+  }
+  const hit = reports.filter(r => r.meta.dateISO === date);
+  if (!hit.length) {
+    throw new Error(`${date} の行がありません（${reports.map(r => r.meta.dateISO).join(', ')}）`);
+  }
+  return hit;
+};
+
+export const runDailyReport = (options: CliOptions, io: CliIO): CliResult => {
+  const catalog = options.catalogPath ? readJson<MenuCatalog>(io, options.catalogPath, 'メニューカタログ') : DEFAULT_MENU_CATALOG;
+  const rules = options.rulesPath ? readJson<LearnedRule[]>(io, options.rulesPath, '学習ルール') : [];
+  const profiles = options.profilesPath ? readJson<ColumnProfile[]>(io, options.profilesPath, '列の対応プロファイル') : [];
+  const template = resolveTemplate(io, options.template);
+  const methods = resolvePaymentMethods(io, options.paymentsPath);
+
+  const product = loadFile(io, 'product', options.productPath, profiles);
+  const stats = loadFile(io, 'stats', options.statsPath, profiles);
+  const reports = selectDate(buildReportsFromFiles(product, stats, catalog, rules, options.businessDay, methods), options.date);
+
+  const sourceFiles = { product: product.name, stats: stats.name };
+  const output = options.format === 'json'
+    ? JSON.stringify(
+      reports.length === 1
+        ? toDailyExport(reports[0], catalog, methods, sourceFiles)
+        : reports.map(r => toDailyExport(r, catalog, methods, sourceFiles)),
+      null,
+      2
+    )
+    : reports.map(r => renderOutput(r, catalog, template, methods, { shown: options.taxShown }, { append: options.kpi })).join('\n\n');
+
+  const errors = reports.flatMap(r =>
+    r.unassigned.map(u => `未振り分け ${r.meta.dateISO}：${u.name} × ${u.count}`)
+  );
+  return { output: output + '\n', errors, exitCode: errors.length ? 2 : 0 };
+};
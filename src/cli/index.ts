@@ -0,0 +1,42 @@
+﻿// src/cli/index.ts
+// Node 用の入口（npm run cli:build でビルド → npm run report -- <商品別> <支払方法別>）
+/// <reference types="node" />
+import fs from 'fs';
+
+import { USAGE, parseArgs, runDailyReport } from './dailyReport';
+import type { CliOptions } from './dailyReport';
+
+const io = {
+  readBytes: (path: string) => new Uint8Array(fs.readFileSync(path)),
+  readText: (path: string) => fs.readFileSync(path, 'utf8'),
+  exists: (path: string) => fs.existsSync(path),
+};
+
+function main(argv: string[]): number {
+  let options: CliOptions | null;
+  try {
+    options = parseArgs(argv);
+  } catch (e: any) {
+    process.stderr.write(`${e?.message ?? String(e)}\n\n${USAGE}\n`);
+    return 1;
+  }
+  if (!options) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+  try {
+    const { output, errors, exitCode } = runDailyReport(options, io);
+    if (options.out) {
+      fs.writeFileSync(options.out, output, 'utf8');
+    } else {
+      process.stdout.write(output);
+    }
+    errors.forEach(line => process.stderr.write(`${line}\n`));
+    return exitCode;
+  } catch (e: any) {
+    process.stderr.write(`エラー：${e?.message ?? String(e)}\n`);
+    return 1;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
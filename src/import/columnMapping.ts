@@ -0,0 +1,184 @@
+﻿// src/import/columnMapping.ts
+// 列の対応付け：POS が列名を変えても取り込めるよう、実際の列名 → 意味（商品名・数量・支払方法…）を割り当てる。
+// 割り当てた列は既定の列名に読み替えてから集計に渡す（engine 側は変更なし）
+import {
+  DATE_COLUMN_CANDS,
+  GROUP_CANDS,
+  PEOPLE_CANDS,
+  PRODUCT_CATEGORY_CANDS,
+  PRODUCT_NAME_CANDS,
+  PRODUCT_QTY_CANDS,
+  RECEIPT_ID_CANDS,
+} from '../report/constants';
+import { norm } from '../report/parse';
+import { DEFAULT_PAYMENT_METHODS, TOTAL_KEY, paymentAliases, paymentKeys, paymentLabel } from '../report/payments';
+import type { PaymentMethod } from '../report/payments';
+import type { PaymentKey } from '../report/types';
+import type { SheetRow } from './rows';
+import type { SourceLayout } from './sourceFormats';
+
+export type FileKind = 'product' | 'stats';
+
+export type ColumnField =
+  | 'productName'
+  | 'quantity'
+  | 'category'
+  | 'date'
+  | 'groups'
+  | 'people'
+  | 'receiptId'
+  | `payment:${PaymentKey}`;
+
+// 実際の列名 → 意味
+export type ColumnMapping = Record<string, ColumnField>;
+
+export type ColumnProfile = {
+  id: string;
+  name: string;
+  kind: FileKind;
+  mapping: ColumnMapping;
+  // 未指定なら判定した POS 形式のもの
+  layout?: SourceLayout;
+  createdAt: string;
+};
+
+const paymentField = (key: PaymentKey): ColumnField => `payment:${key}`;
+
+const paymentKeyOf = (field: ColumnField) => field.slice('payment:'.length);
+
+const FIXED_LABELS: Record<string, string> = {
+  productName: '商品名',
+  quantity: '数量',
+  category: 'カテゴリ',
+  date: '日付',
+  groups: '組数',
+  people: '客数',
+  receiptId: '会計ID',
+};
+
+// 支払方法は設定で変わるので、表示名は支払方法の定義から引く（削除済みの支払方法はキーのまま）
+export const fieldLabel = (field: ColumnField, methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS) => {
+  if (field in FIXED_LABELS) {
+    return FIXED_LABELS[field];
+  }
+  const key = paymentKeyOf(field);
+  return key === TOTAL_KEY ? '売上（税込み合計）' : paymentLabel(methods, key);
+};
+
+export const fieldsOf = (kind: FileKind, methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS): ColumnField[] =>
+  kind === 'product'
+    ? ['productName', 'quantity', 'category', 'date']
+    : [...paymentKeys(methods).map(paymentField), 'groups', 'people', 'receiptId', 'date'];
+
+const REQUIRED_FIELDS: Record<FileKind, ColumnField[]> = {
+  product: ['productName', 'quantity'],
+  stats: [paymentField(TOTAL_KEY)],
+};
+
+// 既定の候補列名（先頭が読み替え先）。別名のない支払方法は表示名で読み替える
+const fieldCandidates = (field: ColumnField, methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS): string[] => {
+  switch (field) {
+    case 'productName': return PRODUCT_NAME_CANDS;
+    case 'quantity': return PRODUCT_QTY_CANDS;
+    case 'category': return PRODUCT_CATEGORY_CANDS;
+    case 'date': return DATE_COLUMN_CANDS;
+    case 'groups': return GROUP_CANDS;
+    case 'people': return PEOPLE_CANDS;
+    case 'receiptId': return RECEIPT_ID_CANDS;
+    default: {
+      const key = paymentKeyOf(field);
+      const aliases = paymentAliases(methods, key);
+      return aliases.length ? aliases : [paymentLabel(methods, key)];
+    }
+  }
+};
+
+export const newProfileId = () => `cols_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+export const headersOf = (rows: SheetRow[]) => {
+  const seen = new Set<string>();
+  rows.slice(0, 50).forEach(row => Object.keys(row).forEach(k => seen.add(k)));
+  return Array.from(seen);
+};
+
+// 各列の最初の空でない値（ウィザードの見本表示用）
+export const sampleValues = (rows: SheetRow[], headers: string[]) => {
+  const out: Record<string, string> = {};
+  headers.forEach(h => {
+    const hit = rows.slice(0, 50).find(r => String(r[h] ?? '').trim() !== '');
+    out[h] = hit ? String(hit[h]).trim() : '';
+  });
+  return out;
+};
+
+// 既定の候補列名で見つかる意味（ウィザードの初期値）
+export const autoMapping = (
+  headers: string[],
+  kind: FileKind,
+  methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS
+): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  fieldsOf(kind, methods).forEach(field => {
+    const cands = fieldCandidates(field, methods).map(norm);
+    const hit = headers.find(h => !mapping[h] && cands.includes(norm(h)));
+    if (hit) {
+      mapping[hit] = field;
+    }
+  });
+  return mapping;
+};
+
+export const missingRequiredFields = (headers: string[], kind: FileKind, mapping: ColumnMapping = {}) => {
+  const mapped = new Set(Object.values(mapping));
+  return REQUIRED_FIELDS[kind].filter(field => {
+    if (mapped.has(field)) {
+      return false;
+    }
+    const cands = fieldCandidates(field).map(norm);
+    return !headers.some(h => cands.includes(norm(h)));
+  });
+};
+
+// 割り当てた列がすべて揃っているプロファイルのうち、割り当て数の多いものを採用
+export const findMatchingProfile = (profiles: ColumnProfile[], headers: string[], kind: FileKind) => {
+  const present = new Set(headers.map(norm));
+  return profiles
+    .filter(p => p.kind === kind)
+    .filter(p => {
+      const cols = Object.keys(p.mapping);
+      return cols.length > 0 && cols.every(c => present.has(norm(c)));
+    })
+    .sort((a, b) => Object.keys(b.mapping).length - Object.keys(a.mapping).length)[0];
+};
+
+// 同じ名前のプロファイルは置き換え
+export const upsertProfile = (profiles: ColumnProfile[], profile: ColumnProfile): ColumnProfile[] => {
+  const rest = profiles.filter(p => p.id !== profile.id && !(p.kind === profile.kind && p.name === profile.name));
+  return [...rest, profile];
+};
+
+// 割り当てた列を既定の列名に読み替える
+export const applyColumnMapping = (
+  rows: SheetRow[],
+  mapping: ColumnMapping = {},
+  methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS
+): SheetRow[] => {
+  const byNorm = new Map(Object.entries(mapping).map(([col, field]) => [norm(col), field]));
+  if (!byNorm.size) {
+    return rows;
+  }
+  return rows.map(row => {
+    const out: SheetRow = {};
+    Object.entries(row).forEach(([col, value]) => {
+      const field = byNorm.get(norm(col));
+      if (!field) {
+        if (!(col in out)) {
+          out[col] = value;
+        }
+        return;
+      }
+      out[fieldCandidates(field, methods)[0]] = value;
+    });
+    return out;
+  });
+};
@@ -0,0 +1,112 @@
+﻿// src/import/encoding.ts
+// CSV の文字コード判定とデコード（POS の CSV は Shift_JIS / UTF-16 も多い）
+import cptable from 'xlsx/dist/cpexcel.js';
+
+export type TextEncoding = 'utf-8' | 'utf-8-bom' | 'utf-16le' | 'utf-16be' | 'shift_jis';
+
+export const ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-8-bom': 'UTF-8（BOM付き）',
+  'utf-16le': 'UTF-16LE',
+  'utf-16be': 'UTF-16BE',
+  shift_jis: 'Shift_JIS',
+};
+
+// Shift_JIS は Windows 拡張（CP932）として扱う（①、髙 などの機種依存文字を含むため）
+const CODEPAGES: Record<TextEncoding, number> = {
+  'utf-8': 65001,
+  'utf-8-bom': 65001,
+  'utf-16le': 1200,
+  'utf-16be': 1201,
+  shift_jis: 932,
+};
+
+const BOM_LENGTHS: Partial<Record<TextEncoding, number>> = {
+  'utf-8-bom': 3,
+  'utf-16le': 2,
+  'utf-16be': 2,
+};
+
+export const base64ToBytes = (base64: string) => {
+  const binary = (globalThis as any).atob(base64) as string;
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const isValidUtf8 = (bytes: Uint8Array) => {
+  let i = 0;
+  while (i < bytes.length) {
+    const b = bytes[i];
+    if (b < 0x80) {
+      i += 1;
+      continue;
+    }
+    const len = b >= 0xc2 && b <= 0xdf ? 2 : b >= 0xe0 && b <= 0xef ? 3 : b >= 0xf0 && b <= 0xf4 ? 4 : 0;
+    if (!len || i + len > bytes.length) {
+      return false;
+    }
+    for (let j = 1; j < len; j += 1) {
+      // 2 バイト目以降は 0x80〜0xBF
+      if (bytes[i + j] < 0x80 || bytes[i + j] > 0xbf) {
+        return false;
+      }
+    }
+    i += len;
+  }
+  return true;
+};
+
+// BOM なし UTF-16：UTF-8 / Shift_JIS のテキストに 0x00 は出ないので、
+// 0 バイトが偶数・奇数どちら側に寄っているかで LE/BE を見分ける
+const guessUtf16 = (bytes: Uint8Array): TextEncoding | null => {
+  // 先頭 1024 バイトまで、2 バイト単位で見る
+  const head = Math.min(bytes.length, 1024);
+  const n = head - (head % 2);
+  let evenZero = 0;
+  let oddZero = 0;
+  for (let i = 0; i < n; i += 2) {
+    if (bytes[i] === 0) {
+      evenZero += 1;
+    }
+    if (bytes[i + 1] === 0) {
+      oddZero += 1;
+    }
+  }
+  if (oddZero > evenZero) {
+    return 'utf-16le';
+  }
+  if (evenZero > oddZero) {
+    return 'utf-16be';
+  }
+  return null;
+};
+
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return 'utf-8-bom';
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return 'utf-16be';
+  }
+  const utf16 = guessUtf16(bytes);
+  if (utf16) {
+    return utf16;
+  }
+  return isValidUtf8(bytes) ? 'utf-8' : 'shift_jis';
+};
+
+// encoding 未指定なら自動判定。BOM は取り除いて返す
+export const decodeText = (bytes: Uint8Array, encoding: TextEncoding = detectEncoding(bytes)) => {
+  const body = bytes.subarray(BOM_LENGTHS[encoding] ?? 0);
+  try {
+    return { text: cptable.utils.decode(CODEPAGES[encoding], body), encoding };
+  } catch {
+    throw new Error(`CSVの文字コード（${ENCODING_LABELS[encoding]}）として読めない文字があります。UTF-8 か Shift_JIS で書き出してください。`);
+  }
+};
@@ -0,0 +1,44 @@
+﻿// src/import/fileKind.ts
+// 列名から「商品別」か「支払方法別」かを見分ける（まとめてドロップされたファイルの振り分け用）
+import { autoMapping, findMatchingProfile, missingRequiredFields } from './columnMapping';
+import type { ColumnProfile, FileKind } from './columnMapping';
+import { detectSourceFormat, formatMapping } from './sourceFormats';
+
+const KINDS: FileKind[] = ['product', 'stats'];
+
+// 保存済みプロファイル一致 > 必須列が揃う > 読める列が多い の順に高い
+export const fileKindScore = (headers: string[], kind: FileKind, profiles: ColumnProfile[] = []) => {
+  const profile = findMatchingProfile(profiles, headers, kind);
+  if (profile) {
+    return 1000 + Object.keys(profile.mapping).length;
+  }
+  const mapping = { ...autoMapping(headers, kind), ...formatMapping(detectSourceFormat(headers, kind), headers, kind) };
+  const mapped = Object.keys(mapping).length;
+  if (mapped === 0) {
+    return 0;
+  }
+  return (missingRequiredFields(headers, kind, mapping).length === 0 ? 100 : 0) + mapped;
+};
+
+// 判断できなければ null
+export const guessFileKind = (headers: string[], profiles: ColumnProfile[] = []): FileKind | null => {
+  const [product, stats] = KINDS.map(kind => fileKindScore(headers, kind, profiles));
+  if (product === stats) {
+    return null;
+  }
+  return product > stats ? 'product' : 'stats';
+};
+
+// ファイルごとの行き先。2つなら両方が同じ側にならないよう、合計点の高い組み合わせにする
+export const routeFiles = (headersList: string[][], profiles: ColumnProfile[] = []): (FileKind | null)[] => {
+  if (headersList.length !== 2) {
+    return headersList.map(headers => guessFileKind(headers, profiles));
+  }
+  const [a, b] = headersList.map(headers => KINDS.map(kind => fileKindScore(headers, kind, profiles)));
+  const straight = a[0] + b[1];
+  const crossed = a[1] + b[0];
+  if (straight === crossed) {
+    return headersList.map(headers => guessFileKind(headers, profiles));
+  }
+  return straight > crossed ? ['product', 'stats'] : ['stats', 'product'];
+};
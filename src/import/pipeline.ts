@@ -0,0 +1,72 @@
+﻿// src/import/pipeline.ts
+// 読み込んだ 2 ファイル → 日報（画面の「解析して文章を作る」と CLI で共通）
+import { DEFAULT_BUSINESS_DAY } from '../report/businessDay';
+import type { BusinessDaySettings } from '../report/businessDay';
+import type { MenuCatalog } from '../report/catalog';
+import { DEFAULT_PAYMENT_METHODS } from '../report/payments';
+import type { PaymentMethod } from '../report/payments';
+import type { LearnedRule } from '../report/rules';
+import { buildDailyReports } from '../report/split';
+import type { DailyReport, ProductRow, StatsRow } from '../report/types';
+import { applyColumnMapping, findMatchingProfile, headersOf, missingRequiredFields } from './columnMapping';
+import type { ColumnMapping, ColumnProfile, FileKind } from './columnMapping';
+import type { FileRows } from './rows';
+import { detectSourceFormat, formatMapping } from './sourceFormats';
+import type { SourceFormat, SourceLayout } from './sourceFormats';
+import { transactionsToDailyProducts, transactionsToDailyStats } from './transactions';
+
+// mapping は列の対応付け（保存済みプロファイル適用時は profileName も入る）。format は判定した POS 形式、
+// layout は 1行の単位（プロファイルで指定がなければ format のもの）
+export type ImportedFile = FileRows & {
+  name?: string;
+  mapping: ColumnMapping;
+  profileName?: string;
+  format: SourceFormat;
+  layout: SourceLayout;
+};
+
+// 列の対応は、列が一致する保存済みプロファイルを優先し、なければ判定した POS 形式のものを使う
+export const prepareImport = <T extends FileRows & { name?: string }>(
+  kind: FileKind,
+  file: T,
+  profiles: ColumnProfile[] = []
+): T & ImportedFile => {
+  const headers = headersOf(file.rows);
+  const profile = findMatchingProfile(profiles, headers, kind);
+  const format = detectSourceFormat(headers, kind);
+  return {
+    ...file,
+    mapping: profile?.mapping ?? formatMapping(format, headers, kind),
+    profileName: profile?.name,
+    format,
+    layout: profile?.layout ?? format.layout,
+  };
+};
+
+export const missingFieldsOf = (kind: FileKind, file: ImportedFile) =>
+  missingRequiredFields(headersOf(file.rows), kind, file.mapping);
+
+// 会計明細は日別集計の行に変換してから同じ集計に通す（商品明細も日付・商品ごとの行にまとめる）
+export const buildReportsFromFiles = (
+  product: ImportedFile,
+  stats: ImportedFile,
+  catalog: MenuCatalog,
+  rules: LearnedRule[] = [],
+  businessDay: BusinessDaySettings = DEFAULT_BUSINESS_DAY,
+  paymentMethods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS
+): DailyReport[] => {
+  const statsRows = applyColumnMapping(stats.rows, stats.mapping, paymentMethods);
+  const productRows = applyColumnMapping(product.rows, product.mapping);
+  return buildDailyReports({
+    productRows: (product.layout === 'transaction'
+      ? transactionsToDailyProducts(productRows, businessDay)
+      : productRows) as ProductRow[],
+    statsRows: (stats.layout === 'transaction'
+      ? transactionsToDailyStats(statsRows, businessDay, paymentMethods)
+      : statsRows) as StatsRow[],
+    productFileName: product.name,
+    statsFileName: stats.name,
+    businessDay,
+    paymentMethods,
+  }, catalog, rules);
+};
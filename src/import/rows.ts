@@ -0,0 +1,54 @@
+﻿// src/import/rows.ts
+// 読み込んだファイルのバイト列 → 行データ（CSV は文字コードを判定してから解析）
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+
+import { decodeText } from './encoding';
+import type { TextEncoding } from './encoding';
+
+export type SheetRow = Record<string, any>;
+
+// encoding は CSV のときだけ入る
+export type FileRows = { rows: SheetRow[]; encoding?: TextEncoding };
+
+const EXCEL_MIME_TYPES = new Set([
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+]);
+
+export const isExcelFile = (name?: string, type?: string | null) => {
+  const lower = name?.toLowerCase() ?? '';
+  const mime = type?.toLowerCase() ?? '';
+  if (/\.(xlsx|xls)$/i.test(lower)) {
+    return true;
+  }
+  if (!mime) {
+    return false;
+  }
+  if (EXCEL_MIME_TYPES.has(mime)) {
+    return true;
+  }
+  return mime.includes('spreadsheetml');
+};
+
+export const parseCsvText = (text: string): SheetRow[] => {
+  const { data } = Papa.parse(text, { header: true, skipEmptyLines: true });
+  return data as SheetRow[];
+};
+
+export const parseWorkbookRows = (bytes: Uint8Array): SheetRow[] => {
+  const workbook = XLSX.read(bytes, { type: 'array' });
+  const sheetName = workbook.SheetNames?.[0];
+  if (!sheetName) {
+    return [];
+  }
+  return XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { defval: '' });
+};
+
+export const bytesToRows = (bytes: Uint8Array, name?: string, type?: string | null): FileRows => {
+  if (isExcelFile(name, type)) {
+    return { rows: parseWorkbookRows(bytes) };
+  }
+  const { text, encoding } = decodeText(bytes);
+  return { rows: parseCsvText(text), encoding };
+};
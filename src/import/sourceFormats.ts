@@ -0,0 +1,151 @@
+﻿// src/import/sourceFormats.ts
+// POS ごとのエクスポート形式（列名・文字コード・1行の単位・支払列の対応）。
+// POS 固有の列名はここに閉じ込め、constants の候補リストは「標準」形式の既定値としてだけ使う
+import { norm } from '../report/parse';
+import type { ColumnMapping, FileKind } from './columnMapping';
+import type { TextEncoding } from './encoding';
+
+// daily: 1行 = 1日分の集計 / transaction: 1行 = 1会計（または1明細）
+export type SourceLayout = 'daily' | 'transaction';
+
+export type SourceFormat = {
+  id: string;
+  label: string;
+  // POS が書き出す文字コード（判定結果と違えば注意を出す）
+  encoding?: TextEncoding;
+  layout: SourceLayout;
+  // この列がすべてあればその形式とみなす
+  signature: Partial<Record<FileKind, string[]>>;
+  columns: Partial<Record<FileKind, ColumnMapping>>;
+};
+
+export const LAYOUT_LABELS: Record<SourceLayout, string> = {
+  daily: '日別集計',
+  transaction: '会計明細',
+};
+
+// どの形式にも当てはまらないとき：既定の候補列名で読む
+export const STANDARD_FORMAT: SourceFormat = {
+  id: 'standard',
+  label: '標準',
+  layout: 'daily',
+  signature: {},
+  columns: {},
+};
+
+export const SOURCE_FORMATS: SourceFormat[] = [
+  {
+    id: 'square',
+    label: 'Square',
+    encoding: 'utf-8-bom',
+    layout: 'transaction',
+    signature: {
+      product: ['取引ID', 'アイテム', '数量'],
+      stats: ['取引ID', '合計回収額'],
+    },
+    columns: {
+      product: { 日付: 'date', カテゴリ: 'category', アイテム: 'productName', 数量: 'quantity' },
+      stats: {
+        日付: 'date',
+        取引ID: 'receiptId',
+        合計回収額: 'payment:total',
+        カード: 'payment:card',
+        現金: 'payment:cash',
+      },
+    },
+  },
+  {
+    id: 'airregi',
+    label: 'Airレジ',
+    encoding: 'shift_jis',
+    layout: 'daily',
+    signature: {
+      product: ['カテゴリー名', '商品名', 'バリエーション'],
+      stats: ['売上合計', '会計数', '客数'],
+    },
+    columns: {
+      product: { カテゴリー名: 'category', 商品名: 'productName', 数量: 'quantity' },
+      stats: {
+        日付: 'date',
+        売上合計: 'payment:total',
+        現金: 'payment:cash',
+        クレジットカード: 'payment:card',
+        PayPay: 'payment:paypay',
+        会計数: 'groups',
+        客数: 'people',
+      },
+    },
+  },
+  {
+    id: 'smaregi',
+    label: 'スマレジ',
+    encoding: 'shift_jis',
+    layout: 'transaction',
+    signature: {
+      product: ['取引ID', '取引日時', '部門名'],
+      stats: ['取引ID', '取引日時', '合計'],
+    },
+    columns: {
+      product: { 取引日時: 'date', 部門名: 'category', 商品名: 'productName', 数量: 'quantity' },
+      stats: {
+        取引日時: 'date',
+        取引ID: 'receiptId',
+        合計: 'payment:total',
+        現金: 'payment:cash',
+        クレジット: 'payment:card',
+        客数: 'people',
+      },
+    },
+  },
+  {
+    id: 'tablecheck',
+    label: 'TableCheck',
+    encoding: 'utf-8',
+    layout: 'transaction',
+    signature: {
+      stats: ['予約番号', '来店日時', '決済金額'],
+    },
+    columns: {
+      stats: {
+        来店日時: 'date',
+        予約番号: 'receiptId',
+        合計金額: 'payment:total',
+        決済金額: 'payment:tablecheck',
+        人数: 'people',
+      },
+    },
+  },
+];
+
+// シグネチャ列がすべて揃う形式のうち、列数の多い（より具体的な）ものを採用
+export const detectSourceFormat = (headers: string[], kind: FileKind): SourceFormat => {
+  const present = new Set(headers.map(norm));
+  return SOURCE_FORMATS
+    .filter(f => {
+      const sig = f.signature[kind] ?? [];
+      return sig.length > 0 && sig.every(h => present.has(norm(h)));
+    })
+    .sort((a, b) => (b.signature[kind]?.length ?? 0) - (a.signature[kind]?.length ?? 0))[0] ?? STANDARD_FORMAT;
+};
+
+// 形式の列対応のうち、実際にファイルにある列だけを使う
+export const formatMapping = (format: SourceFormat, headers: string[], kind: FileKind): ColumnMapping => {
+  const byNorm = new Map(headers.map(h => [norm(h), h]));
+  const mapping: ColumnMapping = {};
+  Object.entries(format.columns[kind] ?? {}).forEach(([col, field]) => {
+    const actual = byNorm.get(norm(col));
+    if (actual) {
+      mapping[actual] = field;
+    }
+  });
+  return mapping;
+};
+
+// utf-8 と utf-8-bom は同じ扱い
+export const encodingMismatch = (format: SourceFormat, detected?: TextEncoding) => {
+  if (!format.encoding || !detected) {
+    return false;
+  }
+  const base = (e: TextEncoding) => (e === 'utf-8-bom' ? 'utf-8' : e);
+  return base(format.encoding) !== base(detected);
+};
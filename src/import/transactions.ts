@@ -0,0 +1,128 @@
+﻿// src/import/transactions.ts
+// 会計明細（1行 = 1会計 / 1明細）を日別集計の行に変換する。
+// 列はあらかじめ applyColumnMapping で既定の列名に読み替えておく
+import { DEFAULT_BUSINESS_DAY, rowBusinessDateISO } from '../report/businessDay';
+import type { BusinessDaySettings } from '../report/businessDay';
+import {
+  DATE_COLUMN_CANDS,
+  GROUP_CANDS,
+  PEOPLE_CANDS,
+  PRODUCT_CATEGORY_CANDS,
+  PRODUCT_NAME_CANDS,
+  PRODUCT_QTY_CANDS,
+  RECEIPT_ID_CANDS,
+  TAX_COLUMN_CANDS,
+} from '../report/constants';
+import { firstByCandidates, firstKeyStr, norm, toNum } from '../report/parse';
+import { DEFAULT_PAYMENT_METHODS, TOTAL_ALIASES } from '../report/payments';
+import type { PaymentMethod } from '../report/payments';
+import type { SheetRow } from './rows';
+
+// 「1,200」「¥1,200」「-300」「1200円」のような金額・数値だけを合計する（時刻や ID 文字列は対象外）
+const NUMERIC_PATTERN = /^-?[¥￥]?-?[\d,]+(\.\d+)?円?$/;
+
+const isNumeric = (v: unknown) => typeof v === 'number' || NUMERIC_PATTERN.test(String(v ?? '').trim());
+
+type DayTotals = {
+  sums: Record<string, number>;
+  receipts: Set<string>;
+  anonymousReceipts: number;
+  // 会計ごとの人数（同じ会計の明細が複数行あっても1回だけ数える）
+  peopleByReceipt: Map<string, number>;
+  anonymousPeople: number;
+};
+
+// 明細には総売上・チップなど支払以外の金額列も多いので、支払方法と税・割引の内訳の列だけを合計する
+// （POS 独自の支払列は列の対応付けで支払方法に割り当てる）
+const summedColumns = (methods: PaymentMethod[]) =>
+  new Set(
+    [...TOTAL_ALIASES, ...methods.flatMap(m => [...m.aliases, m.label]), ...Object.values(TAX_COLUMN_CANDS).flat()].map(norm)
+  );
+
+const hasColumn = (rows: SheetRow[], cands: string[]) => {
+  const wanted = new Set(cands.map(norm));
+  return rows.some(row => Object.keys(row).some(k => wanted.has(norm(k))));
+};
+
+// 日付ごとに、支払列の合計・会計数（会計IDの種類数）・客数を出す。
+// 出力は日別集計ファイルと同じ列名（集計期間 / 会計数 / 客数）なので、そのまま buildDailyReports に渡せる。
+// 日付は営業日（区切り時刻より前の会計は前日分）
+export const transactionsToDailyStats = (
+  rows: SheetRow[],
+  businessDay: BusinessDaySettings = DEFAULT_BUSINESS_DAY,
+  methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS
+): SheetRow[] => {
+  const columns = summedColumns(methods);
+  const withPeople = hasColumn(rows, PEOPLE_CANDS);
+  const byDate = new Map<string, DayTotals>();
+
+  rows.forEach(row => {
+    const dateISO = rowBusinessDateISO(row, businessDay) ?? '';
+    let day = byDate.get(dateISO);
+    if (!day) {
+      day = { sums: {}, receipts: new Set(), anonymousReceipts: 0, peopleByReceipt: new Map(), anonymousPeople: 0 };
+      byDate.set(dateISO, day);
+    }
+
+    Object.entries(row).forEach(([col, value]) => {
+      if (!columns.has(norm(col)) || !isNumeric(value)) {
+        return;
+      }
+      day!.sums[col] = (day!.sums[col] ?? 0) + toNum(value);
+    });
+
+    const receiptId = firstKeyStr(row, RECEIPT_ID_CANDS).trim();
+    const people = firstByCandidates(row, PEOPLE_CANDS);
+    if (receiptId) {
+      day.receipts.add(receiptId);
+      day.peopleByReceipt.set(receiptId, Math.max(day.peopleByReceipt.get(receiptId) ?? 0, people));
+    } else {
+      day.anonymousReceipts += 1;
+      day.anonymousPeople += people;
+    }
+  });
+
+  return Array.from(byDate.keys())
+    .sort()
+    .map(dateISO => {
+      const day = byDate.get(dateISO)!;
+      const out: SheetRow = { ...day.sums };
+      if (dateISO) {
+        out[DATE_COLUMN_CANDS[0]] = dateISO;
+      }
+      out[GROUP_CANDS[0]] = day.receipts.size + day.anonymousReceipts;
+      if (withPeople) {
+        let people = day.anonymousPeople;
+        day.peopleByReceipt.forEach(n => (people += n));
+        out[PEOPLE_CANDS[0]] = people;
+      }
+      return out;
+    });
+};
+
+// 商品明細を日付・商品名（・カテゴリ）ごとに数量を合計した行にする。
+// 会計ごとの行のまま集計すると、同じコースや未振り分けの商品が会計の数だけ別の行に分かれるため
+export const transactionsToDailyProducts = (
+  rows: SheetRow[],
+  businessDay: BusinessDaySettings = DEFAULT_BUSINESS_DAY
+): SheetRow[] => {
+  const byKey = new Map<string, SheetRow>();
+  rows.forEach(row => {
+    const dateISO = rowBusinessDateISO(row, businessDay) ?? '';
+    const name = firstKeyStr(row, PRODUCT_NAME_CANDS).trim();
+    const category = firstKeyStr(row, PRODUCT_CATEGORY_CANDS).trim();
+    const key = [dateISO, name, category].join('\t');
+    const prev = byKey.get(key);
+    if (prev) {
+      prev[PRODUCT_QTY_CANDS[0]] += firstByCandidates(row, PRODUCT_QTY_CANDS);
+      return;
+    }
+    byKey.set(key, {
+      ...(dateISO ? { [DATE_COLUMN_CANDS[0]]: dateISO } : {}),
+      [PRODUCT_NAME_CANDS[0]]: name,
+      ...(category ? { [PRODUCT_CATEGORY_CANDS[0]]: category } : {}),
+      [PRODUCT_QTY_CANDS[0]]: firstByCandidates(row, PRODUCT_QTY_CANDS),
+    });
+  });
+  return Array.from(byKey.values());
+};
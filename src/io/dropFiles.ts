@@ -0,0 +1,16 @@
+﻿// src/io/dropFiles.ts
+// ファイルのドラッグ＆ドロップ（web のみ。web の実装は dropFiles.web.ts、native では何もしない）
+import type { PickedFile } from './readFile';
+
+export type DropHandlers = {
+  onFiles: (files: PickedFile[]) => void;
+  // ドラッグ中の表示切り替え用
+  onDragging?: (dragging: boolean) => void;
+};
+
+export const supportsFileDrop = false;
+
+// 戻り値で解除
+export function subscribeFileDrop(_handlers: DropHandlers): () => void {
+  return () => {};
+}
@@ -0,0 +1,78 @@
+﻿// src/io/dropFiles.web.ts
+// web：ページ全体へのファイルのドラッグ＆ドロップ（型は dropFiles.ts と同じ）
+import type { DropHandlers } from './dropFiles';
+import type { PickedFile } from './readFile';
+
+export const supportsFileDrop = true;
+
+// tsconfig に DOM の型を入れていない（React Native の型と重なる）ので、使う分だけ書く
+type DroppedFile = { name: string; type: string };
+type FileDragEvent = {
+  preventDefault: () => void;
+  dataTransfer?: { types: ArrayLike<string>; files: ArrayLike<DroppedFile> } | null;
+};
+type DragListener = (e: FileDragEvent) => void;
+type Browser = {
+  document: {
+    addEventListener: (type: string, listener: DragListener) => void;
+    removeEventListener: (type: string, listener: DragListener) => void;
+  };
+  URL: { createObjectURL: (file: DroppedFile) => string };
+};
+
+const browser = globalThis as unknown as Browser;
+
+// URL は readBytes が読み終えたら解放する
+const toPickedFile = (file: DroppedFile): PickedFile => ({
+  uri: browser.URL.createObjectURL(file),
+  name: file.name,
+  type: file.type,
+});
+
+const hasFiles = (e: FileDragEvent) => Array.from(e.dataTransfer?.types ?? []).includes('Files');
+
+// 戻り値で解除
+export function subscribeFileDrop({ onFiles, onDragging }: DropHandlers): () => void {
+  let depth = 0;
+  const onDragEnter = (e: FileDragEvent) => {
+    if (!hasFiles(e)) {
+      return;
+    }
+    depth += 1;
+    onDragging?.(true);
+  };
+  const onDragLeave = (e: FileDragEvent) => {
+    if (!hasFiles(e)) {
+      return;
+    }
+    depth = Math.max(0, depth - 1);
+    if (depth === 0) {
+      onDragging?.(false);
+    }
+  };
+  const onDragOver = (e: FileDragEvent) => {
+    if (hasFiles(e)) {
+      e.preventDefault();
+    }
+  };
+  const onDrop = (e: FileDragEvent) => {
+    if (!hasFiles(e)) {
+      return;
+    }
+    e.preventDefault();
+    depth = 0;
+    onDragging?.(false);
+    const files = Array.from(e.dataTransfer?.files ?? []);
+    if (files.length) {
+      onFiles(files.map(toPickedFile));
+    }
+  };
+  const listeners: [string, DragListener][] = [
+    ['dragenter', onDragEnter],
+    ['dragleave', onDragLeave],
+    ['dragover', onDragOver],
+    ['drop', onDrop],
+  ];
+  listeners.forEach(([type, listener]) => browser.document.addEventListener(type, listener));
+  return () => listeners.forEach(([type, listener]) => browser.document.removeEventListener(type, listener));
+}
@@ -0,0 +1,19 @@
+﻿// src/io/exportFile.ts
+// 書き出しファイルの保存（native: DocumentDirectory に保存して共有 / web: ブラウザでダウンロード）
+import { Platform, Share } from 'react-native';
+import RNFS from 'react-native-fs';
+
+export type ExportEncoding = 'utf8' | 'base64';
+
+// 保存先のパスを返す（web は react-native-fs の shim がファイル名でダウンロードさせる）
+export async function exportFile(fileName: string, data: string, encoding: ExportEncoding): Promise<string> {
+  const path = `${RNFS.DocumentDirectoryPath}/${fileName}`;
+  await RNFS.writeFile(path, data, encoding);
+  // iOS は共有シートからファイル保存・送信できる（Android は url 非対応のため保存のみ）
+  if (Platform.OS === 'ios') {
+    try {
+      await Share.share({ url: `file://${path}`, title: fileName });
+    } catch {}
+  }
+  return path;
+}
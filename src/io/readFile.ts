@@ -0,0 +1,37 @@
+﻿// src/io/readFile.ts
+// 選択したファイルをバイト列で読む（文字コード判定のため CSV もバイナリで読む）
+import { Platform } from 'react-native';
+import RNFS from 'react-native-fs';
+import BlobUtil from 'react-native-blob-util';
+
+import { base64ToBytes } from '../import/encoding';
+import { bytesToRows } from '../import/rows';
+import type { FileRows } from '../import/rows';
+
+export type PickedFile = { uri: string; name?: string; type?: string | null };
+
+export async function readBytes(uri: string): Promise<Uint8Array> {
+  if (Platform.OS === 'web') {
+    try {
+      const r = await fetch(uri);
+      if (!r.ok) {
+        throw new Error('ファイルの読み込みに失敗（web）');
+      }
+      return new Uint8Array(await r.arrayBuffer());
+    } finally {
+      // ファイル選択・ドロップで作った blob: の URL は 1 回読んだら解放する
+      if (uri.startsWith('blob:')) {
+        (globalThis as any).URL.revokeObjectURL(uri);
+      }
+    }
+  }
+  if (uri.startsWith('content://')) {
+    return base64ToBytes(await BlobUtil.fs.readFile(uri, 'base64'));
+  }
+  const path = uri.startsWith('file://') ? uri.replace('file://', '') : uri;
+  return base64ToBytes(await RNFS.readFile(path, 'base64'));
+}
+
+export async function readFileRows(file: PickedFile): Promise<FileRows> {
+  return bytesToRows(await readBytes(file.uri), file.name, file.type);
+}
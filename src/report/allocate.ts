@@ -0,0 +1,123 @@
+﻿// src/report/allocate.ts
+// 未振り分け項目の手動配分（DailyReport を受け取り、新しい DailyReport を返す）
+import type { Allocation, AssignBucket, DailyReport, RamenKey } from './types';
+
+export const BUCKET_LABELS: Record<AssignBucket, string> = {
+  normal: '通常',
+  set: 'セット',
+  course: 'コース',
+};
+
+export const bucketField = (bucket: AssignBucket) =>
+  bucket === 'set' ? 'ramenSetTotals' : bucket === 'course' ? 'ramenCourseTotals' : 'ramenTotals';
+
+export const allocationPath = (allocation: Pick<Allocation, 'key' | 'bucket'>) =>
+  `${bucketField(allocation.bucket)}.${allocation.key}`;
+
+export const newAllocationId = () => `alloc_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+// 直前の記録と同じ商品・銘柄・区分なら数量を足す（タップの連打で一覧が伸びないように）
+const logAllocation = (allocations: Allocation[] = [], name: string, key: RamenKey, bucket: AssignBucket, qty: number) => {
+  const last = allocations[allocations.length - 1];
+  const at = new Date().toISOString();
+  if (last && last.name === name && last.key === key && last.bucket === bucket) {
+    return [...allocations.slice(0, -1), { ...last, qty: last.qty + qty, at }];
+  }
+  return [...allocations, { id: newAllocationId(), name, key, bucket, qty, at }];
+};
+
+// 手入力で直した銘柄・区分に配分したら、取込値・修正値を同じ数だけずらす
+// （配分後に取込値へ戻したり修正を引き継いだりしても、配分した数が消えないように）
+const shiftOverride = (report: DailyReport, key: RamenKey, bucket: AssignBucket, qty: number) => {
+  const path = allocationPath({ key, bucket });
+  const override = report.overrides?.[path];
+  if (!override) {
+    return {};
+  }
+  return { overrides: { ...report.overrides, [path]: { imported: override.imported + qty, value: override.value + qty } } };
+};
+
+// amount 省略時は残数すべて。実際に配分できなかった場合は同じ report を返す
+export const assignUnassigned = (
+  report: DailyReport,
+  index: number,
+  key: RamenKey,
+  bucket: AssignBucket,
+  amount?: number
+): DailyReport => {
+  const item = report.unassigned[index];
+  if (!item) {
+    return report;
+  }
+  const requested = amount ?? item.count;
+  const numeric = typeof requested === 'number' && Number.isFinite(requested) ? Math.floor(requested) : item.count;
+  const qty = Math.max(0, Math.min(numeric, item.count));
+  if (qty <= 0) {
+    return report;
+  }
+
+  const field = bucketField(bucket);
+  const unassigned = [...report.unassigned];
+  if (qty >= item.count) {
+    unassigned.splice(index, 1);
+  } else {
+    unassigned[index] = { ...item, count: item.count - qty };
+  }
+
+  return {
+    ...report,
+    [field]: { ...report[field], [key]: (report[field][key] ?? 0) + qty },
+    unassigned,
+    allocations: logAllocation(report.allocations, item.name, key, bucket, qty),
+    ...shiftOverride(report, key, bucket, qty),
+  };
+};
+
+// 未振り分けをまとめて 1 つの銘柄・区分へ計上（まとめ配分後は消す）
+export const assignAllUnassigned = (report: DailyReport, key: RamenKey, bucket: AssignBucket): DailyReport => {
+  if (!report.unassigned.length) {
+    return report;
+  }
+  const addCount = report.unassigned.reduce((s, it) => s + it.count, 0);
+  const field = bucketField(bucket);
+  return {
+    ...report,
+    [field]: { ...report[field], [key]: (report[field][key] ?? 0) + addCount },
+    unassigned: [],
+    allocations: report.unassigned.reduce(
+      (log, it) => logAllocation(log, it.name, key, bucket, it.count),
+      report.allocations ?? []
+    ),
+    ...shiftOverride(report, key, bucket, addCount),
+  };
+};
+
+// 記録 1 件を取り消す：計上した数を銘柄から引き、未振り分けへ戻す
+export const revertAllocation = (report: DailyReport, id: string): DailyReport => {
+  const allocation = report.allocations?.find(a => a.id === id);
+  if (!allocation) {
+    return report;
+  }
+  const { name, key, bucket } = allocation;
+  const field = bucketField(bucket);
+  // 後から手で減らしていた場合は残っている分だけ戻す
+  const qty = Math.min(allocation.qty, report[field][key] ?? 0);
+
+  const unassigned = [...report.unassigned];
+  const index = unassigned.findIndex(it => it.name === name);
+  if (qty > 0) {
+    if (index >= 0) {
+      unassigned[index] = { ...unassigned[index], count: unassigned[index].count + qty };
+    } else {
+      unassigned.push({ name, count: qty });
+    }
+  }
+
+  return {
+    ...report,
+    [field]: { ...report[field], [key]: (report[field][key] ?? 0) - qty },
+    unassigned,
+    allocations: report.allocations!.filter(a => a.id !== id),
+    ...shiftOverride(report, key, bucket, -qty),
+  };
+};
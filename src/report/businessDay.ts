@@ -0,0 +1,68 @@
+﻿// src/report/businessDay.ts
+// 営業日：店のタイムゾーンの日付で数え、区切り時刻より前の売上は前日の営業日に入れる（深夜営業向け）
+import { DATE_COLUMN_CANDS, TIME_COLUMN_CANDS } from './constants';
+import { addDaysISO } from './dates';
+import { firstKeyStr, parseDateISO, parseHour } from './parse';
+
+export type BusinessDaySettings = {
+  // IANA のタイムゾーン名（Asia/Tokyo など）
+  timeZone: string;
+  // 営業日の区切り（時）。4 なら 0:00〜3:59 の売上は前日分
+  cutoffHour: number;
+};
+
+export const DEFAULT_BUSINESS_DAY: BusinessDaySettings = { timeZone: 'Asia/Tokyo', cutoffHour: 0 };
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// 保存値・入力値の補正（不正なタイムゾーンは既定に戻す）
+export const normalizeBusinessDay = (settings: Partial<BusinessDaySettings>): BusinessDaySettings => {
+  const timeZone = String(settings.timeZone ?? '').trim();
+  const cutoffHour = Math.round(Number(settings.cutoffHour));
+  return {
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_BUSINESS_DAY.timeZone,
+    cutoffHour: Number.isFinite(cutoffHour) ? Math.min(23, Math.max(0, cutoffHour)) : DEFAULT_BUSINESS_DAY.cutoffHour,
+  };
+};
+
+// 時刻 → そのタイムゾーンの壁時計の日付と時（端末のタイムゾーンには左右されない）
+export const zonedDateHour = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hour12: false,
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  // 環境によって 0 時が「24」になる
+  return { dateISO: `${part('year')}-${part('month')}-${part('day')}`, hour: Number(part('hour')) % 24 };
+};
+
+export const businessDateOf = (dateISO: string, hour: number, settings: BusinessDaySettings) =>
+  hour < settings.cutoffHour ? addDaysISO(dateISO, -1) : dateISO;
+
+export const todayBusinessISO = (settings: BusinessDaySettings = DEFAULT_BUSINESS_DAY, now = new Date()) => {
+  const { dateISO, hour } = zonedDateHour(now, settings.timeZone);
+  return businessDateOf(dateISO, hour, settings);
+};
+
+// 行の日付列（「2025/9/20 1:30」のように時刻付きならそれ、なければ時刻列）から営業日を出す。
+// POS の日時は店の現地時刻なのでタイムゾーンの変換はしない。時刻がなければ日付のまま
+export const rowBusinessDateISO = (row: Record<string, any>, settings: BusinessDaySettings = DEFAULT_BUSINESS_DAY) => {
+  const text = firstKeyStr(row, DATE_COLUMN_CANDS);
+  const dateISO = parseDateISO(text);
+  if (!dateISO) {
+    return undefined;
+  }
+  const hour = parseHour(text) ?? parseHour(firstKeyStr(row, TIME_COLUMN_CANDS));
+  return hour === undefined ? dateISO : businessDateOf(dateISO, hour, settings);
+};
@@ -0,0 +1,57 @@
+﻿// src/report/cashClosing.ts
+// レジ締め：金種ごとの枚数と釣銭準備金から実査額を出し、データ上の現金売上と比べて過不足を記録する
+
+export const DENOMINATIONS = [10000, 5000, 2000, 1000, 500, 100, 50, 10, 5, 1] as const;
+export type Denomination = (typeof DENOMINATIONS)[number];
+
+export type CashClosing = {
+  // 金種 → 枚数
+  counts: Partial<Record<Denomination, number>>;
+  // 開店時にドロワーに入れた釣銭準備金
+  openingFloat: number;
+  // 日報テキストの末尾に追記するか
+  appendToOutput: boolean;
+  closedAt: string;
+};
+
+export const DENOMINATION_LABELS: Record<Denomination, string> = {
+  10000: '1万円札',
+  5000: '5千円札',
+  2000: '2千円札',
+  1000: '千円札',
+  500: '500円玉',
+  100: '100円玉',
+  50: '50円玉',
+  10: '10円玉',
+  5: '5円玉',
+  1: '1円玉',
+};
+
+export const makeEmptyCashClosing = (): CashClosing => ({
+  counts: {},
+  openingFloat: 0,
+  appendToOutput: false,
+  closedAt: '',
+});
+
+// ドロワー内の現金の合計（釣銭準備金を含む）
+export const countedCash = (closing: CashClosing) =>
+  DENOMINATIONS.reduce((sum, d) => sum + d * (closing.counts[d] ?? 0), 0);
+
+// 実査から釣銭準備金を引いた現金売上
+export const countedSales = (closing: CashClosing) => countedCash(closing) - (closing.openingFloat || 0);
+
+// expectedCash は支払方法別ファイルの現金（payments.cash）。プラスは過剰、マイナスは不足
+export const overShort = (closing: CashClosing, expectedCash: number) => countedSales(closing) - (expectedCash || 0);
+
+const yen = (n: number) => '¥' + n.toLocaleString('ja-JP');
+
+export const overShortLabel = (diff: number) =>
+  diff === 0 ? '過不足なし' : diff > 0 ? `過剰 +${yen(diff)}` : `不足 -${yen(-diff)}`;
+
+export const renderCashClosing = (closing: CashClosing, expectedCash: number) => [
+  'レジ締め',
+  `実査　${yen(countedCash(closing))}（釣銭準備金 ${yen(closing.openingFloat || 0)}）`,
+  `現金売上　${yen(countedSales(closing))}／データ ${yen(expectedCash || 0)}`,
+  overShortLabel(overShort(closing, expectedCash)),
+];
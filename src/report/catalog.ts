@@ -0,0 +1,135 @@
+﻿// src/report/catalog.ts
+// メニューカタログ：銘柄・サイド・コースの定義と判定パターン（設定画面で編集・端末に保存）
+
+export type MenuCategory = 'ramen' | 'side' | 'course';
+
+export type MenuItem = {
+  key: string;
+  label: string;
+  // 表示順（小さいほど上）。判定の優先順は items 配列の並び順
+  order: number;
+  // 正規表現のソース（大文字小文字は無視）
+  patterns: string[];
+  setAllowed: boolean;
+  category: MenuCategory;
+};
+
+export type MenuCatalog = {
+  version: 1;
+  items: MenuItem[];
+  // 完全除外（どこにも出さない）
+  excludePatterns: string[];
+  // 自動計上せず未振り分けへ送る
+  ambiguousPatterns: string[];
+  // 商品名 / カテゴリ列がこれに一致したらコース扱い
+  courseNamePatterns: string[];
+  courseCategoryPatterns: string[];
+  // 銘柄不明でもラーメンらしいもの → 未振り分け
+  ramenishPatterns: string[];
+};
+
+export const MENU_CATEGORY_LABELS: Record<MenuCategory, string> = {
+  ramen: 'ラーメン',
+  side: 'サイド',
+  course: 'コース',
+};
+
+export const DEFAULT_COURSE_LABEL = 'コース';
+
+export const DEFAULT_MENU_CATALOG: MenuCatalog = {
+  version: 1,
+  items: [
+    { key: '雪月花', label: '雪月花', order: 6, patterns: ['雪月花|setsugekka'], setAllowed: false, category: 'ramen' },
+    { key: '雪月', label: '雪月', order: 5, patterns: ['雪月|setsugetsu'], setAllowed: true, category: 'ramen' },
+    { key: '月花', label: '月花', order: 4, patterns: ['月花|gekka'], setAllowed: true, category: 'ramen' },
+    { key: '氷花', label: '氷花', order: 9, patterns: ['氷花|hyouka|hyoka|ice\\s*hana'], setAllowed: false, category: 'ramen' },
+    { key: '花こふれ', label: '花こふれ', order: 7, patterns: ['花こふれ|hana\\s*cof+ret|hana\\s*coffret'], setAllowed: false, category: 'ramen' },
+    { key: 'カレーラーメン', label: 'カレーラーメン', order: 8, patterns: ['(?:カレー|curry).*(?:ラーメン|らーめん|ramen)'], setAllowed: false, category: 'ramen' },
+    { key: '花', label: '花', order: 3, patterns: ['豆乳ラーメン「?花|(?:^|\\s)花(?:」|$)|\\bhana\\b'], setAllowed: true, category: 'ramen' },
+    { key: '月', label: '月（ランチ）', order: 2, patterns: ['(?:「|^|\\s)月(?:」|$)|\\btsuki\\b'], setAllowed: false, category: 'ramen' },
+    { key: '雪', label: '雪（ランチ）', order: 1, patterns: ['(?:「|^|\\s)雪(?:」|$)|\\byuki\\b'], setAllowed: false, category: 'ramen' },
+    { key: 'よくばりカレー', label: 'よくばりカレー', order: 1, patterns: ['よくばり.*カレー'], setAllowed: false, category: 'side' },
+    { key: 'パティカレー', label: 'パティカレー', order: 2, patterns: ['(パティ|ﾊﾟﾃｨ).*(カレー|ｶﾚｰ)'], setAllowed: false, category: 'side' },
+    { key: 'ディナー', label: 'ディナー', order: 1, patterns: ['ディナー|dinner'], setAllowed: false, category: 'course' },
+    { key: 'クラファンコース', label: 'クラファンコース', order: 2, patterns: ['クラファン'], setAllowed: false, category: 'course' },
+  ],
+  excludePatterns: ['月花.*コース'],
+  // 「ラーメン『花』or『月花』…セット…」は手動で 花/月花(セット) 選択
+  ambiguousPatterns: ['ラーメン.*(?:「|『)?花(?:」|』)?\\s*or\\s*(?:「|『)?月花(?:」|』)?.*セット'],
+  courseNamePatterns: ['コース|course'],
+  courseCategoryPatterns: ['予約メニュー|予約|コース|course'],
+  ramenishPatterns: ['ラーメン|らーめん|麺|ramen'],
+};
+
+export const toRegExp = (source: string) => new RegExp(source, 'i');
+
+// 保存前チェック用：不正な正規表現を列挙
+export const findInvalidPatterns = (catalog: MenuCatalog): string[] => {
+  const all = [
+    ...catalog.items.flatMap(it => it.patterns),
+    ...catalog.excludePatterns,
+    ...catalog.ambiguousPatterns,
+    ...catalog.courseNamePatterns,
+    ...catalog.courseCategoryPatterns,
+    ...catalog.ramenishPatterns,
+  ];
+  return all.filter(src => {
+    try {
+      toRegExp(src);
+      return false;
+    } catch {
+      return true;
+    }
+  });
+};
+
+export type CompiledMenuItem = MenuItem & { regexps: RegExp[] };
+
+export type CompiledCatalog = {
+  ramen: CompiledMenuItem[];
+  sides: CompiledMenuItem[];
+  courses: CompiledMenuItem[];
+  exclude: RegExp[];
+  ambiguous: RegExp[];
+  courseName: RegExp[];
+  courseCategory: RegExp[];
+  ramenish: RegExp[];
+};
+
+const compilePatterns = (sources: string[]) => {
+  const out: RegExp[] = [];
+  sources.forEach(src => {
+    try {
+      out.push(toRegExp(src));
+    } catch {
+      // 不正なパターンは無視（設定画面で保存前に弾く）
+    }
+  });
+  return out;
+};
+
+export const compileCatalog = (catalog: MenuCatalog): CompiledCatalog => {
+  const compiled = catalog.items.map(it => ({ ...it, regexps: compilePatterns(it.patterns) }));
+  return {
+    ramen: compiled.filter(it => it.category === 'ramen'),
+    sides: compiled.filter(it => it.category === 'side'),
+    courses: compiled.filter(it => it.category === 'course'),
+    exclude: compilePatterns(catalog.excludePatterns),
+    ambiguous: compilePatterns(catalog.ambiguousPatterns),
+    courseName: compilePatterns(catalog.courseNamePatterns),
+    courseCategory: compilePatterns(catalog.courseCategoryPatterns),
+    ramenish: compilePatterns(catalog.ramenishPatterns),
+  };
+};
+
+export const matchesAny = (regexps: RegExp[], text: string) => regexps.some(rx => rx.test(text));
+
+export const itemsByCategory = (catalog: MenuCatalog, category: MenuCategory) =>
+  catalog.items.filter(it => it.category === category);
+
+// 表示順に並べた銘柄
+export const displayItems = (catalog: MenuCatalog, category: MenuCategory) =>
+  itemsByCategory(catalog, category).slice().sort((a, b) => a.order - b.order);
+
+export const labelOf = (catalog: MenuCatalog, key: string) =>
+  catalog.items.find(it => it.key === key)?.label ?? key;
@@ -0,0 +1,103 @@
+﻿// src/report/combined.ts
+// 全店舗の合算（1日・任意期間）と店舗別の内訳
+import type { MenuCatalog } from './catalog';
+import type { DailyRecord } from './history';
+import { computeKpis } from './kpi';
+import { DEFAULT_PAYMENT_METHODS } from './payments';
+import type { PaymentMethod } from './payments';
+import { aggregatePeriod, renderPeriodOutput } from './period';
+import type { PeriodDay, PeriodReport } from './period';
+import { jpCurrency } from './render';
+import type { Store } from './stores';
+
+export type StoreRecords = { store: Store; records: DailyRecord[] };
+
+export type StorePeriod = { store: Store; period: PeriodReport };
+
+// 合計は全店舗分、days は同じ日の店舗分をまとめた 1 日 1 行
+export type CombinedReport = PeriodReport & { stores: StorePeriod[] };
+
+const sumTotals = (list: Record<string, number>[]) =>
+  list.reduce<Record<string, number>>((acc, totals) => {
+    Object.entries(totals).forEach(([k, n]) => (acc[k] = (acc[k] ?? 0) + (n ?? 0)));
+    return acc;
+  }, {});
+
+// 同じ日の店舗分を 1 日分の日報として足してから指標を出す（比率・単価は店舗ごとの値を足せないため）
+const mergedKpis = (sameDay: DailyRecord[]) => {
+  if (sameDay.length === 1) {
+    return sameDay[0].kpis ?? computeKpis(sameDay[0]);
+  }
+  const [first] = sameDay;
+  return computeKpis({
+    ...first,
+    meta: {
+      ...first.meta,
+      payments: sumTotals(sameDay.map(r => r.meta.payments)),
+      groups: sameDay.reduce((s, r) => s + r.meta.groups, 0),
+      people: sameDay.reduce((s, r) => s + r.meta.people, 0),
+    },
+    ramenTotals: sumTotals(sameDay.map(r => r.ramenTotals)),
+    ramenSetTotals: sumTotals(sameDay.map(r => r.ramenSetTotals)),
+    ramenCourseTotals: sumTotals(sameDay.map(r => r.ramenCourseTotals)),
+    coursePeople: sameDay.flatMap(r => r.coursePeople),
+  });
+};
+
+const mergeDays = (days: PeriodDay[], records: DailyRecord[]): PeriodDay[] => {
+  const byDate = new Map<string, PeriodDay>();
+  days.forEach(d => {
+    const prev = byDate.get(d.dateISO);
+    if (!prev) {
+      byDate.set(d.dateISO, { ...d, payments: { ...d.payments } });
+      return;
+    }
+    Object.entries(d.payments).forEach(([k, n]) => (prev.payments[k] = (prev.payments[k] ?? 0) + (n ?? 0)));
+    prev.otherTotal += d.otherTotal;
+    prev.total += d.total;
+    prev.groups += d.groups;
+    prev.people += d.people;
+    prev.bowls += d.bowls;
+  });
+  return Array.from(byDate.values()).map(d => ({
+    ...d,
+    kpis: mergedKpis(records.filter(r => r.meta.dateISO === d.dateISO)),
+  }));
+};
+
+export const combinePeriod = (entries: StoreRecords[], fromISO: string, toISO: string): CombinedReport => {
+  const allRecords = entries.flatMap(e => e.records);
+  const all = aggregatePeriod(allRecords, fromISO, toISO);
+  return {
+    ...all,
+    days: mergeDays(all.days, allRecords),
+    stores: entries.map(({ store, records }) => ({ store, period: aggregatePeriod(records, fromISO, toISO) })),
+  };
+};
+
+export const storeBreakdownRows = (combined: CombinedReport) =>
+  combined.stores.map(({ store, period }) => ({
+    store,
+    total: period.payments.total,
+    groups: period.groups,
+    people: period.people,
+    bowls: period.days.reduce((s, d) => s + d.bowls, 0),
+    days: period.days.length,
+  }));
+
+// 期間レポートの下に店舗別の内訳を付ける
+export const renderCombinedOutput = (
+  combined: CombinedReport,
+  catalog: MenuCatalog,
+  methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS
+) => {
+  const lines = [`全店舗合算（${combined.stores.length}店舗）`, renderPeriodOutput(combined, catalog, methods)];
+  if (!combined.days.length) {
+    return lines.join('\n');
+  }
+  lines.push('', '店舗別');
+  storeBreakdownRows(combined).forEach(r => {
+    lines.push(`・${r.store.name}　${jpCurrency(r.total)}　${r.groups}組　${r.people}人　${r.bowls}杯（日報${r.days}日分）`);
+  });
+  return lines.join('\n');
+};
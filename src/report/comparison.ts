@@ -0,0 +1,97 @@
+﻿// src/report/comparison.ts
+// 前週同曜日・前年同日との比較と、売上目標（日・月）の達成状況。保存済みの履歴から作る
+import { addDaysISO, addMonthsISO } from './dates';
+import type { DailyRecord } from './history';
+import { bowlsOf } from './period';
+import type { DailyReport } from './types';
+
+// 円。0 は未設定
+export type SalesTargets = { daily: number; monthly: number };
+
+export const DEFAULT_SALES_TARGETS: SalesTargets = { daily: 0, monthly: 0 };
+
+// 日報テキストに比較・目標を載せるか（既定は載せない）
+export type ComparisonDisplaySettings = { append: boolean };
+
+export const DEFAULT_COMPARISON_DISPLAY: ComparisonDisplaySettings = { append: false };
+
+export type CompareMetric = 'total' | 'people' | 'bowls';
+
+export const COMPARE_METRICS: CompareMetric[] = ['total', 'people', 'bowls'];
+
+// ratio は基準に対する増減の割合（基準が 0 のときはなし）
+export type MetricDiff = { current: number; base: number; diff: number; ratio?: number };
+
+export type BaseComparison = { dateISO: string; metrics: Record<CompareMetric, MetricDiff> };
+
+// progress は目標に対する達成率
+export type TargetProgress = { target: number; actual: number; diff: number; progress: number };
+
+export type DayComparison = {
+  lastWeek?: BaseComparison;
+  lastYear?: BaseComparison;
+  dailyTarget?: TargetProgress;
+  // 月初からこの日までの売上（保存済みの日 + この日）
+  monthToDate: { fromISO: string; total: number; days: number };
+  monthlyTarget?: TargetProgress;
+};
+
+// 比率は小数3桁（0.1% 単位）
+const rate = (part: number, whole: number) => Math.round((part / whole) * 1000) / 1000;
+
+export const diffOf = (current: number, base: number): MetricDiff => ({
+  current,
+  base,
+  diff: current - base,
+  ...(base > 0 ? { ratio: rate(current - base, base) } : {}),
+});
+
+const progressOf = (actual: number, target: number): TargetProgress | undefined =>
+  target > 0 ? { target, actual, diff: actual - target, progress: rate(actual, target) } : undefined;
+
+const figuresOf = (report: DailyReport): Record<CompareMetric, number> => ({
+  total: report.meta.payments.total ?? 0,
+  people: report.meta.people,
+  bowls: bowlsOf(report),
+});
+
+export const lastWeekISO = (iso: string) => addDaysISO(iso, -7);
+
+// 前年の同じ日付（2/29 は 2/28）
+export const lastYearISO = (iso: string) => addMonthsISO(iso, -12);
+
+const compareWith = (current: Record<CompareMetric, number>, base?: DailyRecord): BaseComparison | undefined => {
+  if (!base) {
+    return undefined;
+  }
+  const prev = figuresOf(base);
+  const metrics = Object.fromEntries(COMPARE_METRICS.map(m => [m, diffOf(current[m], prev[m])]));
+  return { dateISO: base.meta.dateISO, metrics: metrics as Record<CompareMetric, MetricDiff> };
+};
+
+// この日は履歴ではなく画面の数値（保存前・手入力の修正後）を使う
+export const buildComparison = (
+  report: DailyReport,
+  records: DailyRecord[],
+  targets: SalesTargets = DEFAULT_SALES_TARGETS
+): DayComparison => {
+  const { dateISO } = report.meta;
+  const current = figuresOf(report);
+  const find = (iso: string) => records.find(r => r.meta.dateISO === iso);
+  const lastWeek = compareWith(current, find(lastWeekISO(dateISO)));
+  const lastYear = compareWith(current, find(lastYearISO(dateISO)));
+
+  const fromISO = `${dateISO.slice(0, 8)}01`;
+  const earlier = records.filter(r => r.meta.dateISO >= fromISO && r.meta.dateISO < dateISO);
+  const total = earlier.reduce((s, r) => s + (r.meta.payments.total ?? 0), current.total);
+  const dailyTarget = progressOf(current.total, targets.daily);
+  const monthlyTarget = progressOf(total, targets.monthly);
+
+  return {
+    ...(lastWeek ? { lastWeek } : {}),
+    ...(lastYear ? { lastYear } : {}),
+    ...(dailyTarget ? { dailyTarget } : {}),
+    monthToDate: { fromISO, total, days: earlier.length + 1 },
+    ...(monthlyTarget ? { monthlyTarget } : {}),
+  };
+};
@@ -0,0 +1,63 @@
+﻿// src/report/constants.ts
+import type { TaxField } from './tax';
+
+export const EXTRA_PAYMENT_IGNORE = [
+  '会計数', '組数', 'groups', 'group count',
+  '客数', '来客数', '人数', 'customers',
+];
+
+// other に入れない統計列（税/割引/内訳など）
+export const STATS_IGNORE_COLUMNS = [
+  '集計期間',
+  '割引前 売上高',
+  '売上高（税抜き）',
+  '売上高（非課税）',
+  '内消費税（合計）',
+  '内消費税（10%標準）',
+  '内消費税（8%軽減）',
+  '売上高（10%標準）',
+  '売上高（8%軽減）',
+  '会計単価',
+  '客単価',
+  '商品販売数',
+  // 追加の割引用語
+  '割引合計_1',
+  '会計割引',
+  '割引合計',
+  '割引',
+];
+
+// 税・割引の内訳の列（report/tax.ts）。上の除外列のうち経理で使うもの
+export const TAX_COLUMN_CANDS: Record<TaxField, string[]> = {
+  preTax: ['売上高（税抜き）', '売上高 (税抜き)', '税抜売上', '税抜き売上高'],
+  standardSales: ['売上高（10%標準）', '売上高 (10%標準)', '10%対象売上'],
+  reducedSales: ['売上高（8%軽減）', '売上高 (8%軽減)', '8%対象売上'],
+  tax10: ['内消費税（10%標準）', '内消費税 (10%標準)', '消費税（10%）', '内税10%'],
+  tax8: ['内消費税（8%軽減）', '内消費税 (8%軽減)', '消費税（8%）', '内税8%'],
+  nonTaxable: ['売上高（非課税）', '売上高 (非課税)', '非課税売上'],
+  discount: ['割引合計', '割引合計_1'],
+  receiptDiscount: ['会計割引'],
+};
+
+// 商品名・数量・カテゴリの候補キー
+export const PRODUCT_NAME_CANDS = ['商品名', '品名', 'メニュー', '商品', 'Item Name', 'item', 'name'];
+export const PRODUCT_QTY_CANDS = ['商品販売数', '販売数', '数量', '個数', 'Quantity', 'Qty'];
+export const PRODUCT_CATEGORY_CANDS = ['カテゴリ', 'カテゴリー', 'category', 'Category'];
+export const GROUP_CANDS = ['会計数', '組数', 'groups', 'group count'];
+export const PEOPLE_CANDS = ['客数', '来客数', '人数', 'customers'];
+// 支払方法別ファイルの販売点数（商品別の数量合計との照合に使う）
+export const SOLD_ITEMS_CANDS = ['商品販売数'];
+// 会計明細（1行 = 1会計）の会計ID。組数は会計IDの種類数で数える
+export const RECEIPT_ID_CANDS = ['取引ID', '会計ID', '伝票番号', 'レシート番号', '予約番号', 'Transaction ID'];
+// 日付列（複数日ファイルの分割・日付検出に使う）
+export const DATE_COLUMN_CANDS = ['集計期間', '日付', '営業日', '売上日', '日時', 'Date', 'date'];
+// 日付と時刻が別の列のとき（営業日の区切りの判定用）
+export const TIME_COLUMN_CANDS = ['時刻', '時間', 'Time', 'time'];
+
+// コースの価格・人数抽出
+export const NAME_PEOPLE_PATTERN = /(\d+)名/;
+export const PRICE_PATTERN = /(\d{4,5})/;
+
+// セット判定（商品名 / カテゴリ）
+export const SET_NAME_PATTERN = /(セット|set\b)/i;
+export const SET_CATEGORY_PATTERN = /セット/i;
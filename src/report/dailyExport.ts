@@ -0,0 +1,210 @@
+﻿// src/report/dailyExport.ts
+// 1日分の日報 → JSON / CSV / XLSX（他システム・経理への受け渡し用）
+import * as XLSX from 'xlsx';
+
+import { countedCash, countedSales, overShort } from './cashClosing';
+import { DEFAULT_COURSE_LABEL, displayItems } from './catalog';
+import type { MenuCatalog } from './catalog';
+import type { SourceFiles } from './history';
+import { BUCKET_LABELS } from './allocate';
+import { CASH_KEY, DEFAULT_PAYMENT_METHODS, TOTAL_KEY, TOTAL_LABEL, paymentRows, sortPaymentMethods } from './payments';
+import type { PaymentMethod } from './payments';
+import { TAX_FIELDS, TAX_LABELS } from './tax';
+import type { TaxBreakdown } from './tax';
+import type { CoursePeopleEntry, DailyReport, OtherPayment, PaymentKey, UnassignedItem } from './types';
+
+// JSON の形を変えたら version を上げる（受け取り側はここを見て読み分ける）
+// 2: 税・割引の内訳（tax）を追加
+// 3: payments をキー・名前・金額の一覧に変更（登録した支払方法のキーだけでは何の支払か読めないため）
+export const DAILY_EXPORT_SCHEMA = 'ramen-daily-report';
+export const DAILY_EXPORT_VERSION = 3;
+
+// 先頭は売上（total）、続けて支払方法の表示順
+export type DailyExportPayment = { key: PaymentKey; label: string; amount: number };
+
+export type DailyExportRamen = { key: string; label: string; normal: number; set: number; course: number; total: number };
+
+export type DailyExportDocument = {
+  schema: typeof DAILY_EXPORT_SCHEMA;
+  version: typeof DAILY_EXPORT_VERSION;
+  exportedAt: string;
+  dateISO: string;
+  sourceFiles: SourceFiles;
+  payments: DailyExportPayment[];
+  otherPayments: OtherPayment[];
+  // 税の列がないファイルの日は null
+  tax: TaxBreakdown | null;
+  groups: number;
+  people: number;
+  ramen: DailyExportRamen[];
+  sides: { key: string; label: string; count: number }[];
+  courses: CoursePeopleEntry[];
+  unassigned: UnassignedItem[];
+  cashClosing: {
+    counted: number;
+    openingFloat: number;
+    sales: number;
+    overShort: number;
+    closedAt: string;
+  } | null;
+};
+
+type Cell = string | number;
+
+// カタログにない銘柄（古い履歴など）も末尾に出す
+export const dailyRamenRows = (report: DailyReport, catalog: MenuCatalog): DailyExportRamen[] => {
+  const items = displayItems(catalog, 'ramen').map(({ key, label }) => ({ key, label }));
+  const known = new Set(items.map(it => it.key));
+  [report.ramenTotals, report.ramenSetTotals, report.ramenCourseTotals].forEach(totals =>
+    Object.keys(totals).forEach(key => {
+      if (!known.has(key)) {
+        known.add(key);
+        items.push({ key, label: key });
+      }
+    })
+  );
+  return items.map(({ key, label }) => {
+    const normal = report.ramenTotals[key] ?? 0;
+    const set = report.ramenSetTotals[key] ?? 0;
+    const course = report.ramenCourseTotals[key] ?? 0;
+    return { key, label, normal, set, course, total: normal + set + course };
+  });
+};
+
+const dailySideRows = (report: DailyReport, catalog: MenuCatalog) => {
+  const items = displayItems(catalog, 'side').map(({ key, label }) => ({ key, label }));
+  const known = new Set(items.map(it => it.key));
+  Object.keys(report.meta.sides).forEach(key => {
+    if (!known.has(key)) {
+      items.push({ key, label: key });
+    }
+  });
+  return items.map(it => ({ ...it, count: report.meta.sides[it.key] ?? 0 }));
+};
+
+export const toDailyExport = (
+  report: DailyReport,
+  catalog: MenuCatalog,
+  methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS,
+  sourceFiles: SourceFiles = {},
+  exportedAt = new Date().toISOString()
+): DailyExportDocument => {
+  const { meta, cashClosing } = report;
+  return {
+    schema: DAILY_EXPORT_SCHEMA,
+    version: DAILY_EXPORT_VERSION,
+    exportedAt,
+    dateISO: meta.dateISO,
+    sourceFiles,
+    payments: [
+      { key: TOTAL_KEY, label: TOTAL_LABEL, amount: meta.payments[TOTAL_KEY] ?? 0 },
+      ...paymentRows(meta.payments, methods),
+    ],
+    otherPayments: meta.otherPayments.map(p => ({ ...p })),
+    tax: meta.tax ? { ...meta.tax } : null,
+    groups: meta.groups,
+    people: meta.people,
+    ramen: dailyRamenRows(report, catalog),
+    sides: dailySideRows(report, catalog),
+    courses: report.coursePeople.map(c => ({ ...c })),
+    unassigned: report.unassigned.map(u => ({ name: u.name, count: u.count })),
+    cashClosing: cashClosing
+      ? {
+        counted: countedCash(cashClosing),
+        openingFloat: cashClosing.openingFloat || 0,
+        sales: countedSales(cashClosing),
+        overShort: overShort(cashClosing, meta.payments[CASH_KEY] ?? 0),
+        closedAt: cashClosing.closedAt,
+      }
+      : null,
+  };
+};
+
+export const dailyToJson = (
+  report: DailyReport,
+  catalog: MenuCatalog,
+  methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS,
+  sourceFiles: SourceFiles = {}
+) => JSON.stringify(toDailyExport(report, catalog, methods, sourceFiles), null, 2);
+
+// CSV の列。カタログの並びで決まり、0 の項目も省かない（日をまたいで同じ列になる）
+export type DailyCsvColumn = { header: string; value: (report: DailyReport) => Cell };
+
+const courseLabels = (catalog: MenuCatalog) => {
+  const labels = displayItems(catalog, 'course').map(it => it.label);
+  return labels.includes(DEFAULT_COURSE_LABEL) ? labels : [...labels, DEFAULT_COURSE_LABEL];
+};
+
+// 支払の列も設定の支払方法で決まる（その日に使われなかった支払方法も 0 で出す）
+export const dailyCsvColumns = (catalog: MenuCatalog, methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS): DailyCsvColumn[] => [
+  { header: '日付', value: r => r.meta.dateISO },
+  { header: TOTAL_LABEL, value: r => r.meta.payments[TOTAL_KEY] ?? 0 },
+  ...sortPaymentMethods(methods).map(m => ({ header: m.label, value: (r: DailyReport) => r.meta.payments[m.key] ?? 0 })),
+  { header: 'その他決済', value: r => r.meta.otherPayments.reduce((s, p) => s + p.amount, 0) },
+  ...TAX_FIELDS.map(f => ({ header: TAX_LABELS[f], value: (r: DailyReport) => r.meta.tax?.[f] ?? 0 })),
+  { header: '組数', value: r => r.meta.groups },
+  { header: '人数', value: r => r.meta.people },
+  ...displayItems(catalog, 'ramen').flatMap(({ key, label }) => [
+    { header: `${label}（${BUCKET_LABELS.normal}）`, value: (r: DailyReport) => r.ramenTotals[key] ?? 0 },
+    { header: `${label}（${BUCKET_LABELS.set}）`, value: (r: DailyReport) => r.ramenSetTotals[key] ?? 0 },
+    { header: `${label}（${BUCKET_LABELS.course}）`, value: (r: DailyReport) => r.ramenCourseTotals[key] ?? 0 },
+  ]),
+  ...displayItems(catalog, 'side').map(({ key, label }) => ({
+    header: label,
+    value: (r: DailyReport) => r.meta.sides[key] ?? 0,
+  })),
+  ...courseLabels(catalog).map(label => ({
+    header: `${label}（人数）`,
+    value: (r: DailyReport) => r.coursePeople.filter(c => c.label === label).reduce((s, c) => s + c.count, 0),
+  })),
+  { header: '未振り分け件数', value: r => r.unassigned.length },
+];
+
+export const dailyToCsv = (report: DailyReport, catalog: MenuCatalog, methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS) => {
+  const columns = dailyCsvColumns(catalog, methods);
+  const sheet = XLSX.utils.aoa_to_sheet([columns.map(c => c.header), columns.map(c => c.value(report))]);
+  // Excel で文字化けしないよう BOM 付き
+  return '\uFEFF' + XLSX.utils.sheet_to_csv(sheet);
+};
+
+export const dailyToWorkbook = (report: DailyReport, catalog: MenuCatalog, methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS) => {
+  const { meta } = report;
+  const wb = XLSX.utils.book_new();
+
+  const payments: Cell[][] = [['支払方法', '金額'], [TOTAL_LABEL, meta.payments[TOTAL_KEY] ?? 0]];
+  paymentRows(meta.payments, methods).forEach(({ label, amount }) => payments.push([label, amount]));
+  meta.otherPayments.forEach(({ label, amount }) => payments.push([label, amount]));
+  payments.push([], ['組数', meta.groups], ['人数', meta.people]);
+  const { tax } = meta;
+  if (tax) {
+    payments.push([], ['税・割引', '金額']);
+    TAX_FIELDS.forEach(f => payments.push([TAX_LABELS[f], tax[f]]));
+  }
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(payments), '支払');
+
+  const ramen: Cell[][] = [['銘柄', BUCKET_LABELS.normal, BUCKET_LABELS.set, BUCKET_LABELS.course, '合計']];
+  dailyRamenRows(report, catalog).forEach(r => ramen.push([r.label, r.normal, r.set, r.course, r.total]));
+  dailySideRows(report, catalog).forEach((s, i) => {
+    if (i === 0) {
+      ramen.push([], ['サイド', '杯数']);
+    }
+    ramen.push([s.label, s.count]);
+  });
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(ramen), 'ラーメン');
+
+  const course: Cell[][] = [['コース', '価格', '人数']];
+  report.coursePeople.forEach(c => course.push([c.label, c.price, c.count]));
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(course), 'コース');
+
+  const unassigned: Cell[][] = [['商品名', '数量']];
+  report.unassigned.forEach(u => unassigned.push([u.name, u.count]));
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(unassigned), '未振り分け');
+
+  return wb;
+};
+
+export const dailyToXlsxBase64 = (
+  report: DailyReport,
+  catalog: MenuCatalog,
+  methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS
+): string => XLSX.write(dailyToWorkbook(report, catalog, methods), { type: 'base64', bookType: 'xlsx' });
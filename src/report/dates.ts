@@ -0,0 +1,44 @@
+﻿// src/report/dates.ts
+// YYYY-MM-DD の日付計算（タイムゾーンの影響を受けないよう UTC で扱う）
+
+const toUTCDate = (iso: string) => new Date(iso + 'T00:00:00Z');
+const toISO = (d: Date) => d.toISOString().slice(0, 10);
+
+export const addDaysISO = (iso: string, days: number) => {
+  const d = toUTCDate(iso);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toISO(d);
+};
+
+export const addMonthsISO = (iso: string, months: number) => {
+  const d = toUTCDate(iso);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  const last = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, last));
+  return toISO(d);
+};
+
+// 0 = 日曜
+export const weekdayOf = (iso: string) => toUTCDate(iso).getUTCDay();
+
+export const daysBetweenISO = (fromISO: string, toISO_: string) =>
+  Math.round((toUTCDate(toISO_).getTime() - toUTCDate(fromISO).getTime()) / 86400000);
+
+export const isISODate = (s: string) => /^\d{4}-\d{2}-\d{2}$/.test(s) && !Number.isNaN(toUTCDate(s).getTime());
+
+export type PeriodKind = 'day' | 'week' | 'month';
+
+// 週は月曜始まり
+export const periodRangeOf = (kind: PeriodKind, anchorISO: string) => {
+  if (kind === 'day') {
+    return { fromISO: anchorISO, toISO: anchorISO };
+  }
+  if (kind === 'week') {
+    const fromISO = addDaysISO(anchorISO, -((weekdayOf(anchorISO) + 6) % 7));
+    return { fromISO, toISO: addDaysISO(fromISO, 6) };
+  }
+  const fromISO = `${anchorISO.slice(0, 7)}-01`;
+  return { fromISO, toISO: addDaysISO(addMonthsISO(fromISO, 1), -1) };
+};
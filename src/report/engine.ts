@@ -0,0 +1,293 @@
+﻿// src/report/engine.ts
+// 商品別・支払方法別の行から 1 日分の DailyReport を組み立てる（UI 非依存）
+import { DEFAULT_BUSINESS_DAY, rowBusinessDateISO, todayBusinessISO } from './businessDay';
+import type { BusinessDaySettings } from './businessDay';
+import {
+  DEFAULT_COURSE_LABEL,
+  compileCatalog,
+  itemsByCategory,
+  matchesAny,
+} from './catalog';
+import type { CompiledCatalog, MenuCatalog } from './catalog';
+import {
+  DATE_COLUMN_CANDS,
+  EXTRA_PAYMENT_IGNORE,
+  GROUP_CANDS,
+  NAME_PEOPLE_PATTERN,
+  PEOPLE_CANDS,
+  PRICE_PATTERN,
+  PRODUCT_CATEGORY_CANDS,
+  PRODUCT_NAME_CANDS,
+  PRODUCT_QTY_CANDS,
+  SET_CATEGORY_PATTERN,
+  SET_NAME_PATTERN,
+  SOLD_ITEMS_CANDS,
+  STATS_IGNORE_COLUMNS,
+  TAX_COLUMN_CANDS,
+  TIME_COLUMN_CANDS,
+} from './constants';
+import { firstByCandidates, firstKeyStr, norm, toNum } from './parse';
+import {
+  DEFAULT_PAYMENT_METHODS,
+  TOTAL_ALIASES,
+  TOTAL_KEY,
+  makeEmptyPayments,
+  paymentAliases,
+  paymentKeys,
+  paymentLabel,
+  sortPaymentMethods,
+} from './payments';
+import type { PaymentMethod } from './payments';
+import { applyLearnedRules } from './rules';
+import type { LearnedRule } from './rules';
+import { parseTax } from './tax';
+import type {
+  CoursePeopleEntry,
+  DailyReport,
+  DailyReportInput,
+  MetaState,
+  OtherPayment,
+  PaymentKey,
+  RamenKey,
+  SetTotals,
+  StatsRow,
+  Totals,
+  UnassignedItem,
+} from './types';
+
+// 銘柄判定：items の並び順で最初に一致したもの
+export const guessRamenKey = (raw: string, compiled: CompiledCatalog): RamenKey | undefined =>
+  compiled.ramen.find(it => matchesAny(it.regexps, String(raw)))?.key;
+
+export const guessSideKey = (raw: string, compiled: CompiledCatalog): string | undefined =>
+  compiled.sides.find(it => matchesAny(it.regexps, String(raw)))?.key;
+
+const courseLabelOf = (name: string, compiled: CompiledCatalog) =>
+  compiled.courses.find(it => matchesAny(it.regexps, name))?.label ?? DEFAULT_COURSE_LABEL;
+
+const zeroByKeys = (keys: string[]) => {
+  const out: Record<string, number> = {};
+  keys.forEach(k => (out[k] = 0));
+  return out;
+};
+
+export const makeEmptyTotals = (catalog: MenuCatalog): Totals =>
+  zeroByKeys(itemsByCategory(catalog, 'ramen').map(it => it.key));
+export const makeEmptySetTotals = (catalog: MenuCatalog): SetTotals => makeEmptyTotals(catalog);
+export const makeEmptySides = (catalog: MenuCatalog) =>
+  zeroByKeys(itemsByCategory(catalog, 'side').map(it => it.key));
+
+export const makeEmptyReport = (dateISO: string, catalog: MenuCatalog): DailyReport => ({
+  meta: {
+    dateISO,
+    payments: makeEmptyPayments(),
+    otherPayments: [],
+    groups: 0,
+    people: 0,
+    sides: makeEmptySides(catalog),
+  },
+  ramenTotals: makeEmptyTotals(catalog),
+  ramenSetTotals: makeEmptySetTotals(catalog),
+  ramenCourseTotals: makeEmptySetTotals(catalog),
+  coursePeople: [],
+  unassigned: [],
+  autoResolved: [],
+});
+
+const buildPaymentAliasMap = (methods: PaymentMethod[]) => {
+  const map = new Map<string, PaymentKey>();
+  paymentKeys(methods).forEach(key => {
+    paymentAliases(methods, key).forEach(alias => map.set(norm(alias), key));
+  });
+  // 支払方法は表示名と同じ列名も拾う（売上は表示名が一般的すぎるので別名のみ）
+  sortPaymentMethods(methods).forEach(m => {
+    if (!map.has(norm(m.label))) {
+      map.set(norm(m.label), m.key);
+    }
+  });
+  return map;
+};
+
+// ===== 支払 正規化 =====
+export const parsePayments = (dayRow: StatsRow, methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS) => {
+  const payments = makeEmptyPayments(methods);
+  const aliasMap = buildPaymentAliasMap(methods);
+
+  // other に入れないキー（合計・既知決済・集客・税/割引/内訳など）
+  const ignoreSet = new Set<string>();
+  aliasMap.forEach((_v, k) => ignoreSet.add(k));
+  paymentKeys(methods).forEach(k => ignoreSet.add(norm(paymentLabel(methods, k))));
+  EXTRA_PAYMENT_IGNORE.forEach(l => ignoreSet.add(norm(l)));
+  STATS_IGNORE_COLUMNS.forEach(l => ignoreSet.add(norm(l)));
+  Object.values(TAX_COLUMN_CANDS).flat().forEach(l => ignoreSet.add(norm(l)));
+  DATE_COLUMN_CANDS.forEach(l => ignoreSet.add(norm(l)));
+  TIME_COLUMN_CANDS.forEach(l => ignoreSet.add(norm(l)));
+
+  const otherPayments: OtherPayment[] = [];
+  Object.entries(dayRow).forEach(([rawKey, rawValue]) => {
+    const amount = toNum(rawValue);
+    if (!amount) {
+      return;
+    }
+    const nk = norm(rawKey);
+    const pkey = aliasMap.get(nk);
+    // total はここで加算しない（後で税込み1本だけ採用）
+    if (pkey && pkey !== TOTAL_KEY) {
+      payments[pkey] += amount;
+      return;
+    }
+    if (ignoreSet.has(nk)) {
+      return;
+    }
+    otherPayments.push({ label: rawKey, amount });
+  });
+
+  // 税込み合計の先頭ヒットだけを total に採用
+  const fixedTotal = TOTAL_ALIASES.map(c => firstByCandidates(dayRow, [c])).find(v => v > 0) ?? 0;
+  if (fixedTotal) {
+    payments[TOTAL_KEY] = fixedTotal;
+  }
+
+  return { payments, otherPayments };
+};
+
+// ===== 日付 =====
+const dateISOFromFileName = (fileName?: string) => {
+  const m = String(fileName ?? '').match(/(20\d{2})年?0?(\d{1,2})月?0?(\d{1,2})日?/);
+  return m ? `${m[1]}-${String(m[2]).padStart(2, '0')}-${String(m[3]).padStart(2, '0')}` : undefined;
+};
+
+// 集計期間などの日付列 → ファイル名 → 今日の営業日の順
+export const detectDateISO = (
+  dayRow: StatsRow,
+  statsFileName?: string,
+  productFileName?: string,
+  businessDay: BusinessDaySettings = DEFAULT_BUSINESS_DAY
+) => {
+  return rowBusinessDateISO(dayRow, businessDay)
+    ?? dateISOFromFileName(statsFileName)
+    ?? dateISOFromFileName(productFileName)
+    ?? todayBusinessISO(businessDay);
+};
+
+// ===== 商品集計：通常/セット/コース、サイド、人数コース =====
+export const classifyProducts = (productRows: DailyReportInput['productRows'], catalog: MenuCatalog) => {
+  const compiled = compileCatalog(catalog);
+  const ramenTotals = makeEmptyTotals(catalog);
+  const ramenSetTotals = makeEmptySetTotals(catalog);
+  const ramenCourseTotals = makeEmptySetTotals(catalog); // 手動で“コース杯”加算可能
+  const sides = makeEmptySides(catalog);
+  const unassigned: UnassignedItem[] = [];
+  const coursePeople: CoursePeopleEntry[] = [];
+
+  for (const row of productRows) {
+    const name = firstKeyStr(row, PRODUCT_NAME_CANDS);
+    const count = firstByCandidates(row, PRODUCT_QTY_CANDS);
+    if (!count) {
+      continue;
+    }
+
+    const category = firstKeyStr(row, PRODUCT_CATEGORY_CANDS);
+
+    // 0) 完全除外（どの集計にも加算しない）
+    if (matchesAny(compiled.exclude, name)) {
+      continue;
+    }
+
+    // 0.5) 曖昧なセット（例：「花 or 月花」）は未振り分けへ（手動でセット/コース配分）
+    if (matchesAny(compiled.ambiguous, name)) {
+      unassigned.push({ name, count });
+      continue;
+    }
+
+    // サイド
+    const sideKey = guessSideKey(name, compiled);
+    if (sideKey) {
+      sides[sideKey] = (sides[sideKey] ?? 0) + count;
+      continue;
+    }
+
+    // コース：必ず人数コースへ（ラーメン杯に入れない）→ 早期 continue
+    const isCourse = matchesAny(compiled.courseName, name) || matchesAny(compiled.courseCategory, category);
+    if (isCourse) {
+      const priceMatch = name.match(PRICE_PATTERN);
+      const price = priceMatch ? Number(priceMatch[1]) : 0;
+      const peopleMatch = name.match(NAME_PEOPLE_PATTERN);
+      const peopleCount = peopleMatch ? Number(peopleMatch[1]) : count;
+      coursePeople.push({ label: courseLabelOf(name, compiled), price, count: peopleCount });
+      continue;
+    }
+
+    // ★ 銘柄判定（銘柄名だけでも拾えるように：先に guess、ダメなら ramenish で未振り分け）
+    const guessed = guessRamenKey(name, compiled);
+    const isSet = SET_NAME_PATTERN.test(name) || SET_CATEGORY_PATTERN.test(category);
+    if (guessed) {
+      if (isSet) {
+        ramenSetTotals[guessed] += count;
+      } else {
+        ramenTotals[guessed] += count;
+      }
+      continue;
+    }
+    if (matchesAny(compiled.ramenish, name)) {
+      unassigned.push({ name, count });
+    }
+  }
+
+  return { ramenTotals, ramenSetTotals, ramenCourseTotals, sides, coursePeople, unassigned };
+};
+
+// learnedRules は未振り分けに残ったものにだけ適用
+export const buildDailyReport = (
+  input: DailyReportInput,
+  catalog: MenuCatalog,
+  learnedRules: LearnedRule[] = []
+): DailyReport => {
+  const { productRows, statsRows } = input;
+  if (!statsRows.length) {
+    throw new Error('売上詳細CSVに行がありません。');
+  }
+  // 2 行目以降を黙って捨てると売上が欠けるので止める（会計明細は取込時に日別の 1 行にまとめてある）
+  if (statsRows.length > 1) {
+    throw new Error(`支払方法別ファイルに同じ日の行が ${statsRows.length} 行あります。1 日 1 行の日別集計で書き出してください。`);
+  }
+
+  const [dayRow] = statsRows;
+  const { payments, otherPayments } = parsePayments(dayRow, input.paymentMethods);
+
+  // ===== 集客 =====
+  const groups = firstByCandidates(dayRow, GROUP_CANDS);
+  const people = firstByCandidates(dayRow, PEOPLE_CANDS);
+
+  // ===== 照合用 =====
+  const soldItems = firstKeyStr(dayRow, SOLD_ITEMS_CANDS) !== '' ? firstByCandidates(dayRow, SOLD_ITEMS_CANDS) : undefined;
+  const productQty = productRows.reduce((sum, row) => sum + firstByCandidates(row, PRODUCT_QTY_CANDS), 0);
+
+  // ===== 税・割引 =====
+  const tax = parseTax(dayRow);
+
+  const dateISO = detectDateISO(dayRow, input.statsFileName, input.productFileName, input.businessDay);
+  const products = classifyProducts(productRows, catalog);
+
+  const meta: MetaState = {
+    dateISO,
+    payments,
+    otherPayments,
+    groups,
+    people,
+    sides: products.sides,
+    ...(soldItems !== undefined ? { soldItems } : {}),
+    productQty,
+    ...(tax ? { tax } : {}),
+  };
+  const report: DailyReport = {
+    meta,
+    ramenTotals: products.ramenTotals,
+    ramenSetTotals: products.ramenSetTotals,
+    ramenCourseTotals: products.ramenCourseTotals,
+    coursePeople: products.coursePeople,
+    unassigned: products.unassigned,
+    autoResolved: [],
+  };
+  return applyLearnedRules(report, learnedRules, itemsByCategory(catalog, 'ramen').map(it => it.key));
+};
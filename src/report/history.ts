@@ -0,0 +1,45 @@
+﻿// src/report/history.ts
+// 確定した日報の保存形式（1日 = 1レコード）
+import { computeKpis } from './kpi';
+import type { DailyKpis } from './kpi';
+import { DEFAULT_PAYMENT_METHODS } from './payments';
+import type { PaymentMethod } from './payments';
+import type { DailyReport } from './types';
+
+export type SourceFiles = { product?: string; stats?: string };
+
+export type DailyRecord = DailyReport & {
+  sourceFiles: SourceFiles;
+  savedAt: string;
+  // 保存時点の指標（推移を見るため。古いレコードにはない）
+  kpis?: DailyKpis;
+};
+
+export const toDailyRecord = (
+  report: DailyReport,
+  sourceFiles: SourceFiles,
+  methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS
+): DailyRecord => ({
+  ...report,
+  sourceFiles,
+  kpis: computeKpis(report, methods),
+  savedAt: new Date().toISOString(),
+});
+
+// 保存済みレコード → 画面で再編集するための DailyReport
+export const recordToReport = (record: DailyRecord): DailyReport => ({
+  meta: record.meta,
+  ramenTotals: record.ramenTotals,
+  ramenSetTotals: record.ramenSetTotals,
+  ramenCourseTotals: record.ramenCourseTotals,
+  coursePeople: record.coursePeople,
+  unassigned: record.unassigned ?? [],
+  autoResolved: record.autoResolved ?? [],
+  ...(record.cashClosing ? { cashClosing: record.cashClosing } : {}),
+  ...(record.allocations?.length ? { allocations: record.allocations } : {}),
+  ...(record.overrides && Object.keys(record.overrides).length ? { overrides: record.overrides } : {}),
+});
+
+// 新しい日付が先頭
+export const sortRecordsDesc = (records: DailyRecord[]) =>
+  records.slice().sort((a, b) => (a.meta.dateISO < b.meta.dateISO ? 1 : a.meta.dateISO > b.meta.dateISO ? -1 : 0));
@@ -0,0 +1,65 @@
+﻿// src/report/kpi.ts
+// 日報の指標（客単価・組単価・1人あたり杯数・セット率・コース売上比率・キャッシュレス比率）。
+// 取込んだ数値から計算し、履歴にも保存して推移を見られるようにする
+import { DEFAULT_PAYMENT_METHODS, TOTAL_KEY } from './payments';
+import type { PaymentMethod } from './payments';
+import type { DailyReport, RamenKey } from './types';
+
+export type DailyKpis = {
+  // 円（四捨五入）
+  perCustomer: number;
+  perGroup: number;
+  // 杯（小数2桁）
+  bowlsPerCustomer: number;
+  // 銘柄ごとのセット杯数 / その銘柄の杯数（1杯以上の銘柄だけ）
+  setRatio: Record<RamenKey, number>;
+  // コース（価格 × 人数）/ 売上
+  courseShare: number;
+  // キャッシュレスの支払方法の合計 / 売上
+  cashlessRatio: number;
+};
+
+// 表示するか（日報テキストに追記する）
+export type KpiDisplaySettings = { append: boolean };
+
+export const DEFAULT_KPI_DISPLAY: KpiDisplaySettings = { append: false };
+
+// 客単価（人数 0 のときは 0）
+export const perCustomer = (total: number, people: number) => (people > 0 ? Math.round(total / people) : 0);
+
+// 1人あたり杯数（小数2桁）
+const bowlsPerCustomer = (bowls: number, people: number) =>
+  people > 0 ? Math.round((bowls / people) * 100) / 100 : 0;
+
+// 比率は小数3桁（0.1% 単位）
+const ratio = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0);
+
+export const computeKpis = (report: DailyReport, methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS): DailyKpis => {
+  const { meta, ramenTotals, ramenSetTotals, ramenCourseTotals, coursePeople } = report;
+  const total = meta.payments[TOTAL_KEY] ?? 0;
+
+  const setRatio: Record<RamenKey, number> = {};
+  let bowls = 0;
+  new Set([...Object.keys(ramenTotals), ...Object.keys(ramenSetTotals), ...Object.keys(ramenCourseTotals)]).forEach(key => {
+    const set = ramenSetTotals[key] ?? 0;
+    const all = (ramenTotals[key] ?? 0) + set + (ramenCourseTotals[key] ?? 0);
+    bowls += all;
+    if (all > 0) {
+      setRatio[key] = ratio(set, all);
+    }
+  });
+
+  const courseSales = coursePeople.reduce((s, c) => s + c.price * c.count, 0);
+  const cashless = methods.filter(m => m.cashless).reduce((s, m) => s + (meta.payments[m.key] ?? 0), 0);
+
+  return {
+    perCustomer: perCustomer(total, meta.people),
+    perGroup: perCustomer(total, meta.groups),
+    bowlsPerCustomer: bowlsPerCustomer(bowls, meta.people),
+    setRatio,
+    courseShare: ratio(courseSales, total),
+    cashlessRatio: ratio(cashless, total),
+  };
+};
+
+export const jpPercent = (r: number) => `${(r * 100).toFixed(1)}%`;
@@ -0,0 +1,149 @@
+﻿// src/report/overrides.ts
+// 日報の数値の手入力修正。report の値は修正後にし、取込時の値は overrides に分けて残す
+// （画面の「修正済」表示・取込値へ戻す・取込し直したときの引き継ぎに使う）
+import { allocationPath } from './allocate';
+import { TAX_FIELDS, makeEmptyTax } from './tax';
+import type { TaxField } from './tax';
+import type { DailyReport } from './types';
+
+// 数値の場所：
+//   payments.<支払方法のキー> / otherPayments.<名称> / groups / people
+//   ramenTotals.<銘柄> / ramenSetTotals.<銘柄> / ramenCourseTotals.<銘柄>
+//   sides.<サイド> / coursePeople.<コース名>@<価格>（人数） / tax.<税・割引の項目>
+export type FigurePath = string;
+
+export type FigureOverride = { imported: number; value: number };
+
+export type ReportOverrides = Record<FigurePath, FigureOverride>;
+
+const RAMEN_FIELDS = ['ramenTotals', 'ramenSetTotals', 'ramenCourseTotals'] as const;
+type RamenField = (typeof RAMEN_FIELDS)[number];
+
+const splitPath = (path: FigurePath) => {
+  const dot = path.indexOf('.');
+  return dot < 0 ? { head: path, rest: '' } : { head: path.slice(0, dot), rest: path.slice(dot + 1) };
+};
+
+export const coursePath = (label: string, price: number) => `coursePeople.${label}@${price}`;
+
+const parseCourse = (rest: string) => {
+  const at = rest.lastIndexOf('@');
+  return { label: rest.slice(0, at), price: Number(rest.slice(at + 1)) || 0 };
+};
+
+export const getFigure = (report: DailyReport, path: FigurePath): number => {
+  const { head, rest } = splitPath(path);
+  const { meta } = report;
+  switch (head) {
+    case 'payments': return meta.payments[rest] ?? 0;
+    case 'otherPayments': return meta.otherPayments.filter(p => p.label === rest).reduce((s, p) => s + p.amount, 0);
+    case 'groups': return meta.groups;
+    case 'people': return meta.people;
+    case 'sides': return meta.sides[rest] ?? 0;
+    case 'tax': return meta.tax?.[rest as TaxField] ?? 0;
+    case 'coursePeople': {
+      const { label, price } = parseCourse(rest);
+      return report.coursePeople.filter(c => c.label === label && c.price === price).reduce((s, c) => s + c.count, 0);
+    }
+    default:
+      if ((RAMEN_FIELDS as readonly string[]).includes(head)) {
+        return report[head as RamenField][rest] ?? 0;
+      }
+      throw new Error(`不明な項目：${path}`);
+  }
+};
+
+// 同じ名称・コースが複数行あるときは先頭の行に寄せる
+const setFigure = (report: DailyReport, path: FigurePath, value: number): DailyReport => {
+  const { head, rest } = splitPath(path);
+  const { meta } = report;
+  switch (head) {
+    case 'payments': return { ...report, meta: { ...meta, payments: { ...meta.payments, [rest]: value } } };
+    case 'otherPayments': {
+      const index = meta.otherPayments.findIndex(p => p.label === rest);
+      const otherPayments = index < 0
+        ? [...meta.otherPayments, { label: rest, amount: value }]
+        : meta.otherPayments
+          .map((p, i) => (i === index ? { ...p, amount: value } : p))
+          .filter((p, i) => i === index || p.label !== rest);
+      return { ...report, meta: { ...meta, otherPayments } };
+    }
+    case 'groups': return { ...report, meta: { ...meta, groups: value } };
+    case 'people': return { ...report, meta: { ...meta, people: value } };
+    case 'sides': return { ...report, meta: { ...meta, sides: { ...meta.sides, [rest]: value } } };
+    case 'tax': {
+      if (!TAX_FIELDS.includes(rest as TaxField)) {
+        throw new Error(`不明な項目：${path}`);
+      }
+      return { ...report, meta: { ...meta, tax: { ...(meta.tax ?? makeEmptyTax()), [rest]: value } } };
+    }
+    case 'coursePeople': {
+      const { label, price } = parseCourse(rest);
+      const match = (c: { label: string; price: number }) => c.label === label && c.price === price;
+      const first = report.coursePeople.findIndex(match);
+      if (first < 0) {
+        return { ...report, coursePeople: [...report.coursePeople, { label, price, count: value }] };
+      }
+      return {
+        ...report,
+        coursePeople: report.coursePeople.map((c, i) => (i === first ? { ...c, count: value } : match(c) ? { ...c, count: 0 } : c)),
+      };
+    }
+    default:
+      if ((RAMEN_FIELDS as readonly string[]).includes(head)) {
+        const field = head as RamenField;
+        return { ...report, [field]: { ...report[field], [rest]: value } };
+      }
+      throw new Error(`不明な項目：${path}`);
+  }
+};
+
+export const isOverridden = (report: DailyReport, path: FigurePath) => !!report.overrides?.[path];
+
+export const overrideCount = (report: DailyReport) => Object.keys(report.overrides ?? {}).length;
+
+const withoutOverride = (overrides: ReportOverrides | undefined, path: FigurePath) => {
+  const rest = { ...overrides };
+  delete rest[path];
+  return rest;
+};
+
+// 取込値と同じに戻したら修正扱いをやめる
+export const overrideFigure = (report: DailyReport, path: FigurePath, value: number): DailyReport => {
+  const imported = report.overrides?.[path]?.imported ?? getFigure(report, path);
+  const next = setFigure(report, path, value);
+  if (value === imported) {
+    return { ...next, overrides: withoutOverride(report.overrides, path) };
+  }
+  return { ...next, overrides: { ...report.overrides, [path]: { imported, value } } };
+};
+
+export const clearOverride = (report: DailyReport, path: FigurePath): DailyReport => {
+  const override = report.overrides?.[path];
+  if (!override) {
+    return report;
+  }
+  return { ...setFigure(report, path, override.imported), overrides: withoutOverride(report.overrides, path) };
+};
+
+// 取込し直した日報に以前の修正を引き継ぐ（取込値は新しい取込のものにする）
+export const reapplyOverrides = (report: DailyReport, overrides: ReportOverrides = {}): DailyReport =>
+  Object.entries(overrides).reduce((r, [path, { value }]) => overrideFigure(r, path, value), report);
+
+// 修正値から手動で配分した数を外す（取込し直すと配分した項目は未振り分けに戻るため）
+const withoutAllocated = ({ overrides = {}, allocations = [] }: DailyReport): ReportOverrides =>
+  Object.fromEntries(
+    Object.entries(overrides).map(([path, override]) => {
+      const qty = allocations.filter(a => allocationPath(a) === path).reduce((s, a) => s + a.qty, 0);
+      return [path, { ...override, value: override.value - qty }];
+    })
+  );
+
+// 取込し直したときの引き継ぎ先：同じ日付の日報（単日どうしなら日付が違っても同じ日とみなす）
+export const carryOverrides = (previous: DailyReport[], next: DailyReport[]): DailyReport[] =>
+  next.map(report => {
+    const source = previous.length === 1 && next.length === 1
+      ? previous[0]
+      : previous.find(p => p.meta.dateISO === report.meta.dateISO);
+    return source?.overrides ? reapplyOverrides(report, withoutAllocated(source)) : report;
+  });
@@ -0,0 +1,53 @@
+﻿// src/report/parse.ts
+// CSV/Excel 行（ヘッダー付きオブジェクト）から値を取り出すヘルパー
+
+export const norm = (s: string) => String(s ?? '').replace(/\u00A0/g, ' ').trim().toLowerCase();
+
+export const toNum = (v: any): number => {
+  if (v == null) {
+    return 0;
+  }
+  if (typeof v === 'number') {
+    return v;
+  }
+  const s = String(v).replace(/[,\s]/g, '');
+  const m = s.match(/-?\d+(\.\d+)?/);
+  return m ? Number(m[0]) : 0;
+};
+
+export const firstByCandidates = (row: Record<string, any>, candidates: string[]) => {
+  const keys = Object.keys(row);
+  for (const cand of candidates) {
+    const hit = keys.find(k => norm(k) === norm(cand));
+    if (hit) {
+      return toNum(row[hit]);
+    }
+  }
+  return 0;
+};
+
+export const firstKeyStr = (row: Record<string, any>, candidates: string[]) => {
+  const keys = Object.keys(row);
+  for (const cand of candidates) {
+    const hit = keys.find(k => norm(k) === norm(cand));
+    if (hit) {
+      return String(row[hit] ?? '');
+    }
+  }
+  return '';
+};
+
+// 「2025-09-19」「2025/9/19 12:00」「2025年9月19日」「2025-09-19 〜 2025-09-19」などの先頭の日付
+export const parseDateISO = (v: any): string | undefined => {
+  const m = String(v ?? '').trim().match(/^(\d{4})[-/年.](\d{1,2})[-/月.](\d{1,2})/);
+  return m ? `${m[1]}-${m[2].padStart(2, '0')}-${m[3].padStart(2, '0')}` : undefined;
+};
+
+// 先頭の日付に続く時刻、または「1:30」だけの時刻の「時」。時刻がなければ undefined
+export const parseHour = (v: any): number | undefined => {
+  const m = String(v ?? '').trim().match(/^(?:\d{4}[-/年.]\d{1,2}[-/月.]\d{1,2}日?)?[\sT]*(\d{1,2})[:時]/);
+  return m && Number(m[1]) < 24 ? Number(m[1]) : undefined;
+};
+
+export const rowDateISO = (row: Record<string, any>, candidates: string[]) =>
+  parseDateISO(firstKeyStr(row, candidates));
@@ -0,0 +1,178 @@
+﻿// src/report/payments.ts
+// 支払方法の定義（設定画面で編集・店舗ごとに保存）。売上（total）は支払方法ではなく固定の項目
+import { norm } from './parse';
+import type { DailyReport, PaymentKey } from './types';
+
+export type PaymentMethod = {
+  key: PaymentKey;
+  label: string;
+  // 列名の候補。先頭は列の対応付けで読み替える列名
+  aliases: string[];
+  // 表示順（小さいほど上）
+  order: number;
+  // キャッシュレス決済か（現金・金券などは false）
+  cashless: boolean;
+};
+
+export const TOTAL_KEY: PaymentKey = 'total';
+export const TOTAL_LABEL = '売上';
+
+// 標準形式の列名。POS 固有の列名はここではなく import/sourceFormats.ts の形式に追加する
+// total は「税込み」だけ（税抜/非課税/割引前は除外）
+export const TOTAL_ALIASES = ['売上高（税込み）', '売上高 (税込み)', '売上高 (税込)', '税込み売上高', '税込売上'];
+
+// レジ締めはこのキーの金額を現金売上として使う
+export const CASH_KEY: PaymentKey = 'cash';
+
+export const DEFAULT_PAYMENT_METHODS: PaymentMethod[] = [
+  {
+    key: 'card',
+    label: 'クレジット・IC（Square）',
+    aliases: ['Square', 'square', 'クレジット・IC', 'クレジット・IC（Square）', 'クレジット･IC'],
+    order: 1,
+    cashless: true,
+  },
+  { key: 'tablecheck', label: 'Table check', aliases: ['Table check', 'TableCheck', 'テーブルチェック'], order: 2, cashless: true },
+  { key: 'paypay', label: 'PayPay', aliases: ['PayPay', 'paypay', 'Pay Pay'], order: 3, cashless: true },
+  { key: CASH_KEY, label: '現金', aliases: ['現金', 'cash', 'Cash', 'CASH'], order: 4, cashless: false },
+  { key: 'funfo', label: 'Funfo', aliases: ['Funfo', 'fnfo', 'FNFO', 'Fnfo'], order: 5, cashless: true },
+];
+
+export const newPaymentKey = () => `pay_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+export const sortPaymentMethods = (methods: PaymentMethod[]) =>
+  methods.map((m, i) => ({ m, i })).sort((a, b) => a.m.order - b.m.order || a.i - b.i).map(({ m }) => m);
+
+// 売上（total）を先頭にした表示順のキー
+export const paymentKeys = (methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS): PaymentKey[] =>
+  [TOTAL_KEY, ...sortPaymentMethods(methods).map(m => m.key)];
+
+export const paymentLabel = (methods: PaymentMethod[], key: PaymentKey) =>
+  key === TOTAL_KEY ? TOTAL_LABEL : methods.find(m => m.key === key)?.label ?? key;
+
+export const paymentAliases = (methods: PaymentMethod[], key: PaymentKey) =>
+  key === TOTAL_KEY ? TOTAL_ALIASES : methods.find(m => m.key === key)?.aliases ?? [];
+
+export const makeEmptyPayments = (methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS): Record<PaymentKey, number> =>
+  Object.fromEntries(paymentKeys(methods).map(k => [k, 0]));
+
+// 売上以外の支払の並び。定義にないキー（削除した支払方法の古い履歴など）はキーを名前にして末尾に出す
+export const paymentRows = (payments: Record<PaymentKey, number>, methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS) => {
+  const keys = paymentKeys(methods).filter(k => k !== TOTAL_KEY);
+  Object.keys(payments).forEach(k => {
+    if (k !== TOTAL_KEY && !keys.includes(k)) {
+      keys.push(k);
+    }
+  });
+  return keys.map(key => ({ key, label: paymentLabel(methods, key), amount: payments[key] ?? 0 }));
+};
+
+// 保存前チェック。問題がなければ null
+export const paymentMethodsError = (methods: PaymentMethod[]): string | null => {
+  const keys = methods.map(m => m.key);
+  const dupKey = keys.find((k, i) => keys.indexOf(k) !== i);
+  if (dupKey) {
+    return `キー「${dupKey}」が重複しています。`;
+  }
+  if (keys.includes(TOTAL_KEY)) {
+    return `キー「${TOTAL_KEY}」は売上に使うため使えません。`;
+  }
+  const blank = methods.find(m => !m.label.trim());
+  if (blank) {
+    return `キー「${blank.key}」の表示名が空です。`;
+  }
+  const owner = new Map<string, string>(TOTAL_ALIASES.map(a => [norm(a), TOTAL_LABEL]));
+  for (const m of methods) {
+    for (const alias of m.aliases) {
+      const prev = owner.get(norm(alias));
+      if (prev && prev !== m.label) {
+        return `列名「${alias}」が「${prev}」と「${m.label}」の両方にあります。`;
+      }
+      owner.set(norm(alias), m.label);
+    }
+  }
+  return null;
+};
+
+// その他の支払から作る支払方法のキーは名前から決める
+// （別の店舗で同じ支払を登録しても同じキーになり、全店舗の合算で 1 つにまとまる）
+export const paymentKeyFromLabel = (label: string): PaymentKey => `pay_${norm(label).replace(/\s+/g, '_')}`;
+
+// 名前・別名・キーが一致する登録済みの支払方法
+export const findPaymentMethod = (methods: PaymentMethod[], label: string) => {
+  const key = paymentKeyFromLabel(label);
+  const name = norm(label);
+  return methods.find(m => m.key === key || norm(m.label) === name || m.aliases.some(a => norm(a) === name));
+};
+
+// その他の支払（生の列名）から支払方法を作る。列名は別名として残し、次の取込から自動で振り分ける。
+// 登録済みの支払方法と一致すればそれに列名を足す。
+// 商品券などもあるので、キャッシュレスかどうかは指定がなければ数えない側にする
+export const methodFromOtherPayment = (methods: PaymentMethod[], label: string, cashless = false): PaymentMethod => {
+  const existing = findPaymentMethod(methods, label);
+  if (existing) {
+    return existing.aliases.some(a => norm(a) === norm(label)) ? existing : { ...existing, aliases: [...existing.aliases, label] };
+  }
+  return {
+    key: paymentKeyFromLabel(label),
+    label,
+    aliases: [label],
+    order: methods.reduce((max, m) => Math.max(max, m.order), 0) + 1,
+    cashless,
+  };
+};
+
+// 同じキーの支払方法は置き換え、なければ末尾に足す
+export const upsertPaymentMethod = (methods: PaymentMethod[], method: PaymentMethod) =>
+  methods.some(m => m.key === method.key)
+    ? methods.map(m => (m.key === method.key ? method : m))
+    : [...methods, method];
+
+// 取込済みの日報で、別名に一致するその他の支払をこの支払方法に移す（手入力の修正も移す）
+export const applyPaymentMethod = (report: DailyReport, method: PaymentMethod): DailyReport => {
+  const aliases = new Set(method.aliases.map(norm));
+  const { meta } = report;
+  const moved = meta.otherPayments.filter(p => aliases.has(norm(p.label)));
+  if (!moved.length) {
+    return report;
+  }
+  const amount = moved.reduce((s, p) => s + p.amount, 0);
+  const next: DailyReport = {
+    ...report,
+    meta: {
+      ...meta,
+      payments: { ...meta.payments, [method.key]: (meta.payments[method.key] ?? 0) + amount },
+      otherPayments: meta.otherPayments.filter(p => !aliases.has(norm(p.label))),
+    },
+  };
+  if (!report.overrides) {
+    return next;
+  }
+  // 取込値も同じように足し合わせ、修正後と取込値が同じなら修正扱いをやめる
+  const overrides = { ...report.overrides };
+  const path = `payments.${method.key}`;
+  let imported = overrides[path]?.imported ?? meta.payments[method.key] ?? 0;
+  Array.from(new Set(moved.map(p => p.label))).forEach(label => {
+    const from = `otherPayments.${label}`;
+    imported += overrides[from]?.imported ?? moved.filter(p => p.label === label).reduce((s, p) => s + p.amount, 0);
+    delete overrides[from];
+  });
+  const value = next.meta.payments[method.key];
+  if (value === imported) {
+    delete overrides[path];
+  } else {
+    overrides[path] = { imported, value };
+  }
+  return { ...next, overrides };
+};
+
+// 全店舗の合算表示用：同じキーは先に出てきた店舗の定義を使う
+export const mergePaymentMethods = (lists: PaymentMethod[][]): PaymentMethod[] => {
+  const byKey = new Map<PaymentKey, PaymentMethod>();
+  lists.flat().forEach(m => {
+    if (!byKey.has(m.key)) {
+      byKey.set(m.key, m);
+    }
+  });
+  return Array.from(byKey.values());
+};
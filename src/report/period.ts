@@ -0,0 +1,256 @@
+﻿// src/report/period.ts
+// 保存済みの日報から週次・月次（任意期間）の集計を作る
+import { displayItems } from './catalog';
+import type { MenuCatalog } from './catalog';
+import { daysBetweenISO } from './dates';
+import type { DailyRecord } from './history';
+import { DEFAULT_PAYMENT_METHODS, TOTAL_LABEL, makeEmptyPayments, paymentRows } from './payments';
+import type { PaymentMethod } from './payments';
+import { computeKpis, perCustomer } from './kpi';
+import type { DailyKpis } from './kpi';
+import { jpCurrency, jpDateLabel } from './render';
+import { addTax } from './tax';
+import type { TaxBreakdown } from './tax';
+import type { CoursePeopleEntry, DailyReport, OtherPayment, PaymentKey } from './types';
+
+export type RamenBreakdown = { normal: number; set: number; course: number };
+
+export type PeriodDay = {
+  dateISO: string;
+  payments: Record<PaymentKey, number>;
+  otherTotal: number;
+  total: number;
+  groups: number;
+  people: number;
+  bowls: number;
+  // その日の指標（全店舗の合算では店舗分を足した数値から出し直す）
+  kpis: DailyKpis;
+};
+
+export type PeriodReport = {
+  fromISO: string;
+  toISO: string;
+  // 期間の暦日数と、保存済みの日報がある日数
+  calendarDays: number;
+  days: PeriodDay[];
+  payments: Record<PaymentKey, number>;
+  otherPayments: OtherPayment[];
+  groups: number;
+  people: number;
+  ramen: Record<string, RamenBreakdown>;
+  sides: Record<string, number>;
+  coursePeople: CoursePeopleEntry[];
+  // 税の内訳がある日だけの合計（1日もなければなし）
+  tax?: TaxBreakdown;
+};
+
+export const bowlsOf = (report: DailyReport) =>
+  [report.ramenTotals, report.ramenSetTotals, report.ramenCourseTotals]
+    .reduce((s, t) => s + Object.values(t).reduce((a, b) => a + (b ?? 0), 0), 0);
+
+export const aggregatePeriod = (records: DailyRecord[], fromISO: string, toISO: string): PeriodReport => {
+  const inRange = records
+    .filter(r => r.meta.dateISO >= fromISO && r.meta.dateISO <= toISO)
+    .sort((a, b) => (a.meta.dateISO < b.meta.dateISO ? -1 : 1));
+
+  const payments = makeEmptyPayments();
+  const other = new Map<string, number>();
+  const ramen: Record<string, RamenBreakdown> = {};
+  const sides: Record<string, number> = {};
+  const course = new Map<string, CoursePeopleEntry>();
+  let groups = 0;
+  let people = 0;
+  let tax: TaxBreakdown | undefined;
+
+  const addRamen = (totals: Record<string, number>, field: keyof RamenBreakdown) => {
+    Object.entries(totals).forEach(([key, n]) => {
+      if (!n) {
+        return;
+      }
+      ramen[key] = ramen[key] ?? { normal: 0, set: 0, course: 0 };
+      ramen[key][field] += n;
+    });
+  };
+
+  inRange.forEach(r => {
+    Object.entries(r.meta.payments).forEach(([k, n]) => (payments[k] = (payments[k] ?? 0) + (n ?? 0)));
+    r.meta.otherPayments.forEach(({ label, amount }) => other.set(label, (other.get(label) ?? 0) + amount));
+    groups += r.meta.groups;
+    people += r.meta.people;
+    if (r.meta.tax) {
+      tax = tax ? addTax(tax, r.meta.tax) : { ...r.meta.tax };
+    }
+    addRamen(r.ramenTotals, 'normal');
+    addRamen(r.ramenSetTotals, 'set');
+    addRamen(r.ramenCourseTotals, 'course');
+    Object.entries(r.meta.sides ?? {}).forEach(([key, n]) => (sides[key] = (sides[key] ?? 0) + n));
+    r.coursePeople.forEach(({ label, price, count }) => {
+      const id = `${label}|${price}`;
+      const prev = course.get(id);
+      course.set(id, { label, price, count: (prev?.count ?? 0) + count });
+    });
+  });
+
+  return {
+    fromISO,
+    toISO,
+    calendarDays: daysBetweenISO(fromISO, toISO) + 1,
+    days: inRange.map(r => ({
+      dateISO: r.meta.dateISO,
+      payments: r.meta.payments,
+      otherTotal: r.meta.otherPayments.reduce((s, p) => s + p.amount, 0),
+      total: r.meta.payments.total,
+      groups: r.meta.groups,
+      people: r.meta.people,
+      bowls: bowlsOf(r),
+      kpis: r.kpis ?? computeKpis(r),
+    })),
+    payments,
+    otherPayments: Array.from(other, ([label, amount]) => ({ label, amount })),
+    groups,
+    people,
+    ramen,
+    sides,
+    coursePeople: Array.from(course.values()),
+    ...(tax ? { tax } : {}),
+  };
+};
+
+export const bestAndWorstDays = (period: PeriodReport) => {
+  if (!period.days.length) {
+    return { best: undefined, worst: undefined };
+  }
+  const sorted = period.days.slice().sort((a, b) => b.total - a.total);
+  return { best: sorted[0], worst: sorted[sorted.length - 1] };
+};
+
+// カタログ順 → カタログにない（終売など）銘柄の順で並べる
+export const orderedRamenRows = (period: PeriodReport, catalog: MenuCatalog) => {
+  const items = displayItems(catalog, 'ramen').map(({ key, label }) => ({ key, label }));
+  const known = new Set(items.map(it => it.key));
+  Object.keys(period.ramen).forEach(key => {
+    if (!known.has(key)) {
+      items.push({ key, label: key });
+    }
+  });
+  return items
+    .map(it => ({ ...it, ...(period.ramen[it.key] ?? { normal: 0, set: 0, course: 0 }) }))
+    .map(it => ({ ...it, total: it.normal + it.set + it.course }));
+};
+
+export const orderedSideRows = (period: PeriodReport, catalog: MenuCatalog) => {
+  const items = displayItems(catalog, 'side').map(({ key, label }) => ({ key, label }));
+  const known = new Set(items.map(it => it.key));
+  Object.keys(period.sides).forEach(key => {
+    if (!known.has(key)) {
+      items.push({ key, label: key });
+    }
+  });
+  return items.map(it => ({ ...it, count: period.sides[it.key] ?? 0 }));
+};
+
+export const renderPeriodOutput = (
+  period: PeriodReport,
+  catalog: MenuCatalog,
+  methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS
+) => {
+  const lines: string[] = [];
+  const pushBlank = () => {
+    if (lines.length > 0 && lines[lines.length - 1] !== '') {
+      lines.push('');
+    }
+  };
+  const dayCount = period.days.length;
+
+  // 1) 期間
+  lines.push(`${jpDateLabel(period.fromISO)} 〜 ${jpDateLabel(period.toISO)}`);
+  lines.push(`（${period.calendarDays}日間・日報${dayCount}日分）`);
+  if (!dayCount) {
+    return lines.join('\n');
+  }
+
+  // 2) 支払
+  const paymentLines: string[] = [];
+  if (period.payments.total > 0) {
+    paymentLines.push(`${TOTAL_LABEL}　${jpCurrency(period.payments.total)}`);
+  }
+  paymentRows(period.payments, methods).forEach(({ label, amount }) => {
+    if (amount > 0) {
+      paymentLines.push(`${label}　${jpCurrency(amount)}`);
+    }
+  });
+  period.otherPayments.forEach(({ label, amount }) => {
+    if (amount > 0) {
+      paymentLines.push(`${label}　${jpCurrency(amount)}`);
+    }
+  });
+  if (paymentLines.length) {
+    pushBlank();
+    lines.push(...paymentLines);
+  }
+
+  // 3) 組数・人数・客単価
+  const gp: string[] = [];
+  if (period.groups > 0) {
+    gp.push(`${period.groups}組`);
+  }
+  if (period.people > 0) {
+    gp.push(`${period.people}人`);
+    gp.push(`客単価　${jpCurrency(perCustomer(period.payments.total, period.people))}`);
+  }
+  if (gp.length) {
+    pushBlank();
+    lines.push(...gp);
+  }
+
+  // 4) ラーメン（通常/セット/コース）
+  const ramenRows = orderedRamenRows(period, catalog).filter(r => r.total > 0);
+  const ramenTotalCount = ramenRows.reduce((s, r) => s + r.total, 0);
+  if (ramenTotalCount > 0) {
+    pushBlank();
+    lines.push(`ラーメン  ${ramenTotalCount}杯`);
+    ramenRows.forEach(r => {
+      const noteParts = [`通常${r.normal}杯`];
+      if (r.set > 0) {
+        noteParts.push(`+セット${r.set}杯`);
+      }
+      if (r.course > 0) {
+        noteParts.push(`+コース${r.course}杯`);
+      }
+      lines.push(`・${r.label}　${r.total}杯(${noteParts.join(', ')})`);
+    });
+  }
+
+  // 5) サイド
+  const sideLines = orderedSideRows(period, catalog)
+    .filter(r => r.count > 0)
+    .map(r => `${r.label}　${r.count}杯`);
+  if (sideLines.length) {
+    pushBlank();
+    lines.push(...sideLines);
+  }
+
+  // 6) 人数コース
+  const courseLines = period.coursePeople
+    .filter(c => c.count > 0)
+    .map(({ label, price, count }) => `${price > 0 ? `${label}${price}` : label} ${count}名`);
+  if (courseLines.length) {
+    pushBlank();
+    lines.push(...courseLines);
+  }
+
+  // 7) 1日平均・最高/最低
+  pushBlank();
+  const bowls = period.days.reduce((s, d) => s + d.bowls, 0);
+  lines.push(`1日平均（${dayCount}日）`);
+  lines.push(`売上　${jpCurrency(Math.round(period.payments.total / dayCount))}`);
+  lines.push(`${Math.round(period.groups / dayCount)}組　${Math.round(period.people / dayCount)}人　${Math.round(bowls / dayCount)}杯`);
+  const { best, worst } = bestAndWorstDays(period);
+  if (best && worst && dayCount > 1) {
+    pushBlank();
+    lines.push(`最高　${jpDateLabel(best.dateISO)}　${jpCurrency(best.total)}`);
+    lines.push(`最低　${jpDateLabel(worst.dateISO)}　${jpCurrency(worst.total)}`);
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,114 @@
+﻿// src/report/periodExport.ts
+// 期間集計 → CSV / XLSX（経理向け）
+import * as XLSX from 'xlsx';
+
+import { displayItems } from './catalog';
+import type { MenuCatalog } from './catalog';
+import { storeBreakdownRows } from './combined';
+import type { CombinedReport } from './combined';
+import { perCustomer } from './kpi';
+import { DEFAULT_PAYMENT_METHODS, TOTAL_LABEL, paymentRows } from './payments';
+import type { PaymentMethod } from './payments';
+import { orderedRamenRows, orderedSideRows } from './period';
+import type { PeriodReport } from './period';
+import { TAX_FIELDS, TAX_LABELS } from './tax';
+
+type Cell = string | number;
+
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+const weekdayLabel = (iso: string) => WEEKDAYS[new Date(iso + 'T00:00:00Z').getUTCDay()];
+
+// 日別の表（最終行に合計）。支払の列は期間内に出てきた支払方法すべて
+export const periodDailyRows = (period: PeriodReport, methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS): Cell[][] => {
+  const columns = paymentRows(period.payments, methods);
+  const header: Cell[] = [
+    '日付', '曜日', TOTAL_LABEL,
+    ...columns.map(c => c.label),
+    'その他決済', '組数', '人数', '客単価', 'ラーメン杯数',
+  ];
+  const rows: Cell[][] = period.days.map(d => [
+    d.dateISO, weekdayLabel(d.dateISO), d.total,
+    ...columns.map(c => d.payments[c.key] ?? 0),
+    d.otherTotal, d.groups, d.people, perCustomer(d.total, d.people), d.bowls,
+  ]);
+  const sum = (f: (d: PeriodReport['days'][number]) => number) => period.days.reduce((s, d) => s + f(d), 0);
+  const totalRow: Cell[] = [
+    '合計', '', period.payments.total,
+    ...columns.map(c => c.amount),
+    sum(d => d.otherTotal), period.groups, period.people,
+    perCustomer(period.payments.total, period.people), sum(d => d.bowls),
+  ];
+  return [header, ...rows, totalRow];
+};
+
+// 日別の指標（推移を見る表）。比率は 0〜1、その日に杯数のない銘柄のセット率は空欄
+export const periodKpiRows = (period: PeriodReport, catalog: MenuCatalog): Cell[][] => {
+  const setItems = displayItems(catalog, 'ramen').filter(it => it.setAllowed);
+  const header: Cell[] = [
+    '日付', '曜日', '客単価', '組単価', '1人あたり杯数',
+    ...setItems.map(it => `セット率（${it.label}）`),
+    'コース売上比率', 'キャッシュレス比率',
+  ];
+  const rows: Cell[][] = period.days.map(({ dateISO, kpis }) => [
+    dateISO, weekdayLabel(dateISO),
+    kpis.perCustomer, kpis.perGroup, kpis.bowlsPerCustomer,
+    ...setItems.map(it => kpis.setRatio[it.key] ?? ''),
+    kpis.courseShare, kpis.cashlessRatio,
+  ]);
+  return [header, ...rows];
+};
+
+export const periodToCsv = (period: PeriodReport, methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS) => {
+  const sheet = XLSX.utils.aoa_to_sheet(periodDailyRows(period, methods));
+  // Excel で文字化けしないよう BOM 付き
+  return '\uFEFF' + XLSX.utils.sheet_to_csv(sheet);
+};
+
+export const periodToWorkbook = (
+  period: PeriodReport | CombinedReport,
+  catalog: MenuCatalog,
+  methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS
+) => {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(periodDailyRows(period, methods)), '日別');
+
+  const payments: Cell[][] = [['支払方法', '金額'], [TOTAL_LABEL, period.payments.total]];
+  paymentRows(period.payments, methods).forEach(({ label, amount }) => payments.push([label, amount]));
+  period.otherPayments.forEach(({ label, amount }) => payments.push([label, amount]));
+  const { tax } = period;
+  if (tax) {
+    payments.push([], ['税・割引', '金額']);
+    TAX_FIELDS.forEach(f => payments.push([TAX_LABELS[f], tax[f]]));
+  }
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(payments), '支払');
+
+  const ramen: Cell[][] = [['銘柄', '通常', 'セット', 'コース', '合計']];
+  orderedRamenRows(period, catalog).forEach(r => ramen.push([r.label, r.normal, r.set, r.course, r.total]));
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(ramen), 'ラーメン');
+
+  const sides: Cell[][] = [['サイド', '杯数']];
+  orderedSideRows(period, catalog).forEach(r => sides.push([r.label, r.count]));
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(sides), 'サイド');
+
+  const course: Cell[][] = [['コース', '価格', '人数']];
+  period.coursePeople.forEach(c => course.push([c.label, c.price, c.count]));
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(course), 'コース');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(periodKpiRows(period, catalog)), '指標');
+
+  // 全店舗の合算は店舗別の内訳も付ける
+  if ('stores' in period) {
+    const stores: Cell[][] = [['店舗', TOTAL_LABEL, '組数', '人数', '客単価', 'ラーメン杯数', '日報の日数']];
+    storeBreakdownRows(period).forEach(r =>
+      stores.push([r.store.name, r.total, r.groups, r.people, perCustomer(r.total, r.people), r.bowls, r.days])
+    );
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(stores), '店舗別');
+  }
+
+  return wb;
+};
+
+export const periodToXlsxBase64 = (
+  period: PeriodReport | CombinedReport,
+  catalog: MenuCatalog,
+  methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS
+): string => XLSX.write(periodToWorkbook(period, catalog, methods), { type: 'base64', bookType: 'xlsx' });
@@ -0,0 +1,101 @@
+﻿// src/report/reconcile.ts
+// 照合チェック：支払方法の合計 vs 税込み売上、税抜売上 + 消費税 + 非課税売上 vs 税込み売上、商品別の数量 vs 商品販売数、組数 vs 客数。
+// 列の取り違えをそのまま日報に載せないための確認用（集計値は変更しない）
+import { TOTAL_KEY } from './payments';
+import { taxIncludedOf } from './tax';
+import type { DailyReport, MetaState } from './types';
+
+export type ReconcileSettings = {
+  // 支払合計・税抜 + 税と売上の差をこの金額（円）まで許容する（端数・釣銭の丸め用）
+  paymentTolerance: number;
+};
+
+export const DEFAULT_RECONCILE_SETTINGS: ReconcileSettings = { paymentTolerance: 0 };
+
+export type ReconcileCheck = {
+  id: 'payments' | 'tax' | 'items' | 'groups';
+  label: string;
+  expected: number;
+  actual: number;
+  // actual - expected
+  diff: number;
+  ok: boolean;
+  message: string;
+};
+
+// total 以外の支払方法 + その他の支払
+export const paymentSum = (meta: MetaState) =>
+  Object.entries(meta.payments).reduce((sum, [k, n]) => (k === TOTAL_KEY ? sum : sum + (n || 0)), 0)
+  + meta.otherPayments.reduce((sum, p) => sum + (p.amount || 0), 0);
+
+const signed = (n: number) => (n > 0 ? `+${n.toLocaleString('ja-JP')}` : n.toLocaleString('ja-JP'));
+
+export const reconcile = (
+  report: DailyReport,
+  settings: ReconcileSettings = DEFAULT_RECONCILE_SETTINGS
+): ReconcileCheck[] => {
+  const { meta } = report;
+  const checks: ReconcileCheck[] = [];
+
+  const total = meta.payments.total || 0;
+  const sum = paymentSum(meta);
+  if (total || sum) {
+    const diff = sum - total;
+    const ok = Math.abs(diff) <= Math.max(0, settings.paymentTolerance);
+    checks.push({
+      id: 'payments',
+      label: '支払合計 / 売上（税込み）',
+      expected: total,
+      actual: sum,
+      diff,
+      ok,
+      message: ok ? '一致' : `差額 ${signed(diff)}円（支払方法の列の対応を確認してください）`,
+    });
+  }
+
+  // 消費税の列がないファイル（税抜だけ出る POS）は照合しない
+  if (meta.tax && (meta.tax.tax10 || meta.tax.tax8)) {
+    const included = taxIncludedOf(meta.tax);
+    const diff = included - total;
+    const ok = Math.abs(diff) <= Math.max(0, settings.paymentTolerance);
+    checks.push({
+      id: 'tax',
+      label: '税抜売上 + 消費税 + 非課税 / 売上（税込み）',
+      expected: total,
+      actual: included,
+      diff,
+      ok,
+      message: ok ? '一致' : `差額 ${signed(diff)}円（税抜売上・内消費税・非課税売上の列を確認してください）`,
+    });
+  }
+
+  if (meta.soldItems !== undefined && meta.productQty !== undefined) {
+    const diff = meta.productQty - meta.soldItems;
+    checks.push({
+      id: 'items',
+      label: '商品別の数量合計 / 商品販売数',
+      expected: meta.soldItems,
+      actual: meta.productQty,
+      diff,
+      ok: diff === 0,
+      message: diff === 0 ? '一致' : `差 ${signed(diff)}点（商品別ファイルの日付・数量列を確認してください）`,
+    });
+  }
+
+  if (meta.groups || meta.people) {
+    const ok = meta.groups <= meta.people;
+    checks.push({
+      id: 'groups',
+      label: '組数 / 客数',
+      expected: meta.people,
+      actual: meta.groups,
+      diff: meta.groups - meta.people,
+      ok,
+      message: ok ? '問題なし' : '組数が客数より多くなっています（組数・客数の列を確認してください）',
+    });
+  }
+
+  return checks;
+};
+
+export const hasReconcileWarnings = (checks: ReconcileCheck[]) => checks.some(c => !c.ok);
@@ -0,0 +1,182 @@
+﻿// src/report/render.ts
+// DailyReport → 日報テキスト（書式はテンプレートで決める）
+import { renderCashClosing } from './cashClosing';
+import { displayItems } from './catalog';
+import type { MenuCatalog } from './catalog';
+import { DEFAULT_COMPARISON_DISPLAY } from './comparison';
+import type { BaseComparison, ComparisonDisplaySettings, DayComparison } from './comparison';
+import { DEFAULT_KPI_DISPLAY, computeKpis, jpPercent } from './kpi';
+import type { DailyKpis, KpiDisplaySettings } from './kpi';
+import { CASH_KEY, DEFAULT_PAYMENT_METHODS, TOTAL_KEY, TOTAL_LABEL, paymentRows } from './payments';
+import type { PaymentMethod } from './payments';
+import { weekdayOf } from './dates';
+import { DEFAULT_TEMPLATE } from './reportTemplates';
+import type { ReportTemplate } from './reportTemplates';
+import { DEFAULT_TAX_DISPLAY, makeEmptyTax, taxLines } from './tax';
+import type { TaxDisplaySettings } from './tax';
+import { renderTemplate } from './template';
+import type { TemplateContext } from './template';
+import type { DailyReport } from './types';
+
+export const jpCurrency = (n: number) => '¥' + Number(n ?? 0).toLocaleString('ja-JP');
+// 日付の文字列から作る（端末のタイムゾーンで前日に表示されないように）
+export const jpDateLabel = (isoDate: string) => {
+  const weekday = ['日曜日', '月曜日', '火曜日', '水曜日', '木曜日', '金曜日', '土曜日'][weekdayOf(isoDate)];
+  return `${Number(isoDate.slice(5, 7))}月${Number(isoDate.slice(8, 10))}日（${weekday}）`;
+};
+
+// 指標の表示行。セット率はセット可の銘柄、コース比率はコースがある日だけ
+export const kpiLines = (kpis: DailyKpis, report: DailyReport, catalog: MenuCatalog) => [
+  { label: '客単価', value: jpCurrency(kpis.perCustomer) },
+  { label: '組単価', value: jpCurrency(kpis.perGroup) },
+  { label: '1人あたり杯数', value: `${kpis.bowlsPerCustomer.toFixed(2)}杯` },
+  ...displayItems(catalog, 'ramen')
+    .filter(it => it.setAllowed && kpis.setRatio[it.key] !== undefined)
+    .map(it => ({ label: `セット率（${it.label}）`, value: jpPercent(kpis.setRatio[it.key]) })),
+  ...(report.coursePeople.length ? [{ label: 'コース売上比率', value: jpPercent(kpis.courseShare) }] : []),
+  { label: 'キャッシュレス比率', value: jpPercent(kpis.cashlessRatio) },
+];
+
+// 増減の表示（+¥3,000 / -2人 / +5.0%）
+const signed = (n: number, format: (abs: number) => string) => `${n < 0 ? '-' : '+'}${format(Math.abs(n))}`;
+
+const metricLine = (base: BaseComparison) => {
+  const { total, people, bowls } = base.metrics;
+  const part = (label: string, d: typeof total, format: (abs: number) => string) =>
+    `${label} ${signed(d.diff, format)}${d.ratio !== undefined ? `（${signed(d.ratio, jpPercent)}）` : ''}`;
+  return [
+    part('売上', total, jpCurrency),
+    part('客数', people, n => `${n}人`),
+    part('杯数', bowls, n => `${n}杯`),
+  ].join('／');
+};
+
+// 比較・目標の表示行。履歴や目標がないものは出さない（月累計は2日目から）
+export const comparisonLines = (comparison: DayComparison | undefined) => {
+  if (!comparison) {
+    return [];
+  }
+  const { lastWeek, lastYear, dailyTarget, monthToDate, monthlyTarget } = comparison;
+  const lines: { label: string; value: string }[] = [];
+  if (lastWeek) {
+    lines.push({ label: `前週同曜日（${jpDateLabel(lastWeek.dateISO)}）`, value: metricLine(lastWeek) });
+  }
+  if (lastYear) {
+    const [y, m, d] = lastYear.dateISO.split('-').map(Number);
+    lines.push({ label: `前年同日（${y}年${m}月${d}日）`, value: metricLine(lastYear) });
+  }
+  if (dailyTarget) {
+    lines.push({
+      label: '日目標',
+      value: `${jpCurrency(dailyTarget.target)} の ${jpPercent(dailyTarget.progress)}（${signed(dailyTarget.diff, jpCurrency)}）`,
+    });
+  }
+  if (monthlyTarget || monthToDate.days > 1) {
+    const target = monthlyTarget
+      ? `／月目標 ${jpCurrency(monthlyTarget.target)} の ${jpPercent(monthlyTarget.progress)}（${signed(monthlyTarget.diff, jpCurrency)}）`
+      : '';
+    lines.push({ label: '月累計', value: `${jpCurrency(monthToDate.total)}（${monthToDate.days}日分）${target}` });
+  }
+  return lines;
+};
+
+// テンプレートに渡す値（TEMPLATE_FIELDS 参照）。一覧は 0 のものを除いておく
+export const buildTemplateContext = (
+  report: DailyReport,
+  catalog: MenuCatalog,
+  methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS,
+  taxDisplay: TaxDisplaySettings = DEFAULT_TAX_DISPLAY,
+  kpiDisplay: KpiDisplaySettings = DEFAULT_KPI_DISPLAY,
+  comparison?: DayComparison,
+  comparisonDisplay: ComparisonDisplaySettings = DEFAULT_COMPARISON_DISPLAY
+): TemplateContext => {
+  const { meta, ramenTotals, ramenSetTotals, ramenCourseTotals, coursePeople } = report;
+  const kpi = computeKpis(report, methods);
+
+  const payments = [
+    { label: TOTAL_LABEL, amount: meta.payments[TOTAL_KEY] ?? 0 },
+    ...paymentRows(meta.payments, methods).map(({ label, amount }) => ({ label, amount })),
+    ...meta.otherPayments,
+  ].filter(p => p.amount > 0);
+
+  // カタログ順 → カタログにない（終売・改名など）銘柄の順。履歴の日を今のカタログで表示しても落とさない
+  const ramenItems = displayItems(catalog, 'ramen').map(({ key, label }) => ({ key, label }));
+  const knownRamen = new Set(ramenItems.map(it => it.key));
+  [ramenTotals, ramenSetTotals, ramenCourseTotals].forEach(totals =>
+    Object.keys(totals).forEach(key => {
+      if (!knownRamen.has(key)) {
+        knownRamen.add(key);
+        ramenItems.push({ key, label: key });
+      }
+    })
+  );
+  const ramen = ramenItems
+    .map(({ key, label }) => {
+      const normal = ramenTotals[key] ?? 0;
+      const set = ramenSetTotals[key] ?? 0;
+      const course = ramenCourseTotals[key] ?? 0;
+      const noteParts: string[] = [];
+      if (set > 0) {
+        noteParts.push(`+セット${set}杯`);
+      }
+      if (course > 0) {
+        noteParts.push(`+コース${course}杯`);
+      }
+      const note = noteParts.length ? `(${noteParts.join(', ')})` : '';
+      return { key, label, normal, set, course, total: normal + set + course, note };
+    })
+    .filter(r => r.total > 0);
+
+  const sideItems = displayItems(catalog, 'side').map(({ key, label }) => ({ key, label }));
+  const knownSides = new Set(sideItems.map(it => it.key));
+  Object.keys(meta.sides).forEach(key => {
+    if (!knownSides.has(key)) {
+      sideItems.push({ key, label: key });
+    }
+  });
+  const sides = sideItems
+    .map(({ key, label }) => ({ key, label, count: meta.sides[key] ?? 0 }))
+    .filter(s => s.count > 0);
+
+  const courses = coursePeople
+    .filter(c => c.count > 0)
+    .map(c => ({ ...c, name: c.price > 0 ? `${c.label}${c.price}` : c.label }));
+
+  return {
+    date: jpDateLabel(meta.dateISO),
+    dateISO: meta.dateISO,
+    payments,
+    payment: meta.payments,
+    tax: meta.tax ?? makeEmptyTax(),
+    taxLines: taxLines(meta.tax, taxDisplay.shown),
+    groups: meta.groups,
+    people: meta.people,
+    perCustomer: kpi.perCustomer,
+    perGroup: kpi.perGroup,
+    kpi,
+    kpiLines: kpiLines(kpi, report, catalog),
+    kpiAppend: kpiDisplay.append,
+    comparison,
+    comparisonLines: comparisonLines(comparison),
+    comparisonAppend: comparisonDisplay.append,
+    ramenTotal: ramen.reduce((s, r) => s + r.total, 0),
+    ramen,
+    sides,
+    courses,
+    cashClosing: report.cashClosing ? renderCashClosing(report.cashClosing, meta.payments[CASH_KEY] ?? 0).join('\n') : '',
+    cashClosingAppend: !!report.cashClosing?.appendToOutput,
+    unassignedCount: report.unassigned.length,
+  };
+};
+
+// 既定は従来と同じ出力の「標準」テンプレート
+export const renderOutput = (
+  report: DailyReport,
+  catalog: MenuCatalog,
+  template: ReportTemplate = DEFAULT_TEMPLATE,
+  methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS,
+  taxDisplay: TaxDisplaySettings = DEFAULT_TAX_DISPLAY,
+  kpiDisplay: KpiDisplaySettings = DEFAULT_KPI_DISPLAY,
+  comparison?: DayComparison,
+  comparisonDisplay: ComparisonDisplaySettings = DEFAULT_COMPARISON_DISPLAY
+) => renderTemplate(template.body, buildTemplateContext(report, catalog, methods, taxDisplay, kpiDisplay, comparison, comparisonDisplay));
@@ -0,0 +1,166 @@
+﻿// src/report/reportTemplates.ts
+// 日報テキストのテンプレート（送り先ごとの書式）。組み込みは編集不可、複製して使う
+
+export type ReportTemplate = {
+  id: string;
+  name: string;
+  body: string;
+  builtIn?: boolean;
+};
+
+// テンプレートで使える値（編集画面のヘルプにも表示）
+export const TEMPLATE_FIELDS: { name: string; note: string }[] = [
+  { name: 'date', note: '日付（9月19日（金曜日））' },
+  { name: 'dateISO', note: '日付（2025-09-19）' },
+  { name: 'payments', note: '支払の一覧（0円を除く）：label, amount' },
+  { name: 'payment.total / payment.<支払方法のキー>', note: '支払方法ごとの金額（キーは支払方法の設定で確認。標準は card / tablecheck / paypay / cash / funfo）' },
+  { name: 'taxLines', note: '税・割引の一覧（日報に載せる設定の項目・0円を除く）：label, amount' },
+  { name: 'tax.preTax / tax10 / tax8 / nonTaxable / discount …', note: '税・割引の金額（税の列がないファイルは 0）' },
+  { name: 'comparisonLines', note: '前週同曜日・前年同日との比較と目標の達成率（履歴・目標があるものだけ）：label, value' },
+  { name: 'comparison.lastWeek.metrics.total.diff …', note: '比較の値（lastWeek / lastYear の total / people / bowls に current, base, diff, ratio）' },
+  { name: 'comparison.monthToDate.total', note: '月初からの売上累計（保存済みの日 + この日）' },
+  { name: 'comparisonAppend', note: '比較・目標を日報に追記する設定のとき' },
+  { name: 'groups / people', note: '組数・客数' },
+  { name: 'perCustomer / perGroup', note: '客単価・組単価（円）' },
+  { name: 'kpiLines', note: '指標の一覧（客単価・杯数・セット率・キャッシュレス比率など）：label, value' },
+  { name: 'kpiAppend', note: '指標を日報に追記する設定のとき' },
+  { name: 'kpi.bowlsPerCustomer / kpi.cashlessRatio …', note: '指標の値（比率は 0〜1）' },
+  { name: 'ramenTotal', note: 'ラーメン合計杯数' },
+  { name: 'ramen', note: '銘柄の一覧（1杯以上）：label, total, normal, set, course, note' },
+  { name: 'sides', note: 'サイドの一覧（1杯以上）：label, count' },
+  { name: 'courses', note: '人数コースの一覧：name, label, price, count' },
+  { name: 'cashClosing', note: 'レジ締めの文面（入力した日だけ）' },
+  { name: 'cashClosingAppend', note: 'レジ締めを日報に追記する設定のとき' },
+  { name: 'unassignedCount', note: '未振り分けの件数' },
+];
+
+export const DEFAULT_TEMPLATE_ID = 'builtin_standard';
+
+// 従来の日報テキストと同じ出力
+const STANDARD_BODY = `{{date}}
+
+{{#payments}}
+{{label}}　{{amount|yen}}
+{{/payments}}
+
+{{#taxLines}}
+{{label}}　{{amount|yen}}
+{{/taxLines}}
+
+{{#comparisonAppend}}
+{{#comparisonLines}}
+{{label}}　{{value}}
+{{/comparisonLines}}
+{{/comparisonAppend}}
+
+{{#groups}}
+{{groups}}組
+{{/groups}}
+{{#people}}
+{{people}}人
+{{/people}}
+
+{{#ramenTotal}}
+ラーメン  {{ramenTotal}}杯
+{{#ramen}}
+・{{label}}　{{total}}杯{{note}}
+{{/ramen}}
+{{/ramenTotal}}
+
+{{#sides}}
+{{label}}　{{count}}杯
+{{/sides}}
+
+{{#courses}}
+{{name}} {{count}}名
+{{/courses}}
+
+{{#kpiAppend}}
+{{#kpiLines}}
+{{label}}　{{value}}
+{{/kpiLines}}
+{{/kpiAppend}}
+
+{{#cashClosingAppend}}
+{{cashClosing}}
+{{/cashClosingAppend}}
+
+{{#unassignedCount}}
+（要振り分け候補：未計上 {{unassignedCount}} 件）
+{{/unassignedCount}}
+`;
+
+// オーナー向け：LINE で送る短い版
+const SHORT_BODY = `{{date}}
+売上 {{payment.total|yen}}{{#people}}／{{people}}人{{/people}}
+{{#comparisonAppend}}
+{{#comparisonLines}}
+{{label}} {{value}}
+{{/comparisonLines}}
+{{/comparisonAppend}}
+{{#ramenTotal}}
+ラーメン {{ramenTotal}}杯{{#ramen}}／{{label}}{{total}}{{/ramen}}
+{{/ramenTotal}}
+{{#unassignedCount}}
+※未振り分け {{unassignedCount}} 件
+{{/unassignedCount}}
+`;
+
+// 本部向け：客単価・組単価つき
+const HQ_BODY = `{{date}}
+
+{{#payments}}
+{{label}}　{{amount|yen}}
+{{/payments}}
+
+{{#taxLines}}
+{{label}}　{{amount|yen}}
+{{/taxLines}}
+
+{{#comparisonAppend}}
+{{#comparisonLines}}
+{{label}}　{{value}}
+{{/comparisonLines}}
+{{/comparisonAppend}}
+
+{{#groups}}
+組数　{{groups}}組（組単価 {{perGroup|yen}}）
+{{/groups}}
+{{#people}}
+客数　{{people}}人（客単価 {{perCustomer|yen}}）
+{{/people}}
+
+{{#ramenTotal}}
+ラーメン  {{ramenTotal}}杯
+{{#ramen}}
+・{{label}}　{{total}}杯（通常{{normal}} / セット{{set}} / コース{{course}}）
+{{/ramen}}
+{{/ramenTotal}}
+
+{{#sides}}
+{{label}}　{{count}}杯
+{{/sides}}
+
+{{#courses}}
+{{name}} {{count}}名
+{{/courses}}
+
+{{#kpiAppend}}
+{{#kpiLines}}
+{{label}}　{{value}}
+{{/kpiLines}}
+{{/kpiAppend}}
+`;
+
+export const BUILTIN_TEMPLATES: ReportTemplate[] = [
+  { id: DEFAULT_TEMPLATE_ID, name: '標準', body: STANDARD_BODY, builtIn: true },
+  { id: 'builtin_short', name: 'LINE（短縮）', body: SHORT_BODY, builtIn: true },
+  { id: 'builtin_hq', name: '本部向け', body: HQ_BODY, builtIn: true },
+];
+
+export const DEFAULT_TEMPLATE = BUILTIN_TEMPLATES[0];
+
+export const newTemplateId = () => `tpl_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+export const findTemplate = (templates: ReportTemplate[], id?: string) =>
+  templates.find(t => t.id === id) ?? DEFAULT_TEMPLATE;
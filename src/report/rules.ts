@@ -0,0 +1,49 @@
+﻿// src/report/rules.ts
+// 学習ルール：未振り分けになった商品名 → 銘柄・区分 の手動配分を記憶して次回から自動計上
+import { bucketField } from './allocate';
+import { norm } from './parse';
+import type { AssignBucket, DailyReport, RamenKey } from './types';
+
+export type LearnedRule = {
+  id: string;
+  // 商品名の完全一致（norm 後に比較）
+  productName: string;
+  key: RamenKey;
+  bucket: AssignBucket;
+  createdAt: string;
+};
+
+export const newRuleId = () => `rule_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+export const findRuleFor = (rules: LearnedRule[], productName: string) =>
+  rules.find(r => norm(r.productName) === norm(productName));
+
+// 同じ商品名のルールは置き換え（1商品名 = 1ルール）
+export const upsertRule = (rules: LearnedRule[], rule: LearnedRule): LearnedRule[] => {
+  const rest = rules.filter(r => r.id !== rule.id && norm(r.productName) !== norm(rule.productName));
+  return [...rest, rule];
+};
+
+// 未振り分けのうちルールに一致するものを計上し、autoResolved に記録する。
+// ramenKeys にない銘柄（メニューから外した等）を指すルールは適用しない
+export const applyLearnedRules = (report: DailyReport, rules: LearnedRule[], ramenKeys: string[]): DailyReport => {
+  if (!rules.length || !report.unassigned.length) {
+    return report;
+  }
+  const known = new Set(ramenKeys);
+  let next: DailyReport = { ...report, unassigned: [], autoResolved: [...report.autoResolved] };
+  report.unassigned.forEach(item => {
+    const rule = findRuleFor(rules, item.name);
+    if (!rule || !known.has(rule.key)) {
+      next.unassigned.push(item);
+      return;
+    }
+    const field = bucketField(rule.bucket);
+    next = {
+      ...next,
+      [field]: { ...next[field], [rule.key]: (next[field][rule.key] ?? 0) + item.count },
+    };
+    next.autoResolved.push({ name: item.name, count: item.count, key: rule.key, bucket: rule.bucket, ruleId: rule.id });
+  });
+  return next;
+};
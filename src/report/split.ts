@@ -0,0 +1,61 @@
+﻿// src/report/split.ts
+// 複数日分の POS エクスポートを日付ごとに分けて、1日ずつ DailyReport にする
+import { rowBusinessDateISO } from './businessDay';
+import type { BusinessDaySettings } from './businessDay';
+import type { MenuCatalog } from './catalog';
+import { buildDailyReport } from './engine';
+import type { LearnedRule } from './rules';
+import type { DailyReport, DailyReportInput } from './types';
+
+// 時刻付きの行は営業日の区切りで日付を決める
+const groupByDate = <T extends Record<string, any>>(rows: T[], businessDay?: BusinessDaySettings) => {
+  const byDate = new Map<string, T[]>();
+  const undated: T[] = [];
+  rows.forEach(row => {
+    const dateISO = rowBusinessDateISO(row, businessDay);
+    if (!dateISO) {
+      undated.push(row);
+      return;
+    }
+    byDate.set(dateISO, [...(byDate.get(dateISO) ?? []), row]);
+  });
+  return { byDate, undated };
+};
+
+// 支払方法別ファイルに 2 日以上の日付行があれば複数日
+export const isMultiDay = (input: DailyReportInput) => groupByDate(input.statsRows, input.businessDay).byDate.size > 1;
+
+// 日付順の 1 日分入力に分割。単日ファイルはそのまま 1 件で返す
+export const splitByDay = (input: DailyReportInput): DailyReportInput[] => {
+  const stats = groupByDate(input.statsRows, input.businessDay);
+  if (stats.byDate.size <= 1) {
+    return [input];
+  }
+
+  if (stats.undated.length) {
+    throw new Error(`支払方法別ファイルは複数日分ですが、日付なしの行が ${stats.undated.length} 行あります。`);
+  }
+  const products = groupByDate(input.productRows, input.businessDay);
+  if (input.productRows.length && !products.byDate.size) {
+    throw new Error('支払方法別ファイルは複数日分ですが、商品別ファイルに日付列がないため日別に分けられません。商品別も日付列付きで書き出してください。');
+  }
+  const strayDates = Array.from(products.byDate.keys()).filter(d => !stats.byDate.has(d));
+  if (strayDates.length || products.undated.length) {
+    const detail = strayDates.length ? `（${strayDates.join(', ')}）` : '';
+    throw new Error(`商品別ファイルに、支払方法別ファイルにない日付または日付なしの行があります${detail}。`);
+  }
+
+  return Array.from(stats.byDate.keys())
+    .sort()
+    .map(dateISO => ({
+      ...input,
+      statsRows: stats.byDate.get(dateISO) ?? [],
+      productRows: products.byDate.get(dateISO) ?? [],
+    }));
+};
+
+export const buildDailyReports = (
+  input: DailyReportInput,
+  catalog: MenuCatalog,
+  learnedRules: LearnedRule[] = []
+): DailyReport[] => splitByDay(input).map(day => buildDailyReport(day, catalog, learnedRules));
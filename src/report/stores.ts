@@ -0,0 +1,46 @@
+﻿// src/report/stores.ts
+// 店舗：メニュー・列の対応・書式・学習ルール・履歴を店舗ごとに持つ（保存は storage 側で店舗別のキーに分ける）
+import type { MenuCatalog, MenuItem } from './catalog';
+
+export type Store = { id: string; name: string };
+
+export type StoreSettings = {
+  stores: Store[];
+  // 取込・保存の対象にする店舗
+  activeId: string;
+};
+
+// 店舗機能より前に保存したデータはこの店舗のもの
+export const DEFAULT_STORE_ID = 'default';
+
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  stores: [{ id: DEFAULT_STORE_ID, name: '本店' }],
+  activeId: DEFAULT_STORE_ID,
+};
+
+export const newStoreId = () => `store_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+export const activeStoreOf = (settings: StoreSettings): Store =>
+  settings.stores.find(s => s.id === settings.activeId) ?? settings.stores[0] ?? DEFAULT_STORE_SETTINGS.stores[0];
+
+// 全店舗の合算表示用：同じ区分・キーの品目は先に出てきた店舗の定義を使う
+export const mergeCatalogs = (catalogs: MenuCatalog[]): MenuCatalog => {
+  const [first, ...rest] = catalogs;
+  if (!first) {
+    throw new Error('メニューカタログがありません');
+  }
+  const seen = new Set(first.items.map(it => `${it.category}:${it.key}`));
+  const items: MenuItem[] = [...first.items];
+  rest.forEach(catalog =>
+    catalog.items.forEach(it => {
+      const id = `${it.category}:${it.key}`;
+      if (seen.has(id)) {
+        return;
+      }
+      seen.add(id);
+      items.push(it);
+    })
+  );
+  return { ...first, items };
+};
+
@@ -0,0 +1,71 @@
+﻿// src/report/tax.ts
+// 税・割引の内訳（経理向け）。支払方法別ファイルの税抜売上・内消費税・非課税・割引の列から作る
+import { TAX_COLUMN_CANDS } from './constants';
+import { firstByCandidates, firstKeyStr } from './parse';
+
+export type TaxField =
+  | 'preTax'
+  | 'standardSales'
+  | 'reducedSales'
+  | 'tax10'
+  | 'tax8'
+  | 'nonTaxable'
+  | 'discount'
+  | 'receiptDiscount';
+
+export type TaxBreakdown = Record<TaxField, number>;
+
+// 表示順
+export const TAX_FIELDS: TaxField[] = [
+  'preTax',
+  'standardSales',
+  'reducedSales',
+  'tax10',
+  'tax8',
+  'nonTaxable',
+  'discount',
+  'receiptDiscount',
+];
+
+export const TAX_LABELS: Record<TaxField, string> = {
+  preTax: '税抜売上',
+  standardSales: '10%対象売上',
+  reducedSales: '8%対象売上',
+  tax10: '内消費税（10%）',
+  tax8: '内消費税（8%）',
+  nonTaxable: '非課税売上',
+  discount: '割引合計',
+  receiptDiscount: '会計割引',
+};
+
+// 日報テキストに載せる項目（経理に送る店舗だけ選ぶ）
+export type TaxDisplaySettings = { shown: TaxField[] };
+
+export const DEFAULT_TAX_DISPLAY: TaxDisplaySettings = { shown: [] };
+
+export const makeEmptyTax = (): TaxBreakdown =>
+  Object.fromEntries(TAX_FIELDS.map(f => [f, 0])) as TaxBreakdown;
+
+// 税の列が1つもないファイル（税の内訳を出さない POS）は undefined。
+// 割引は POS によって負の数で出るので絶対値にそろえる
+export const parseTax = (dayRow: Record<string, any>): TaxBreakdown | undefined => {
+  if (!TAX_FIELDS.some(f => firstKeyStr(dayRow, TAX_COLUMN_CANDS[f]) !== '')) {
+    return undefined;
+  }
+  const tax = makeEmptyTax();
+  TAX_FIELDS.forEach(f => {
+    const n = firstByCandidates(dayRow, TAX_COLUMN_CANDS[f]);
+    tax[f] = f === 'discount' || f === 'receiptDiscount' ? Math.abs(n) : n;
+  });
+  return tax;
+};
+
+export const addTax = (a: TaxBreakdown, b: TaxBreakdown): TaxBreakdown =>
+  Object.fromEntries(TAX_FIELDS.map(f => [f, (a[f] ?? 0) + (b[f] ?? 0)])) as TaxBreakdown;
+
+// 税抜売上 + 内消費税 + 非課税売上（税込み売上と照合する。税抜売上に非課税分は入らない）
+export const taxIncludedOf = (tax: TaxBreakdown) => tax.preTax + tax.tax10 + tax.tax8 + tax.nonTaxable;
+
+// 日報テキストに載せる行（選んだ項目のうち 0 でないもの）
+export const taxLines = (tax: TaxBreakdown | undefined, shown: TaxField[]) =>
+  tax ? TAX_FIELDS.filter(f => shown.includes(f) && tax[f]).map(f => ({ key: f, label: TAX_LABELS[f], amount: tax[f] })) : [];
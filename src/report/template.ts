@@ -0,0 +1,134 @@
+﻿// src/report/template.ts
+// 日報テンプレートの最小エンジン（Mustache 風）
+//   {{name}} / {{a.b}}       値の差し込み（{{.}} は繰り返し中の要素そのもの）
+//   {{name|yen}} {{name|num}} ¥1,234 / 1,234 形式
+//   {{#name}}…{{/name}}      値があるとき（0・空文字・空配列は「ない」）。配列なら要素ごとに繰り返す
+//   {{^name}}…{{/name}}      値がないとき
+// セクションのタグだけの行は行ごと消える。連続する空行は1行にまとめ、先頭・末尾の空行は落とす
+
+type Node =
+  | { type: 'text'; text: string }
+  | { type: 'var'; path: string; filter?: string }
+  | { type: 'section'; path: string; inverted: boolean; children: Node[] };
+
+export type TemplateContext = Record<string, any>;
+
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*([\w.]+)\s*(?:\|\s*(\w+)\s*)?\}\}/;
+// タグだけの行（前後の空白と改行ごと取り除く）
+const STANDALONE_PATTERN = /^[ \t]*(\{\{\s*[#^/][^}]*\}\})[ \t]*(\r?\n|$)/gm;
+
+const FILTERS: Record<string, (v: any) => string> = {
+  yen: v => '¥' + Number(v ?? 0).toLocaleString('ja-JP'),
+  num: v => Number(v ?? 0).toLocaleString('ja-JP'),
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+const parse = (source: string): Node[] => {
+  const root: Node[] = [];
+  const stack: { path: string; children: Node[] }[] = [{ path: '', children: root }];
+  const body = source.replace(STANDALONE_PATTERN, '$1');
+  const tagPattern = new RegExp(TAG_PATTERN.source, 'g');
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = tagPattern.exec(body))) {
+    const [tag, sigil, path, filter] = m;
+    const current = stack[stack.length - 1].children;
+    if (m.index > last) {
+      current.push({ type: 'text', text: body.slice(last, m.index) });
+    }
+    last = m.index + tag.length;
+    if (sigil === '#' || sigil === '^') {
+      const node: Node = { type: 'section', path, inverted: sigil === '^', children: [] };
+      current.push(node);
+      stack.push({ path, children: node.children });
+    } else if (sigil === '/') {
+      if (stack.length === 1 || stack[stack.length - 1].path !== path) {
+        throw new Error(`{{/${path}}} に対応する開始タグがありません`);
+      }
+      stack.pop();
+    } else {
+      if (filter && !FILTERS[filter]) {
+        throw new Error(`{{${path}|${filter}}}：不明な書式「${filter}」`);
+      }
+      current.push({ type: 'var', path, filter });
+    }
+  }
+  if (stack.length > 1) {
+    throw new Error(`{{#${stack[stack.length - 1].path}}} が閉じていません`);
+  }
+  if (last < body.length) {
+    root.push({ type: 'text', text: body.slice(last) });
+  }
+  return root;
+};
+
+const resolve = (scope: any, path: string) => {
+  if (path === '.') {
+    return scope;
+  }
+  return path.split('.').reduce((v, key) => (v == null ? undefined : v[key]), scope);
+};
+
+// 内側（繰り返し中の要素）から外側へ探す
+const lookup = (scopes: any[], path: string) => {
+  for (let i = scopes.length - 1; i >= 0; i -= 1) {
+    const v = resolve(scopes[i], path);
+    if (v !== undefined) {
+      return v;
+    }
+  }
+  return undefined;
+};
+
+const isPresent = (v: any) => {
+  if (Array.isArray(v)) {
+    return v.length > 0;
+  }
+  if (typeof v === 'number') {
+    return v !== 0;
+  }
+  return v !== undefined && v !== null && v !== '' && v !== false;
+};
+
+const renderNodes = (nodes: Node[], scopes: any[]): string =>
+  nodes
+    .map(node => {
+      if (node.type === 'text') {
+        return node.text;
+      }
+      const value = lookup(scopes, node.path);
+      if (node.type === 'var') {
+        if (node.filter) {
+          return FILTERS[node.filter](value);
+        }
+        return value == null ? '' : String(value);
+      }
+      if (node.inverted) {
+        return isPresent(value) ? '' : renderNodes(node.children, scopes);
+      }
+      if (!isPresent(value)) {
+        return '';
+      }
+      if (Array.isArray(value)) {
+        return value.map(item => renderNodes(node.children, [...scopes, item])).join('');
+      }
+      return renderNodes(node.children, typeof value === 'object' ? [...scopes, value] : scopes);
+    })
+    .join('');
+
+// 構文エラーがあればメッセージ、なければ null（編集画面用）
+export const templateError = (source: string): string | null => {
+  try {
+    parse(source);
+    return null;
+  } catch (e: any) {
+    return e?.message ?? String(e);
+  }
+};
+
+export const renderTemplate = (source: string, context: TemplateContext) =>
+  renderNodes(parse(source), [context])
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/^\n+|\n+$/g, '');
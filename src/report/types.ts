@@ -0,0 +1,77 @@
+﻿// src/report/types.ts
+// 日報エンジンの型（UI 非依存）
+import type { BusinessDaySettings } from './businessDay';
+import type { CashClosing } from './cashClosing';
+import type { ReportOverrides } from './overrides';
+import type { PaymentMethod } from './payments';
+import type { TaxBreakdown } from './tax';
+
+export type ProductRow = Record<string, any>;
+export type StatsRow = Record<string, any>;
+
+// 銘柄キー（メニューカタログの MenuItem.key）
+export type RamenKey = string;
+
+export type Totals = Record<RamenKey, number>;
+export type SetTotals = Record<RamenKey, number>;
+
+export type OtherPayment = { label: string; amount: number };
+export type CoursePeopleEntry = { label: string; price: number; count: number };
+export type UnassignedItem = { name: string; count: number };
+
+// 'total'（売上）か支払方法のキー（report/payments.ts）
+export type PaymentKey = string;
+
+export type MetaState = {
+  dateISO: string;
+  payments: Record<PaymentKey, number>;
+  otherPayments: OtherPayment[];
+  groups: number;
+  people: number;
+  // サイド（カタログの category: 'side' の key → 杯数）
+  sides: Record<string, number>;
+  // 照合用（取込時に記録。手入力・古い履歴にはない）
+  // 支払方法別ファイルの「商品販売数」
+  soldItems?: number;
+  // 商品別ファイルの数量合計（除外商品も含む）
+  productQty?: number;
+  // 税・割引の内訳（税の列があるファイルだけ。手入力・古い履歴にはない）
+  tax?: TaxBreakdown;
+};
+
+// 1日分の集計結果。画面はこれを描画するだけ
+export type DailyReport = {
+  meta: MetaState;
+  ramenTotals: Totals;
+  ramenSetTotals: SetTotals;
+  ramenCourseTotals: SetTotals;
+  coursePeople: CoursePeopleEntry[];
+  unassigned: UnassignedItem[];
+  // 学習ルールで自動計上した項目（画面で確認用）
+  autoResolved: AutoResolvedItem[];
+  // レジ締め（入力した日だけ）
+  cashClosing?: CashClosing;
+  // 未振り分けの手動配分の記録（古い履歴にはない）
+  allocations?: Allocation[];
+  // 手入力で直した数値（取込値つき。古い履歴にはない）
+  overrides?: ReportOverrides;
+};
+
+// 手動振り分けの行き先（通常 / セット / コース）
+export type AssignBucket = 'normal' | 'set' | 'course';
+
+// 手動配分 1 回分。同じ商品・銘柄・区分への続けてのタップは 1 件にまとめる
+export type Allocation = { id: string; name: string; key: RamenKey; bucket: AssignBucket; qty: number; at: string };
+
+export type AutoResolvedItem = UnassignedItem & { key: RamenKey; bucket: AssignBucket; ruleId: string };
+
+export type DailyReportInput = {
+  productRows: ProductRow[];
+  statsRows: StatsRow[];
+  productFileName?: string;
+  statsFileName?: string;
+  // 日付の判定（時刻付きの行の区切り・日付がないときの今日）。省略時は日本時間・0時区切り
+  businessDay?: BusinessDaySettings;
+  // 支払方法の定義。省略時は既定の支払方法
+  paymentMethods?: PaymentMethod[];
+};
@@ -0,0 +1,75 @@
+﻿// src/report/undo.ts
+// 手動変更の元に戻す / やり直す。変更した項目（パス・変更前・変更後）だけを「何番目の日か」と一緒に積む
+// （複数日の取込でも日ごとに戻せる。日付変更・レジ締めなど積まない変更は戻しても消えない）
+
+export type FieldChange = { path: string[]; before: unknown; after: unknown };
+
+export type UndoEntry = { index: number; changes: FieldChange[] };
+
+export type UndoStack = { past: UndoEntry[]; future: UndoEntry[] };
+
+export const UNDO_LIMIT = 100;
+
+export const makeUndoStack = (): UndoStack => ({ past: [], future: [] });
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// オブジェクトは項目ごとにたどり、配列や値は中身が変わったときだけ 1 件にする
+export const diffFields = (before: unknown, after: unknown, path: string[] = []): FieldChange[] => {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(keys).flatMap(key => diffFields(before[key], after[key], [...path, key]));
+  }
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, before, after }];
+};
+
+// undefined はその項目を消す
+const setPath = (target: unknown, [key, ...rest]: string[], value: unknown): any => {
+  const next: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+  const child = rest.length ? setPath(next[key], rest, value) : value;
+  if (child === undefined) {
+    delete next[key];
+  } else {
+    next[key] = child;
+  }
+  return next;
+};
+
+const applyChanges = <T>(value: T, changes: FieldChange[], side: 'before' | 'after'): T =>
+  changes.reduce<any>((v, c) => (c.path.length ? setPath(v, c.path, c[side]) : c[side]), value);
+
+// 新しい変更をしたらやり直しは消える。何も変わっていなければそのまま
+export const recordChange = <T>(stack: UndoStack, index: number, before: T, after: T): UndoStack => {
+  const changes = diffFields(before, after);
+  if (!changes.length) {
+    return stack;
+  }
+  return { past: [...stack.past, { index, changes }].slice(-UNDO_LIMIT), future: [] };
+};
+
+type Step<T> = { stack: UndoStack; values: T[]; index: number };
+
+const step = <T>(from: UndoEntry[], to: UndoEntry[], values: T[], side: 'before' | 'after') => {
+  const entry = from[from.length - 1];
+  if (!entry || entry.index >= values.length) {
+    return null;
+  }
+  return {
+    from: from.slice(0, -1),
+    to: [...to, entry],
+    values: values.map((v, i) => (i === entry.index ? applyChanges(v, entry.changes, side) : v)),
+    index: entry.index,
+  };
+};
+
+// 戻せなければ null。index は変わった日（画面をその日に切り替える）
+export const undoChange = <T>(stack: UndoStack, values: T[]): Step<T> | null => {
+  const s = step(stack.past, stack.future, values, 'before');
+  return s && { stack: { past: s.from, future: s.to }, values: s.values, index: s.index };
+};
+
+export const redoChange = <T>(stack: UndoStack, values: T[]): Step<T> | null => {
+  const s = step(stack.future, stack.past, values, 'after');
+  return s && { stack: { past: s.to, future: s.from }, values: s.values, index: s.index };
+};
@@ -0,0 +1,178 @@
+﻿// src/screens/cashClosing.tsx
+import React, { useState } from 'react';
+import {
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+
+import {
+  DENOMINATIONS,
+  DENOMINATION_LABELS,
+  countedCash,
+  countedSales,
+  makeEmptyCashClosing,
+  overShort,
+  overShortLabel,
+} from '../report/cashClosing';
+import type { CashClosing, Denomination } from '../report/cashClosing';
+import { jpCurrency } from '../report/render';
+import { confirm } from '../ui/confirm';
+
+type Props = {
+  dateLabel: string;
+  initial?: CashClosing;
+  // 支払方法別ファイルの現金
+  expectedCash: number;
+  onSave: (closing: CashClosing | undefined) => void;
+  onClose: () => void;
+};
+
+const toCount = (text: string) => Math.max(0, Math.floor(Number(text.replace(/[^\d]/g, '')) || 0));
+
+export default function CashClosingScreen({ dateLabel, initial, expectedCash, onSave, onClose }: Props) {
+  const [draft, setDraft] = useState<CashClosing>(initial ?? makeEmptyCashClosing());
+
+  const setCount = (d: Denomination, text: string) => {
+    setDraft(prev => ({ ...prev, counts: { ...prev.counts, [d]: toCount(text) } }));
+  };
+
+  const diff = overShort(draft, expectedCash);
+
+  const onClear = async () => {
+    if (!(await confirm('レジ締めを削除', `${dateLabel} のレジ締めを削除しますか？`, '削除'))) {
+      return;
+    }
+    onSave(undefined);
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.h1}>レジ締め　{dateLabel}</Text>
+        <Pressable style={[styles.btn, styles.outline]} onPress={onClose}>
+          <Text style={styles.btnText}>閉じる</Text>
+        </Pressable>
+      </View>
+      <Text style={styles.note}>※ドロワー内の枚数を金種ごとに入力してください。</Text>
+
+      <View style={styles.card}>
+        {DENOMINATIONS.map(d => {
+          const count = draft.counts[d] ?? 0;
+          return (
+            <View key={d} style={styles.denomRow}>
+              <Text style={styles.denomLabel}>{DENOMINATION_LABELS[d]}</Text>
+              <TextInput
+                style={[styles.input, styles.countInput]}
+                value={count ? String(count) : ''}
+                onChangeText={t => setCount(d, t)}
+                keyboardType="number-pad"
+                placeholder="0"
+              />
+              <Text style={styles.amount}>{jpCurrency(d * count)}</Text>
+            </View>
+          );
+        })}
+      </View>
+
+      <View style={styles.denomRow}>
+        <Text style={styles.denomLabel}>釣銭準備金</Text>
+        <TextInput
+          style={[styles.input, styles.floatInput]}
+          value={draft.openingFloat ? String(draft.openingFloat) : ''}
+          onChangeText={t => setDraft(prev => ({ ...prev, openingFloat: toCount(t) }))}
+          keyboardType="number-pad"
+          placeholder="0"
+        />
+      </View>
+
+      <View style={styles.card}>
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>実査合計</Text>
+          <Text style={styles.summaryValue}>{jpCurrency(countedCash(draft))}</Text>
+        </View>
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>現金売上（実査 − 準備金）</Text>
+          <Text style={styles.summaryValue}>{jpCurrency(countedSales(draft))}</Text>
+        </View>
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>現金売上（データ）</Text>
+          <Text style={styles.summaryValue}>{jpCurrency(expectedCash)}</Text>
+        </View>
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>過不足</Text>
+          <Text style={[styles.summaryValue, diff !== 0 && styles.warn]}>{overShortLabel(diff)}</Text>
+        </View>
+      </View>
+
+      <Pressable
+        style={[styles.chip, draft.appendToOutput && styles.chipActive]}
+        onPress={() => setDraft(prev => ({ ...prev, appendToOutput: !prev.appendToOutput }))}
+      >
+        <Text style={styles.chipText}>{draft.appendToOutput ? '✓ ' : ''}日報テキストに追記する</Text>
+      </Pressable>
+
+      <View style={styles.row}>
+        <Pressable
+          style={[styles.btn, styles.primary]}
+          onPress={() => onSave({ ...draft, closedAt: new Date().toISOString() })}
+        >
+          <Text style={[styles.btnText, styles.primaryText]}>保存</Text>
+        </Pressable>
+        {initial && (
+          <Pressable style={[styles.btn, styles.outline]} onPress={onClear}>
+            <Text style={styles.btnText}>削除</Text>
+          </Pressable>
+        )}
+      </View>
+      <Text style={styles.note}>※保存後、「この日を履歴に保存」で日報と一緒に保存されます。</Text>
+      <View style={styles.spacer} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, gap: 12 },
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  h1: { fontSize: 18, fontWeight: '700' },
+  note: { fontSize: 12, color: '#666' },
+  warn: { color: '#c9302c' },
+  row: { flexDirection: 'row', gap: 8, alignItems: 'center' },
+  btn: { paddingVertical: 10, paddingHorizontal: 14, borderRadius: 10, backgroundColor: '#f2f2f7' },
+  btnText: { fontSize: 14, fontWeight: '600', color: '#111' },
+  primary: { backgroundColor: '#007aff' },
+  primaryText: { color: '#fff' },
+  outline: { backgroundColor: '#fff', borderWidth: 1, borderColor: '#c7c7cc' },
+  input: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#c7c7cc',
+    backgroundColor: '#fff',
+    fontSize: 14,
+  },
+  card: {
+    padding: 12,
+    gap: 8,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e5e5ea',
+    backgroundColor: '#fbfbfd',
+  },
+  denomRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  denomLabel: { width: 88, fontSize: 14 },
+  countInput: { width: 72, textAlign: 'right' },
+  floatInput: { width: 120, textAlign: 'right' },
+  amount: { flex: 1, textAlign: 'right', fontSize: 14, color: '#444' },
+  summaryRow: { flexDirection: 'row', justifyContent: 'space-between' },
+  summaryLabel: { fontSize: 14, color: '#444' },
+  summaryValue: { fontSize: 14, fontWeight: '600' },
+  chip: { alignSelf: 'flex-start', paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, backgroundColor: '#f2f2f7' },
+  chipActive: { backgroundColor: '#e7f0ff' },
+  chipText: { fontSize: 12, fontWeight: '600' },
+  spacer: { height: 32 },
+});
@@ -0,0 +1,199 @@
+﻿// src/screens/columnMapping.tsx
+import React, { useMemo, useState } from 'react';
+import {
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+
+import {
+  fieldLabel,
+  fieldsOf,
+  headersOf,
+  missingRequiredFields,
+  sampleValues,
+} from '../import/columnMapping';
+import type { ColumnField, ColumnMapping, FileKind } from '../import/columnMapping';
+import type { SheetRow } from '../import/rows';
+import { LAYOUT_LABELS } from '../import/sourceFormats';
+import type { SourceLayout } from '../import/sourceFormats';
+import type { PaymentMethod } from '../report/payments';
+
+type Props = {
+  kind: FileKind;
+  fileName?: string;
+  rows: SheetRow[];
+  initialMapping: ColumnMapping;
+  initialLayout: SourceLayout;
+  initialName?: string;
+  // 支払方法別の割り当て先（店舗の設定）
+  paymentMethods: PaymentMethod[];
+  // profileName があればプロファイルとして保存する
+  onApply: (mapping: ColumnMapping, layout: SourceLayout, profileName?: string) => void;
+  onClose: () => void;
+};
+
+const KIND_LABELS: Record<FileKind, string> = {
+  product: '商品別',
+  stats: '支払方法別',
+};
+
+export default function ColumnMappingScreen({
+  kind,
+  fileName,
+  rows,
+  initialMapping,
+  initialLayout,
+  initialName,
+  paymentMethods,
+  onApply,
+  onClose,
+}: Props) {
+  const headers = useMemo(() => headersOf(rows), [rows]);
+  const samples = useMemo(() => sampleValues(rows, headers), [rows, headers]);
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [layout, setLayout] = useState<SourceLayout>(initialLayout);
+  const [openHeader, setOpenHeader] = useState<string | null>(null);
+  const [name, setName] = useState(initialName ?? fileName ?? '');
+
+  const missing = missingRequiredFields(headers, kind, mapping);
+
+  // 1つの意味に割り当てられる列は1つだけ
+  const assign = (header: string, field: ColumnField | null) => {
+    setMapping(prev => {
+      const next: ColumnMapping = {};
+      Object.entries(prev).forEach(([h, f]) => {
+        if (h !== header && f !== field) {
+          next[h] = f;
+        }
+      });
+      if (field) {
+        next[header] = field;
+      }
+      return next;
+    });
+    setOpenHeader(null);
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.h1}>列の対応付け（{KIND_LABELS[kind]}）</Text>
+        <Pressable style={[styles.btn, styles.outline]} onPress={onClose}>
+          <Text style={styles.btnText}>閉じる</Text>
+        </Pressable>
+      </View>
+      <Text style={styles.note}>{fileName ?? ''}</Text>
+      <Text style={styles.note}>※列をタップして、その列が何を表すかを選んでください。</Text>
+      {!!missing.length && (
+        <Text style={[styles.note, styles.warn]}>
+          未設定の必須項目：{missing.map(f => fieldLabel(f, paymentMethods)).join('、')}
+        </Text>
+      )}
+
+      {kind === 'stats' && (
+        <>
+          <Text style={styles.label}>1行の単位（会計明細は日ごとに合計し、組数は会計IDの数で数えます）</Text>
+          <View style={styles.chipRow}>
+            {(Object.keys(LAYOUT_LABELS) as SourceLayout[]).map(l => (
+              <Pressable key={l} style={[styles.chip, layout === l && styles.chipActive]} onPress={() => setLayout(l)}>
+                <Text style={styles.chipText}>{LAYOUT_LABELS[l]}</Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      )}
+
+      {headers.map(header => {
+        const field = mapping[header];
+        const open = openHeader === header;
+        return (
+          <View key={header} style={styles.card}>
+            <Pressable onPress={() => setOpenHeader(open ? null : header)}>
+              <View style={styles.spaceBetween}>
+                <Text style={styles.itemName}>{header}</Text>
+                <Text style={[styles.itemMeta, !!field && styles.mapped]}>
+                  {field ? `→ ${fieldLabel(field, paymentMethods)}` : '未使用'}
+                </Text>
+              </View>
+              <Text style={styles.itemMeta}>見本：{samples[header] || '（空）'}</Text>
+            </Pressable>
+
+            {open && (
+              <View style={styles.chipRow}>
+                <Pressable style={[styles.chip, !field && styles.chipActive]} onPress={() => assign(header, null)}>
+                  <Text style={styles.chipText}>未使用</Text>
+                </Pressable>
+                {fieldsOf(kind, paymentMethods).map(f => (
+                  <Pressable key={f} style={[styles.chip, field === f && styles.chipActive]} onPress={() => assign(header, f)}>
+                    <Text style={styles.chipText}>{fieldLabel(f, paymentMethods)}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+          </View>
+        );
+      })}
+
+      <Text style={styles.label}>プロファイル名（次回、同じ列のファイルで自動適用）</Text>
+      <TextInput style={styles.input} value={name} onChangeText={setName} placeholder="例：Airレジ 商品別" />
+
+      <View style={styles.row}>
+        <Pressable
+          style={[styles.btn, styles.primary]}
+          onPress={() => onApply(mapping, layout, name.trim() || fileName || KIND_LABELS[kind])}
+        >
+          <Text style={[styles.btnText, styles.primaryText]}>保存して適用</Text>
+        </Pressable>
+        <Pressable style={styles.btn} onPress={() => onApply(mapping, layout)}>
+          <Text style={styles.btnText}>今回だけ適用</Text>
+        </Pressable>
+      </View>
+      <View style={styles.spacer} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, gap: 12 },
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  h1: { fontSize: 18, fontWeight: '700' },
+  note: { fontSize: 12, color: '#666' },
+  warn: { color: '#c9302c' },
+  label: { fontSize: 12, color: '#444' },
+  row: { flexDirection: 'row', gap: 8, alignItems: 'center' },
+  spaceBetween: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', gap: 8 },
+  btn: { paddingVertical: 10, paddingHorizontal: 14, borderRadius: 10, backgroundColor: '#f2f2f7' },
+  btnText: { fontSize: 14, fontWeight: '600', color: '#111' },
+  primary: { backgroundColor: '#007aff' },
+  primaryText: { color: '#fff' },
+  outline: { backgroundColor: '#fff', borderWidth: 1, borderColor: '#c7c7cc' },
+  input: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#c7c7cc',
+    backgroundColor: '#fff',
+    fontSize: 14,
+  },
+  card: {
+    padding: 12,
+    gap: 8,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e5e5ea',
+    backgroundColor: '#fbfbfd',
+  },
+  itemName: { fontSize: 13, fontWeight: '600', flexShrink: 1 },
+  itemMeta: { fontSize: 12, color: '#666' },
+  mapped: { color: '#007aff', fontWeight: '600' },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, backgroundColor: '#f2f2f7' },
+  chipActive: { backgroundColor: '#e7f0ff' },
+  chipText: { fontSize: 12, fontWeight: '600' },
+  spacer: { height: 32 },
+});
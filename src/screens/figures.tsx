@@ -0,0 +1,261 @@
+﻿// src/screens/figures.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+
+import { BUCKET_LABELS } from '../report/allocate';
+import { displayItems } from '../report/catalog';
+import type { MenuCatalog } from '../report/catalog';
+import { coursePath, getFigure } from '../report/overrides';
+import type { FigurePath } from '../report/overrides';
+import { TOTAL_KEY, TOTAL_LABEL, paymentRows } from '../report/payments';
+import type { PaymentMethod } from '../report/payments';
+import { TAX_FIELDS, TAX_LABELS } from '../report/tax';
+import { jpCurrency } from '../report/render';
+import type { AssignBucket, DailyReport } from '../report/types';
+
+type Props = {
+  dateLabel: string;
+  report: DailyReport;
+  catalog: MenuCatalog;
+  paymentMethods: PaymentMethod[];
+  // 1項目ずつ確定（元に戻すの対象になる）
+  onChange: (path: FigurePath, value: number) => void;
+  onReset: (path: FigurePath) => void;
+  // その他の支払を支払方法として登録する
+  onPromote: (label: string) => void;
+  onClose: () => void;
+};
+
+const BUCKET_FIELDS: Record<AssignBucket, string> = {
+  normal: 'ramenTotals',
+  set: 'ramenSetTotals',
+  course: 'ramenCourseTotals',
+};
+
+// 「¥1,200」「1200」どちらでも。数値でなければ null
+const toNumber = (text: string, allowNegative: boolean) => {
+  const cleaned = text.replace(/[¥￥,\s]/g, '');
+  if (!cleaned || !/^-?\d+$/.test(cleaned)) {
+    return null;
+  }
+  const n = Number(cleaned);
+  return allowNegative ? n : Math.max(0, n);
+};
+
+type RowProps = {
+  label: string;
+  path: FigurePath;
+  report: DailyReport;
+  yen?: boolean;
+  onChange: (path: FigurePath, value: number) => void;
+  onReset: (path: FigurePath) => void;
+  children?: React.ReactNode;
+};
+
+function FigureRow({ label, path, report, yen, onChange, onReset, children }: RowProps) {
+  const value = getFigure(report, path);
+  const override = report.overrides?.[path];
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => setText(String(value)), [value]);
+
+  const commit = () => {
+    const next = toNumber(text, !!yen);
+    if (next === null || next === value) {
+      setText(String(value));
+      return;
+    }
+    onChange(path, next);
+  };
+
+  return (
+    <View style={styles.figureRow}>
+      <Text style={[styles.figureLabel, override && styles.overridden]} numberOfLines={1}>
+        {override ? '✎ ' : ''}{label}
+      </Text>
+      <TextInput
+        style={[styles.input, styles.figureInput, override && styles.inputOverridden]}
+        value={text}
+        onChangeText={setText}
+        onBlur={commit}
+        onSubmitEditing={commit}
+        keyboardType={yen ? 'numbers-and-punctuation' : 'number-pad'}
+        selectTextOnFocus
+      />
+      {override ? (
+        <Pressable style={styles.chip} onPress={() => onReset(path)}>
+          <Text style={styles.chipText}>取込値 {yen ? jpCurrency(override.imported) : override.imported} に戻す</Text>
+        </Pressable>
+      ) : null}
+      {children}
+    </View>
+  );
+}
+
+export default function FiguresScreen({
+  dateLabel,
+  report,
+  catalog,
+  paymentMethods,
+  onChange,
+  onReset,
+  onPromote,
+  onClose,
+}: Props) {
+  const [newLabel, setNewLabel] = useState('');
+  const [newAmount, setNewAmount] = useState('');
+  const row = (label: string, path: FigurePath, yen?: boolean, children?: React.ReactNode) => (
+    <FigureRow key={path} label={label} path={path} report={report} yen={yen} onChange={onChange} onReset={onReset}>
+      {children}
+    </FigureRow>
+  );
+
+  // 同じ名称・コースは 1 行にまとめて表示
+  const otherLabels = Array.from(new Set(report.meta.otherPayments.map(p => p.label)));
+  const courses = Array.from(new Map(report.coursePeople.map(c => [coursePath(c.label, c.price), c])).entries());
+
+  const addOtherPayment = () => {
+    const label = newLabel.trim();
+    const amount = toNumber(newAmount, true);
+    if (!label || amount === null) {
+      Alert.alert('入力エラー', '支払方法の名前と金額を入力してください。');
+      return;
+    }
+    if (otherLabels.includes(label)) {
+      Alert.alert('入力エラー', `「${label}」はすでにあります。上の欄で直してください。`);
+      return;
+    }
+    onChange(`otherPayments.${label}`, amount);
+    setNewLabel('');
+    setNewAmount('');
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.h1}>数値の修正　{dateLabel}</Text>
+        <Pressable style={[styles.btn, styles.outline]} onPress={onClose}>
+          <Text style={styles.btnText}>閉じる</Text>
+        </Pressable>
+      </View>
+      <Text style={styles.note}>※入力欄を離れると確定します。✎ は手入力で直した項目です（取込値は別に残ります）。</Text>
+
+      <Text style={styles.h2}>支払</Text>
+      <View style={styles.card}>
+        {row(TOTAL_LABEL, `payments.${TOTAL_KEY}`, true)}
+        {paymentRows(report.meta.payments, paymentMethods).map(p => row(p.label, `payments.${p.key}`, true))}
+        {otherLabels.map(label =>
+          row(label, `otherPayments.${label}`, true, (
+            <Pressable style={styles.chip} onPress={() => onPromote(label)}>
+              <Text style={styles.chipText}>支払方法に登録</Text>
+            </Pressable>
+          ))
+        )}
+        <View style={styles.figureRow}>
+          <TextInput
+            style={[styles.input, styles.figureLabelInput]}
+            value={newLabel}
+            onChangeText={setNewLabel}
+            placeholder="その他の支払方法"
+          />
+          <TextInput
+            style={[styles.input, styles.figureInput]}
+            value={newAmount}
+            onChangeText={setNewAmount}
+            keyboardType="numbers-and-punctuation"
+            placeholder="0"
+          />
+          <Pressable style={styles.chip} onPress={addOtherPayment}>
+            <Text style={styles.chipText}>追加</Text>
+          </Pressable>
+        </View>
+      </View>
+
+      {report.meta.tax && (
+        <>
+          <Text style={styles.h2}>税・割引</Text>
+          <View style={styles.card}>
+            {TAX_FIELDS.map(f => row(TAX_LABELS[f], `tax.${f}`, true))}
+          </View>
+        </>
+      )}
+
+      <Text style={styles.h2}>組数・人数</Text>
+      <View style={styles.card}>
+        {row('組数', 'groups')}
+        {row('人数', 'people')}
+      </View>
+
+      <Text style={styles.h2}>ラーメン</Text>
+      {displayItems(catalog, 'ramen').map(({ key, label }) => (
+        <View key={key} style={styles.card}>
+          <Text style={styles.itemTitle}>{label}</Text>
+          {(Object.keys(BUCKET_FIELDS) as AssignBucket[]).map(bucket =>
+            row(BUCKET_LABELS[bucket], `${BUCKET_FIELDS[bucket]}.${key}`)
+          )}
+        </View>
+      ))}
+
+      <Text style={styles.h2}>サイド</Text>
+      <View style={styles.card}>
+        {displayItems(catalog, 'side').map(({ key, label }) => row(label, `sides.${key}`))}
+      </View>
+
+      {courses.length > 0 && (
+        <>
+          <Text style={styles.h2}>コース（人数）</Text>
+          <View style={styles.card}>
+            {courses.map(([path, c]) => row(c.price > 0 ? `${c.label}${c.price}` : c.label, path))}
+          </View>
+        </>
+      )}
+      <View style={styles.spacer} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, gap: 12 },
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  h1: { fontSize: 18, fontWeight: '700' },
+  h2: { fontSize: 16, fontWeight: '600' },
+  note: { fontSize: 12, color: '#666' },
+  btn: { paddingVertical: 10, paddingHorizontal: 14, borderRadius: 10, backgroundColor: '#f2f2f7' },
+  btnText: { fontSize: 14, fontWeight: '600', color: '#111' },
+  outline: { backgroundColor: '#fff', borderWidth: 1, borderColor: '#c7c7cc' },
+  input: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#c7c7cc',
+    backgroundColor: '#fff',
+    fontSize: 14,
+  },
+  inputOverridden: { borderColor: '#ff9500', backgroundColor: '#fff8ec' },
+  card: {
+    padding: 12,
+    gap: 8,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e5e5ea',
+    backgroundColor: '#fbfbfd',
+  },
+  itemTitle: { fontSize: 14, fontWeight: '600' },
+  figureRow: { flexDirection: 'row', alignItems: 'center', gap: 8, flexWrap: 'wrap' },
+  figureLabel: { width: 120, fontSize: 14 },
+  figureLabelInput: { width: 120 },
+  figureInput: { width: 110, textAlign: 'right' },
+  overridden: { color: '#c96a00', fontWeight: '600' },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, backgroundColor: '#f2f2f7' },
+  chipText: { fontSize: 12, fontWeight: '600' },
+  spacer: { height: 32 },
+});
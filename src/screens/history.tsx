@@ -0,0 +1,141 @@
+﻿// src/screens/history.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+import type { MenuCatalog } from '../report/catalog';
+import type { DailyRecord } from '../report/history';
+import type { PaymentMethod } from '../report/payments';
+import { jpCurrency, jpDateLabel, renderOutput } from '../report/render';
+import { DEFAULT_TEMPLATE } from '../report/reportTemplates';
+import type { Store } from '../report/stores';
+import { deleteDailyRecord, loadHistory } from '../storage/history';
+import { confirm } from '../ui/confirm';
+
+type Props = {
+  // 表示する履歴の店舗
+  store: Store;
+  catalog: MenuCatalog;
+  paymentMethods: PaymentMethod[];
+  onReopen: (record: DailyRecord) => void;
+  onClose: () => void;
+};
+
+export default function HistoryScreen({ store, catalog, paymentMethods, onReopen, onClose }: Props) {
+  const [records, setRecords] = useState<DailyRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<DailyRecord | null>(null);
+
+  useEffect(() => {
+    loadHistory(store.id)
+      .then(setRecords)
+      .finally(() => setLoading(false));
+  }, [store.id]);
+
+  const onDelete = async (record: DailyRecord) => {
+    const label = jpDateLabel(record.meta.dateISO);
+    if (!(await confirm('削除', `${label} の日報を削除しますか？`, '削除'))) {
+      return;
+    }
+    try {
+      await deleteDailyRecord(record.meta.dateISO, store.id);
+    } catch (e: any) {
+      Alert.alert('削除エラー', e?.message ?? String(e));
+      return;
+    }
+    setRecords(prev => prev.filter(r => r.meta.dateISO !== record.meta.dateISO));
+    setSelected(null);
+  };
+
+  if (selected) {
+    const files = [selected.sourceFiles.product, selected.sourceFiles.stats].filter(Boolean).join(' / ');
+    return (
+      <ScrollView contentContainerStyle={styles.container}>
+        <View style={styles.headerRow}>
+          <Text style={styles.h1}>{jpDateLabel(selected.meta.dateISO)}</Text>
+          <Pressable style={[styles.btn, styles.outline]} onPress={() => setSelected(null)}>
+            <Text style={styles.btnText}>一覧へ</Text>
+          </Pressable>
+        </View>
+        <Text style={styles.note}>元ファイル：{files || '（不明）'}</Text>
+        <Text style={styles.note}>保存日時：{new Date(selected.savedAt).toLocaleString('ja-JP')}</Text>
+        <View style={styles.outputBox}>
+          <Text style={styles.mono}>{renderOutput(selected, catalog, DEFAULT_TEMPLATE, paymentMethods)}</Text>
+        </View>
+        <View style={styles.row}>
+          <Pressable style={[styles.btn, styles.primary]} onPress={() => onReopen(selected)}>
+            <Text style={[styles.btnText, styles.primaryText]}>開いて修正</Text>
+          </Pressable>
+          <Pressable style={[styles.btn, styles.danger]} onPress={() => onDelete(selected)}>
+            <Text style={styles.btnText}>削除</Text>
+          </Pressable>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.h1}>日報の履歴　{store.name}</Text>
+        <Pressable style={[styles.btn, styles.outline]} onPress={onClose}>
+          <Text style={styles.btnText}>閉じる</Text>
+        </Pressable>
+      </View>
+
+      {loading && <Text style={styles.note}>読み込み中…</Text>}
+      {!loading && !records.length && <Text style={styles.note}>（保存された日報はありません）</Text>}
+
+      {records.map(record => (
+        <Pressable key={record.meta.dateISO} style={styles.card} onPress={() => setSelected(record)}>
+          <Text style={styles.itemName}>{jpDateLabel(record.meta.dateISO)}　{record.meta.dateISO.slice(0, 4)}</Text>
+          <Text style={styles.itemMeta}>
+            {jpCurrency(record.meta.payments.total)}　{record.meta.groups}組 {record.meta.people}人
+          </Text>
+        </Pressable>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, gap: 12 },
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  h1: { fontSize: 18, fontWeight: '700' },
+  note: { fontSize: 12, color: '#666' },
+  row: { flexDirection: 'row', gap: 8, alignItems: 'center' },
+  btn: { paddingVertical: 10, paddingHorizontal: 14, borderRadius: 10, backgroundColor: '#f2f2f7' },
+  btnText: { fontSize: 14, fontWeight: '600', color: '#111' },
+  primary: { backgroundColor: '#007aff' },
+  primaryText: { color: '#fff' },
+  outline: { backgroundColor: '#fff', borderWidth: 1, borderColor: '#c7c7cc' },
+  danger: { backgroundColor: '#ffe7e7' },
+  card: {
+    padding: 12,
+    gap: 4,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e5e5ea',
+    backgroundColor: '#fbfbfd',
+  },
+  itemName: { fontSize: 14, fontWeight: '600' },
+  itemMeta: { fontSize: 13, color: '#444' },
+  outputBox: {
+    padding: 12,
+    backgroundColor: '#fbfbfd',
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e5e5ea',
+  },
+  mono: {
+    fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'Courier' }),
+    fontSize: 14, lineHeight: 20,
+  },
+});
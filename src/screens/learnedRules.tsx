@@ -0,0 +1,141 @@
+﻿// src/screens/learnedRules.tsx
+import React, { useState } from 'react';
+import {
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+import { BUCKET_LABELS } from '../report/allocate';
+import { displayItems, labelOf } from '../report/catalog';
+import type { MenuCatalog } from '../report/catalog';
+import type { LearnedRule } from '../report/rules';
+import type { AssignBucket } from '../report/types';
+import { confirm } from '../ui/confirm';
+
+type Props = {
+  rules: LearnedRule[];
+  catalog: MenuCatalog;
+  onSave: (rules: LearnedRule[]) => void;
+  onClose: () => void;
+};
+
+const BUCKETS: AssignBucket[] = ['normal', 'set', 'course'];
+
+export default function LearnedRulesScreen({ rules, catalog, onSave, onClose }: Props) {
+  const [draft, setDraft] = useState<LearnedRule[]>(rules);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const ramenItems = displayItems(catalog, 'ramen');
+
+  const updateRule = (id: string, patch: Partial<LearnedRule>) => {
+    setDraft(prev => prev.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const removeRule = async (rule: LearnedRule) => {
+    if (!(await confirm('削除', `「${rule.productName}」のルールを削除しますか？`, '削除'))) {
+      return;
+    }
+    setDraft(prev => prev.filter(r => r.id !== rule.id));
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.h1}>学習ルール</Text>
+        <Pressable style={[styles.btn, styles.outline]} onPress={onClose}>
+          <Text style={styles.btnText}>閉じる</Text>
+        </Pressable>
+      </View>
+      <Text style={styles.note}>※未振り分けで手動配分した商品名を、次回から自動で計上します。</Text>
+
+      {!draft.length && <Text style={styles.note}>（記憶したルールはありません）</Text>}
+
+      {draft.map(rule => {
+        const editing = editingId === rule.id;
+        const known = ramenItems.some(it => it.key === rule.key);
+        return (
+          <View key={rule.id} style={styles.card}>
+            <Text style={styles.itemName}>{rule.productName}</Text>
+            <Text style={[styles.itemMeta, !known && styles.warn]}>
+              → {labelOf(catalog, rule.key)}（{BUCKET_LABELS[rule.bucket]}）
+              {!known ? '　※メニューにない銘柄のため適用されません' : ''}
+            </Text>
+
+            {editing && (
+              <>
+                <View style={styles.chipRow}>
+                  {ramenItems.map(({ key, label }) => (
+                    <Pressable
+                      key={key}
+                      style={[styles.chip, rule.key === key && styles.chipActive]}
+                      onPress={() => updateRule(rule.id, { key })}
+                    >
+                      <Text style={styles.chipText}>{label}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <View style={styles.chipRow}>
+                  {BUCKETS.map(bucket => (
+                    <Pressable
+                      key={bucket}
+                      style={[styles.chip, rule.bucket === bucket && styles.chipActive]}
+                      onPress={() => updateRule(rule.id, { bucket })}
+                    >
+                      <Text style={styles.chipText}>{BUCKET_LABELS[bucket]}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <View style={styles.row}>
+              <Pressable style={styles.chip} onPress={() => setEditingId(editing ? null : rule.id)}>
+                <Text style={styles.chipText}>{editing ? '完了' : '編集'}</Text>
+              </Pressable>
+              <Pressable style={[styles.chip, styles.chipDanger]} onPress={() => removeRule(rule)}>
+                <Text style={styles.chipText}>削除</Text>
+              </Pressable>
+            </View>
+          </View>
+        );
+      })}
+
+      <Pressable style={[styles.btn, styles.primary]} onPress={() => onSave(draft)}>
+        <Text style={[styles.btnText, styles.primaryText]}>保存</Text>
+      </Pressable>
+      <View style={styles.spacer} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, gap: 12 },
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  h1: { fontSize: 18, fontWeight: '700' },
+  note: { fontSize: 12, color: '#666' },
+  row: { flexDirection: 'row', gap: 8, alignItems: 'center' },
+  btn: { paddingVertical: 10, paddingHorizontal: 14, borderRadius: 10, backgroundColor: '#f2f2f7' },
+  btnText: { fontSize: 14, fontWeight: '600', color: '#111' },
+  primary: { backgroundColor: '#007aff' },
+  primaryText: { color: '#fff' },
+  outline: { backgroundColor: '#fff', borderWidth: 1, borderColor: '#c7c7cc' },
+  card: {
+    padding: 12,
+    gap: 8,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e5e5ea',
+    backgroundColor: '#fbfbfd',
+  },
+  itemName: { fontSize: 13, fontWeight: '600' },
+  itemMeta: { fontSize: 12, color: '#666' },
+  warn: { color: '#c9302c' },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, backgroundColor: '#f2f2f7' },
+  chipActive: { backgroundColor: '#e7f0ff' },
+  chipDanger: { backgroundColor: '#ffe7e7' },
+  chipText: { fontSize: 12, fontWeight: '600' },
+  spacer: { height: 32 },
+});
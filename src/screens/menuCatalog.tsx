@@ -0,0 +1,265 @@
+﻿// src/screens/menuCatalog.tsx
+import React, { useState } from 'react';
+import {
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+
+import {
+  DEFAULT_MENU_CATALOG,
+  MENU_CATEGORY_LABELS,
+  findInvalidPatterns,
+} from '../report/catalog';
+import type { MenuCatalog, MenuCategory, MenuItem } from '../report/catalog';
+import { confirm } from '../ui/confirm';
+
+type Props = {
+  catalog: MenuCatalog;
+  onSave: (catalog: MenuCatalog) => void;
+  onClose: () => void;
+};
+
+type PatternListKey = 'excludePatterns' | 'ambiguousPatterns' | 'courseNamePatterns' | 'courseCategoryPatterns' | 'ramenishPatterns';
+
+const PATTERN_LIST_LABELS: Record<PatternListKey, string> = {
+  excludePatterns: '完全除外（どこにも出さない）',
+  ambiguousPatterns: '常に未振り分けへ送る',
+  courseNamePatterns: 'コース判定（商品名）',
+  courseCategoryPatterns: 'コース判定（カテゴリ列）',
+  ramenishPatterns: '銘柄不明のラーメン → 未振り分け',
+};
+
+const CATEGORIES: MenuCategory[] = ['ramen', 'side', 'course'];
+
+// 1行1パターンで編集（空行は保存時に除く）
+const splitLines = (text: string) => text.split('\n');
+const cleanLines = (lines: string[]) => lines.map(s => s.trim()).filter(Boolean);
+
+export default function MenuCatalogScreen({ catalog, onSave, onClose }: Props) {
+  const [draft, setDraft] = useState<MenuCatalog>(catalog);
+
+  const updateItem = (index: number, patch: Partial<MenuItem>) => {
+    setDraft(prev => ({
+      ...prev,
+      items: prev.items.map((it, i) => (i === index ? { ...it, ...patch } : it)),
+    }));
+  };
+
+  // 判定の優先順（items の並び）を入れ替え
+  const moveItem = (index: number, delta: number) => {
+    setDraft(prev => {
+      const to = index + delta;
+      if (to < 0 || to >= prev.items.length) {
+        return prev;
+      }
+      const items = [...prev.items];
+      [items[index], items[to]] = [items[to], items[index]];
+      return { ...prev, items };
+    });
+  };
+
+  const removeItem = async (index: number) => {
+    const item = draft.items[index];
+    if (!(await confirm('削除', `「${item.label}」をメニューから外しますか？`, '削除'))) {
+      return;
+    }
+    setDraft(prev => ({ ...prev, items: prev.items.filter((_it, i) => i !== index) }));
+  };
+
+  const addItem = () => {
+    setDraft(prev => {
+      const order = prev.items.filter(it => it.category === 'ramen').reduce((m, it) => Math.max(m, it.order), 0) + 1;
+      // 新しい限定麺は既存銘柄より先に判定されるよう先頭に追加
+      const item: MenuItem = { key: '', label: '', order, patterns: [], setAllowed: false, category: 'ramen' };
+      return { ...prev, items: [item, ...prev.items] };
+    });
+  };
+
+  const save = () => {
+    const items = draft.items.map(it => ({
+      ...it,
+      key: it.key.trim() || it.label.trim(),
+      label: it.label.trim() || it.key.trim(),
+      patterns: cleanLines(it.patterns),
+    }));
+    if (items.some(it => !it.key)) {
+      Alert.alert('入力不足', '名前（キー）が空のメニューがあります。');
+      return;
+    }
+    const keys = items.map(it => it.key);
+    const dup = keys.find((k, i) => keys.indexOf(k) !== i);
+    if (dup) {
+      Alert.alert('重複', `キー「${dup}」が重複しています。`);
+      return;
+    }
+    const next: MenuCatalog = {
+      ...draft,
+      items,
+      excludePatterns: cleanLines(draft.excludePatterns),
+      ambiguousPatterns: cleanLines(draft.ambiguousPatterns),
+      courseNamePatterns: cleanLines(draft.courseNamePatterns),
+      courseCategoryPatterns: cleanLines(draft.courseCategoryPatterns),
+      ramenishPatterns: cleanLines(draft.ramenishPatterns),
+    };
+    const invalid = findInvalidPatterns(next);
+    if (invalid.length) {
+      Alert.alert('パターンエラー', `正規表現が不正です：\n${invalid.join('\n')}`);
+      return;
+    }
+    onSave(next);
+  };
+
+  const resetToDefault = async () => {
+    if (!(await confirm('初期化', 'メニューを初期設定に戻しますか？', '初期化'))) {
+      return;
+    }
+    setDraft(DEFAULT_MENU_CATALOG);
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.h1}>メニュー設定</Text>
+        <Pressable style={[styles.btn, styles.outline]} onPress={onClose}>
+          <Text style={styles.btnText}>閉じる</Text>
+        </Pressable>
+      </View>
+      <Text style={styles.note}>※上にあるメニューほど先に判定されます。パターンは1行に1つ（正規表現）。</Text>
+
+      <Pressable style={styles.btn} onPress={addItem}>
+        <Text style={styles.btnText}>＋メニューを追加</Text>
+      </Pressable>
+
+      {draft.items.map((item, i) => (
+        <View key={`item-${i}`} style={styles.card}>
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.flex]}
+              value={item.label}
+              placeholder="表示名"
+              onChangeText={label => updateItem(i, { label })}
+            />
+            <TextInput
+              style={[styles.input, styles.orderInput]}
+              value={String(item.order)}
+              keyboardType="number-pad"
+              onChangeText={v => updateItem(i, { order: Number(v.replace(/\D/g, '')) || 0 })}
+            />
+          </View>
+          <TextInput
+            style={styles.input}
+            value={item.key}
+            placeholder="キー（集計・保存に使う名前）"
+            onChangeText={key => updateItem(i, { key })}
+          />
+          <View style={styles.chipRow}>
+            {CATEGORIES.map(cat => (
+              <Pressable
+                key={cat}
+                style={[styles.chip, item.category === cat && styles.chipActive]}
+                onPress={() => updateItem(i, { category: cat })}
+              >
+                <Text style={styles.chipText}>{MENU_CATEGORY_LABELS[cat]}</Text>
+              </Pressable>
+            ))}
+          </View>
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            multiline
+            value={item.patterns.join('\n')}
+            placeholder="判定パターン（1行に1つ）"
+            onChangeText={text => updateItem(i, { patterns: splitLines(text) })}
+          />
+          <View style={styles.row}>
+            {item.category === 'ramen' && (
+              <>
+                <Text style={styles.label}>セット可</Text>
+                <Switch value={item.setAllowed} onValueChange={setAllowed => updateItem(i, { setAllowed })} />
+              </>
+            )}
+            <View style={styles.flex} />
+            <Pressable style={styles.chip} onPress={() => moveItem(i, -1)}>
+              <Text style={styles.chipText}>↑</Text>
+            </Pressable>
+            <Pressable style={styles.chip} onPress={() => moveItem(i, 1)}>
+              <Text style={styles.chipText}>↓</Text>
+            </Pressable>
+            <Pressable style={[styles.chip, styles.chipDanger]} onPress={() => removeItem(i)}>
+              <Text style={styles.chipText}>削除</Text>
+            </Pressable>
+          </View>
+        </View>
+      ))}
+
+      <Text style={styles.h2}>判定ルール</Text>
+      {(Object.keys(PATTERN_LIST_LABELS) as PatternListKey[]).map(listKey => (
+        <View key={listKey} style={styles.card}>
+          <Text style={styles.label}>{PATTERN_LIST_LABELS[listKey]}</Text>
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            multiline
+            value={draft[listKey].join('\n')}
+            onChangeText={text => setDraft(prev => ({ ...prev, [listKey]: splitLines(text) }))}
+          />
+        </View>
+      ))}
+
+      <View style={styles.row}>
+        <Pressable style={[styles.btn, styles.primary]} onPress={save}>
+          <Text style={[styles.btnText, styles.primaryText]}>保存</Text>
+        </Pressable>
+        <Pressable style={[styles.btn, styles.outline]} onPress={resetToDefault}>
+          <Text style={styles.btnText}>初期設定に戻す</Text>
+        </Pressable>
+      </View>
+      <View style={styles.spacer} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, gap: 12 },
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  h1: { fontSize: 18, fontWeight: '700' },
+  h2: { fontSize: 16, fontWeight: '600', marginTop: 8 },
+  note: { fontSize: 12, color: '#666' },
+  row: { flexDirection: 'row', gap: 8, alignItems: 'center' },
+  flex: { flex: 1 },
+  btn: { paddingVertical: 10, paddingHorizontal: 14, borderRadius: 10, backgroundColor: '#f2f2f7' },
+  btnText: { fontSize: 14, fontWeight: '600', color: '#111' },
+  primary: { backgroundColor: '#007aff' },
+  primaryText: { color: '#fff' },
+  outline: { backgroundColor: '#fff', borderWidth: 1, borderColor: '#c7c7cc' },
+  card: {
+    padding: 12,
+    gap: 8,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e5e5ea',
+    backgroundColor: '#fbfbfd',
+  },
+  label: { fontSize: 13, fontWeight: '600', color: '#444' },
+  input: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#c7c7cc',
+    backgroundColor: '#fff',
+    fontSize: 14,
+  },
+  orderInput: { width: 56, textAlign: 'center' },
+  multiline: { minHeight: 60, textAlignVertical: 'top' },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, backgroundColor: '#f2f2f7' },
+  chipActive: { backgroundColor: '#e7f0ff' },
+  chipDanger: { backgroundColor: '#ffe7e7' },
+  chipText: { fontSize: 12, fontWeight: '600' },
+  spacer: { height: 32 },
+});
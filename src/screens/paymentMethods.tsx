@@ -0,0 +1,191 @@
+﻿// src/screens/paymentMethods.tsx
+import React, { useState } from 'react';
+import {
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+
+import { CASH_KEY, DEFAULT_PAYMENT_METHODS, newPaymentKey, paymentMethodsError, sortPaymentMethods } from '../report/payments';
+import type { PaymentMethod } from '../report/payments';
+import { confirm } from '../ui/confirm';
+
+type Props = {
+  methods: PaymentMethod[];
+  onSave: (methods: PaymentMethod[]) => void;
+  onClose: () => void;
+};
+
+// 1行1列名で編集（空行は保存時に除く）
+const splitLines = (text: string) => text.split('\n');
+const cleanLines = (lines: string[]) => lines.map(s => s.trim()).filter(Boolean);
+
+export default function PaymentMethodsScreen({ methods, onSave, onClose }: Props) {
+  const [draft, setDraft] = useState<PaymentMethod[]>(() => sortPaymentMethods(methods));
+  // 保存済みの支払方法はキーを変えない（履歴の金額がキーで残っているため）
+  const [savedKeys] = useState(() => new Set(methods.map(m => m.key)));
+
+  const updateMethod = (index: number, patch: Partial<PaymentMethod>) => {
+    setDraft(prev => prev.map((m, i) => (i === index ? { ...m, ...patch } : m)));
+  };
+
+  const removeMethod = async (index: number) => {
+    const method = draft[index];
+    const ok = await confirm(
+      '削除',
+      `「${method.label}」を支払方法から外しますか？\n（履歴の金額は残り、キーの名前で表示されます）`,
+      '削除'
+    );
+    if (!ok) {
+      return;
+    }
+    setDraft(prev => prev.filter((_m, i) => i !== index));
+  };
+
+  const addMethod = () => {
+    setDraft(prev => {
+      const order = prev.reduce((max, m) => Math.max(max, m.order), 0) + 1;
+      return [...prev, { key: newPaymentKey(), label: '', aliases: [], order, cashless: true }];
+    });
+  };
+
+  const save = () => {
+    const next = draft.map(m => ({ ...m, key: m.key.trim(), label: m.label.trim(), aliases: cleanLines(m.aliases) }));
+    if (next.some(m => !m.key)) {
+      Alert.alert('入力不足', 'キーが空の支払方法があります。');
+      return;
+    }
+    const error = paymentMethodsError(next);
+    if (error) {
+      Alert.alert('入力エラー', error);
+      return;
+    }
+    onSave(next);
+  };
+
+  const resetToDefault = async () => {
+    if (!(await confirm('初期化', '支払方法を初期設定に戻しますか？', '初期化'))) {
+      return;
+    }
+    setDraft(DEFAULT_PAYMENT_METHODS);
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.h1}>支払方法の設定</Text>
+        <Pressable style={[styles.btn, styles.outline]} onPress={onClose}>
+          <Text style={styles.btnText}>閉じる</Text>
+        </Pressable>
+      </View>
+      <Text style={styles.note}>
+        ※順番の小さいものから上に並びます。列名は1行に1つ（取込ファイルのこの列をこの支払方法として集計します）。
+      </Text>
+
+      {draft.map((method, i) => (
+        <View key={`method-${i}`} style={styles.card}>
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.flex]}
+              value={method.label}
+              placeholder="表示名"
+              onChangeText={label => updateMethod(i, { label })}
+            />
+            <TextInput
+              style={[styles.input, styles.orderInput]}
+              value={String(method.order)}
+              keyboardType="number-pad"
+              onChangeText={v => updateMethod(i, { order: Number(v.replace(/\D/g, '')) || 0 })}
+            />
+          </View>
+          {savedKeys.has(method.key) ? (
+            <Text style={styles.note}>キー：{method.key}</Text>
+          ) : (
+            <TextInput
+              style={styles.input}
+              value={method.key}
+              placeholder="キー（テンプレートの payment.<キー> で使う名前）"
+              autoCapitalize="none"
+              onChangeText={key => updateMethod(i, { key })}
+            />
+          )}
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            multiline
+            value={method.aliases.join('\n')}
+            placeholder="取込ファイルの列名（1行に1つ）"
+            onChangeText={text => updateMethod(i, { aliases: splitLines(text) })}
+          />
+          <View style={styles.row}>
+            <Text style={styles.label}>キャッシュレス</Text>
+            <Switch value={method.cashless} onValueChange={cashless => updateMethod(i, { cashless })} />
+            <View style={styles.flex} />
+            {/* 現金はレジ締めで使うので外せない */}
+            {method.key !== CASH_KEY && (
+              <Pressable style={[styles.chip, styles.chipDanger]} onPress={() => removeMethod(i)}>
+                <Text style={styles.chipText}>削除</Text>
+              </Pressable>
+            )}
+          </View>
+        </View>
+      ))}
+
+      <Pressable style={styles.btn} onPress={addMethod}>
+        <Text style={styles.btnText}>＋支払方法を追加</Text>
+      </Pressable>
+
+      <View style={styles.row}>
+        <Pressable style={[styles.btn, styles.primary]} onPress={save}>
+          <Text style={[styles.btnText, styles.primaryText]}>保存</Text>
+        </Pressable>
+        <Pressable style={[styles.btn, styles.outline]} onPress={resetToDefault}>
+          <Text style={styles.btnText}>初期設定に戻す</Text>
+        </Pressable>
+      </View>
+      <View style={styles.spacer} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, gap: 12 },
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  h1: { fontSize: 18, fontWeight: '700' },
+  note: { fontSize: 12, color: '#666' },
+  row: { flexDirection: 'row', gap: 8, alignItems: 'center' },
+  flex: { flex: 1 },
+  btn: { paddingVertical: 10, paddingHorizontal: 14, borderRadius: 10, backgroundColor: '#f2f2f7' },
+  btnText: { fontSize: 14, fontWeight: '600', color: '#111' },
+  primary: { backgroundColor: '#007aff' },
+  primaryText: { color: '#fff' },
+  outline: { backgroundColor: '#fff', borderWidth: 1, borderColor: '#c7c7cc' },
+  card: {
+    padding: 12,
+    gap: 8,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e5e5ea',
+    backgroundColor: '#fbfbfd',
+  },
+  label: { fontSize: 13, fontWeight: '600', color: '#444' },
+  input: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#c7c7cc',
+    backgroundColor: '#fff',
+    fontSize: 14,
+  },
+  orderInput: { width: 56, textAlign: 'center' },
+  multiline: { minHeight: 60, textAlignVertical: 'top' },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, backgroundColor: '#f2f2f7' },
+  chipDanger: { backgroundColor: '#ffe7e7' },
+  chipText: { fontSize: 12, fontWeight: '600' },
+  spacer: { height: 32 },
+});
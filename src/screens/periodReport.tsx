@@ -0,0 +1,253 @@
+﻿// src/screens/periodReport.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import Clipboard from '@react-native-clipboard/clipboard';
+
+import { exportFile } from '../io/exportFile';
+import type { MenuCatalog } from '../report/catalog';
+import { addDaysISO, addMonthsISO, isISODate, periodRangeOf } from '../report/dates';
+import type { PeriodKind } from '../report/dates';
+import { combinePeriod, renderCombinedOutput } from '../report/combined';
+import type { StoreRecords } from '../report/combined';
+import { mergePaymentMethods } from '../report/payments';
+import type { PaymentMethod } from '../report/payments';
+import { aggregatePeriod, renderPeriodOutput } from '../report/period';
+import { periodToCsv, periodToXlsxBase64 } from '../report/periodExport';
+import { mergeCatalogs } from '../report/stores';
+import type { Store } from '../report/stores';
+import { loadHistory } from '../storage/history';
+import { loadMenuCatalog } from '../storage/menuCatalog';
+import { loadPaymentMethods } from '../storage/paymentMethods';
+
+type Props = {
+  // 表示中の店舗とそのメニュー・支払方法
+  store: Store;
+  catalog: MenuCatalog;
+  paymentMethods: PaymentMethod[];
+  // 2 店舗以上なら全店舗の合算も選べる
+  stores: Store[];
+  anchorISO: string;
+  onClose: () => void;
+};
+
+type Mode = PeriodKind | 'custom';
+
+type Scope = 'store' | 'all';
+
+const MODE_LABELS: Record<Mode, string> = {
+  day: '日',
+  week: '週',
+  month: '月',
+  custom: '期間指定',
+};
+
+export default function PeriodReportScreen({ store, catalog, paymentMethods, stores, anchorISO, onClose }: Props) {
+  const [entries, setEntries] = useState<StoreRecords[]>([]);
+  const [catalogs, setCatalogs] = useState<MenuCatalog[]>([]);
+  const [methodLists, setMethodLists] = useState<PaymentMethod[][]>([]);
+  const [scope, setScope] = useState<Scope>('store');
+  const [mode, setMode] = useState<Mode>('week');
+  const [range, setRange] = useState(() => periodRangeOf('week', anchorISO));
+  const [fromText, setFromText] = useState(range.fromISO);
+  const [toText, setToText] = useState(range.toISO);
+
+  // 全店舗は履歴・メニュー・支払方法を店舗ごとに読む（表示中の店舗は編集中のものを使う）
+  useEffect(() => {
+    const targets = scope === 'all' ? stores : [store];
+    Promise.all(targets.map(async s => ({ store: s, records: await loadHistory(s.id) }))).then(setEntries);
+    Promise.all(targets.map(s => (s.id === store.id ? catalog : loadMenuCatalog(s.id)))).then(setCatalogs);
+    Promise.all(targets.map(s => (s.id === store.id ? paymentMethods : loadPaymentMethods(s.id)))).then(setMethodLists);
+  }, [scope, store, stores, catalog, paymentMethods]);
+
+  const combined = useMemo(
+    () => (scope === 'all' ? combinePeriod(entries, range.fromISO, range.toISO) : null),
+    [scope, entries, range]
+  );
+  const period = useMemo(
+    () => combined ?? aggregatePeriod(entries.flatMap(e => e.records), range.fromISO, range.toISO),
+    [combined, entries, range]
+  );
+  const shownCatalog = useMemo(() => (catalogs.length ? mergeCatalogs(catalogs) : catalog), [catalogs, catalog]);
+  const shownMethods = useMemo(
+    () => (methodLists.length ? mergePaymentMethods(methodLists) : paymentMethods),
+    [methodLists, paymentMethods]
+  );
+  const output = useMemo(
+    () => (combined
+      ? renderCombinedOutput(combined, shownCatalog, shownMethods)
+      : renderPeriodOutput(period, shownCatalog, shownMethods)),
+    [combined, period, shownCatalog, shownMethods]
+  );
+
+  const applyRange = (next: { fromISO: string; toISO: string }) => {
+    setRange(next);
+    setFromText(next.fromISO);
+    setToText(next.toISO);
+  };
+
+  const selectMode = (next: Mode) => {
+    setMode(next);
+    if (next !== 'custom') {
+      applyRange(periodRangeOf(next, range.fromISO));
+    }
+  };
+
+  const shift = (delta: number) => {
+    if (mode === 'day') {
+      applyRange(periodRangeOf('day', addDaysISO(range.fromISO, delta)));
+    } else if (mode === 'week') {
+      applyRange(periodRangeOf('week', addDaysISO(range.fromISO, 7 * delta)));
+    } else if (mode === 'month') {
+      applyRange(periodRangeOf('month', addMonthsISO(range.fromISO, delta)));
+    }
+  };
+
+  const applyCustom = () => {
+    if (!isISODate(fromText) || !isISODate(toText) || fromText > toText) {
+      Alert.alert('期間エラー', '開始日・終了日を YYYY-MM-DD で入力してください（開始 ≦ 終了）。');
+      return;
+    }
+    applyRange({ fromISO: fromText, toISO: toText });
+  };
+
+  const baseName = `period_${scope === 'all' ? 'all_' : ''}${range.fromISO}_${range.toISO}`;
+
+  const onExport = async (kind: 'csv' | 'xlsx') => {
+    if (!period.days.length) {
+      Alert.alert('データなし', 'この期間に保存済みの日報がありません。');
+      return;
+    }
+    try {
+      const path = kind === 'csv'
+        ? await exportFile(`${baseName}.csv`, periodToCsv(period, shownMethods), 'utf8')
+        : await exportFile(`${baseName}.xlsx`, periodToXlsxBase64(period, shownCatalog, shownMethods), 'base64');
+      if (Platform.OS !== 'web') {
+        Alert.alert('書き出し完了', path);
+      }
+    } catch (e: any) {
+      Alert.alert('書き出しエラー', e?.message ?? String(e));
+    }
+  };
+
+  const onCopy = async () => {
+    await Clipboard.setString(output);
+    Alert.alert('コピー完了', '期間レポートをクリップボードにコピーしました。');
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.h1}>期間レポート　{scope === 'all' ? '全店舗' : store.name}</Text>
+        <Pressable style={[styles.btn, styles.outline]} onPress={onClose}>
+          <Text style={styles.btnText}>閉じる</Text>
+        </Pressable>
+      </View>
+
+      {stores.length > 1 && (
+        <View style={styles.chipRow}>
+          <Pressable style={[styles.chip, scope === 'store' && styles.chipActive]} onPress={() => setScope('store')}>
+            <Text style={styles.chipText}>{store.name}</Text>
+          </Pressable>
+          <Pressable style={[styles.chip, scope === 'all' && styles.chipActive]} onPress={() => setScope('all')}>
+            <Text style={styles.chipText}>全店舗（店舗別の内訳つき）</Text>
+          </Pressable>
+        </View>
+      )}
+
+      <View style={styles.chipRow}>
+        {(Object.keys(MODE_LABELS) as Mode[]).map(m => (
+          <Pressable key={m} style={[styles.chip, mode === m && styles.chipActive]} onPress={() => selectMode(m)}>
+            <Text style={styles.chipText}>{MODE_LABELS[m]}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {mode === 'custom' ? (
+        <View style={styles.row}>
+          <TextInput style={[styles.input, styles.flex]} value={fromText} onChangeText={setFromText} placeholder="YYYY-MM-DD" />
+          <Text>〜</Text>
+          <TextInput style={[styles.input, styles.flex]} value={toText} onChangeText={setToText} placeholder="YYYY-MM-DD" />
+          <Pressable style={styles.btn} onPress={applyCustom}>
+            <Text style={styles.btnText}>集計</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <View style={[styles.row, styles.spaceBetween]}>
+          <Pressable style={[styles.btn, styles.outline]} onPress={() => shift(-1)}>
+            <Text style={styles.btnText}>← 前へ</Text>
+          </Pressable>
+          <Text style={styles.rangeText}>{range.fromISO} 〜 {range.toISO}</Text>
+          <Pressable style={[styles.btn, styles.outline]} onPress={() => shift(1)}>
+            <Text style={styles.btnText}>次へ →</Text>
+          </Pressable>
+        </View>
+      )}
+
+      <View style={styles.outputBox}>
+        <Text style={styles.mono}>{output}</Text>
+      </View>
+
+      <View style={styles.toolbar}>
+        <Pressable style={styles.btn} onPress={onCopy}>
+          <Text style={styles.btnText}>コピー</Text>
+        </Pressable>
+        <Pressable style={styles.btn} onPress={() => onExport('csv')}>
+          <Text style={styles.btnText}>CSV書き出し</Text>
+        </Pressable>
+        <Pressable style={styles.btn} onPress={() => onExport('xlsx')}>
+          <Text style={styles.btnText}>Excel書き出し</Text>
+        </Pressable>
+      </View>
+      <View style={styles.spacer} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, gap: 12 },
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  h1: { fontSize: 18, fontWeight: '700' },
+  row: { flexDirection: 'row', gap: 8, alignItems: 'center' },
+  spaceBetween: { justifyContent: 'space-between' },
+  flex: { flex: 1 },
+  rangeText: { fontSize: 14, fontWeight: '600' },
+  btn: { paddingVertical: 10, paddingHorizontal: 14, borderRadius: 10, backgroundColor: '#f2f2f7' },
+  btnText: { fontSize: 14, fontWeight: '600', color: '#111' },
+  outline: { backgroundColor: '#fff', borderWidth: 1, borderColor: '#c7c7cc' },
+  input: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#c7c7cc',
+    backgroundColor: '#fff',
+    fontSize: 14,
+  },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, backgroundColor: '#f2f2f7' },
+  chipActive: { backgroundColor: '#e7f0ff' },
+  chipText: { fontSize: 12, fontWeight: '600' },
+  outputBox: {
+    padding: 12,
+    backgroundColor: '#fbfbfd',
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e5e5ea',
+    minHeight: 160,
+  },
+  mono: {
+    fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'Courier' }),
+    fontSize: 14, lineHeight: 20,
+  },
+  toolbar: { flexDirection: 'row', flexWrap: 'wrap', gap: 12 },
+  spacer: { height: 32 },
+});
@@ -0,0 +1,132 @@
+﻿// src/screens/stores.tsx
+import React, { useState } from 'react';
+import {
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+
+import { newStoreId } from '../report/stores';
+import type { Store, StoreSettings } from '../report/stores';
+import { confirm } from '../ui/confirm';
+
+type Props = {
+  settings: StoreSettings;
+  // removedIds の店舗はメニュー・履歴なども消す（呼び出し側）
+  onSave: (settings: StoreSettings, removedIds: string[]) => void;
+  onClose: () => void;
+};
+
+export default function StoresScreen({ settings, onSave, onClose }: Props) {
+  const [stores, setStores] = useState<Store[]>(settings.stores);
+  const [newName, setNewName] = useState('');
+
+  const rename = (id: string, name: string) => {
+    setStores(prev => prev.map(s => (s.id === id ? { ...s, name } : s)));
+  };
+
+  const add = () => {
+    const name = newName.trim();
+    if (!name) {
+      Alert.alert('入力エラー', '店舗名を入力してください。');
+      return;
+    }
+    setStores(prev => [...prev, { id: newStoreId(), name }]);
+    setNewName('');
+  };
+
+  const remove = async (store: Store) => {
+    if (stores.length <= 1) {
+      Alert.alert('削除できません', '店舗は 1 つ以上必要です。');
+      return;
+    }
+    if (!(await confirm('削除', `「${store.name}」を削除しますか？\nこの店舗のメニュー・書式・履歴も保存時に削除されます。`, '削除'))) {
+      return;
+    }
+    setStores(prev => prev.filter(s => s.id !== store.id));
+  };
+
+  const save = () => {
+    const named = stores.map(s => ({ ...s, name: s.name.trim() || '無題の店舗' }));
+    const kept = new Set(named.map(s => s.id));
+    onSave(
+      {
+        stores: named,
+        activeId: kept.has(settings.activeId) ? settings.activeId : named[0].id,
+      },
+      settings.stores.filter(s => !kept.has(s.id)).map(s => s.id)
+    );
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.h1}>店舗</Text>
+        <Pressable style={[styles.btn, styles.outline]} onPress={onClose}>
+          <Text style={styles.btnText}>閉じる</Text>
+        </Pressable>
+      </View>
+      <Text style={styles.note}>
+        ※メニュー・列の対応・出力テンプレート・学習ルール・履歴は店舗ごとに保存されます。取込の前に画面上部で店舗を選んでください。
+      </Text>
+
+      {stores.map(store => (
+        <View key={store.id} style={styles.row}>
+          <TextInput
+            style={[styles.input, styles.flex]}
+            value={store.name}
+            onChangeText={name => rename(store.id, name)}
+            placeholder="店舗名"
+          />
+          {store.id === settings.activeId && <Text style={styles.note}>選択中</Text>}
+          <Pressable style={[styles.chip, styles.chipDanger]} onPress={() => remove(store)}>
+            <Text style={styles.chipText}>削除</Text>
+          </Pressable>
+        </View>
+      ))}
+
+      <View style={styles.row}>
+        <TextInput style={[styles.input, styles.flex]} value={newName} onChangeText={setNewName} placeholder="新しい店舗名" />
+        <Pressable style={styles.chip} onPress={add}>
+          <Text style={styles.chipText}>追加</Text>
+        </Pressable>
+      </View>
+
+      <Pressable style={[styles.btn, styles.primary]} onPress={save}>
+        <Text style={[styles.btnText, styles.primaryText]}>保存</Text>
+      </Pressable>
+      <View style={styles.spacer} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, gap: 12 },
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  h1: { fontSize: 18, fontWeight: '700' },
+  note: { fontSize: 12, color: '#666' },
+  row: { flexDirection: 'row', gap: 8, alignItems: 'center' },
+  flex: { flex: 1 },
+  btn: { paddingVertical: 10, paddingHorizontal: 14, borderRadius: 10, backgroundColor: '#f2f2f7', alignItems: 'center' },
+  btnText: { fontSize: 14, fontWeight: '600', color: '#111' },
+  primary: { backgroundColor: '#007aff' },
+  primaryText: { color: '#fff' },
+  outline: { backgroundColor: '#fff', borderWidth: 1, borderColor: '#c7c7cc' },
+  input: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#c7c7cc',
+    backgroundColor: '#fff',
+    fontSize: 14,
+  },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, backgroundColor: '#f2f2f7' },
+  chipDanger: { backgroundColor: '#ffe7e7' },
+  chipText: { fontSize: 12, fontWeight: '600' },
+  spacer: { height: 32 },
+});
@@ -0,0 +1,227 @@
+﻿// src/screens/templates.tsx
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+
+import type { MenuCatalog } from '../report/catalog';
+import type { ComparisonDisplaySettings, DayComparison } from '../report/comparison';
+import type { KpiDisplaySettings } from '../report/kpi';
+import type { PaymentMethod } from '../report/payments';
+import type { TaxDisplaySettings } from '../report/tax';
+import { renderOutput } from '../report/render';
+import { BUILTIN_TEMPLATES, TEMPLATE_FIELDS, findTemplate, newTemplateId } from '../report/reportTemplates';
+import type { ReportTemplate } from '../report/reportTemplates';
+import { TEMPLATE_FILTERS, templateError } from '../report/template';
+import type { DailyReport } from '../report/types';
+import type { TemplateSettings } from '../storage/templates';
+import { confirm } from '../ui/confirm';
+
+type Props = {
+  settings: TemplateSettings;
+  // プレビューに使う表示中の日報
+  report: DailyReport;
+  catalog: MenuCatalog;
+  paymentMethods: PaymentMethod[];
+  taxDisplay: TaxDisplaySettings;
+  kpiDisplay: KpiDisplaySettings;
+  comparison?: DayComparison;
+  comparisonDisplay: ComparisonDisplaySettings;
+  onSave: (settings: TemplateSettings) => void;
+  onClose: () => void;
+};
+
+export default function TemplatesScreen({ settings, report, catalog, paymentMethods, taxDisplay, kpiDisplay, comparison, comparisonDisplay, onSave, onClose }: Props) {
+  const [templates, setTemplates] = useState<ReportTemplate[]>(settings.templates);
+  const [selectedId, setSelectedId] = useState(settings.selectedId);
+  const [editingId, setEditingId] = useState(settings.selectedId);
+  const [helpOpen, setHelpOpen] = useState(false);
+
+  const all = [...BUILTIN_TEMPLATES, ...templates];
+  const editing = findTemplate(all, editingId);
+  const error = templateError(editing.body);
+  const preview = useMemo(
+    () => (error ? '' : renderOutput(report, catalog, editing, paymentMethods, taxDisplay, kpiDisplay, comparison, comparisonDisplay)),
+    [error, report, catalog, editing, paymentMethods, taxDisplay, kpiDisplay, comparison, comparisonDisplay]
+  );
+
+  const update = (patch: Partial<ReportTemplate>) => {
+    setTemplates(prev => prev.map(t => (t.id === editing.id ? { ...t, ...patch } : t)));
+  };
+
+  // 組み込みは直接編集できないので複製してから直す
+  const duplicate = () => {
+    const copy: ReportTemplate = { id: newTemplateId(), name: `${editing.name}のコピー`, body: editing.body };
+    setTemplates(prev => [...prev, copy]);
+    setEditingId(copy.id);
+  };
+
+  const remove = async () => {
+    if (!(await confirm('削除', `テンプレート「${editing.name}」を削除しますか？`, '削除'))) {
+      return;
+    }
+    setTemplates(prev => prev.filter(t => t.id !== editing.id));
+    if (selectedId === editing.id) {
+      setSelectedId(BUILTIN_TEMPLATES[0].id);
+    }
+    setEditingId(BUILTIN_TEMPLATES[0].id);
+  };
+
+  const save = () => {
+    const broken = templates.find(t => templateError(t.body));
+    if (broken) {
+      Alert.alert('テンプレートエラー', `「${broken.name}」：${templateError(broken.body)}`);
+      return;
+    }
+    onSave({
+      templates: templates.map(t => ({ ...t, name: t.name.trim() || '無題' })),
+      selectedId,
+    });
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.h1}>出力テンプレート</Text>
+        <Pressable style={[styles.btn, styles.outline]} onPress={onClose}>
+          <Text style={styles.btnText}>閉じる</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.chipRow}>
+        {all.map(t => (
+          <Pressable
+            key={t.id}
+            style={[styles.chip, t.id === editing.id && styles.chipActive]}
+            onPress={() => setEditingId(t.id)}
+          >
+            <Text style={styles.chipText}>{t.id === selectedId ? '✓ ' : ''}{t.name}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {editing.builtIn ? (
+        <Text style={styles.note}>※組み込みのテンプレートは編集できません。「複製」して編集してください。</Text>
+      ) : (
+        <TextInput
+          style={styles.input}
+          value={editing.name}
+          onChangeText={name => update({ name })}
+          placeholder="テンプレート名"
+        />
+      )}
+      <TextInput
+        style={[styles.input, styles.bodyInput]}
+        value={editing.body}
+        onChangeText={body => update({ body })}
+        editable={!editing.builtIn}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      {!!error && <Text style={[styles.note, styles.warn]}>{error}</Text>}
+
+      <View style={styles.row}>
+        <Pressable style={styles.chip} onPress={() => setSelectedId(editing.id)} disabled={!!error}>
+          <Text style={styles.chipText}>{selectedId === editing.id ? '使用中' : 'この書式を使う'}</Text>
+        </Pressable>
+        <Pressable style={styles.chip} onPress={duplicate}>
+          <Text style={styles.chipText}>複製</Text>
+        </Pressable>
+        {!editing.builtIn && (
+          <Pressable style={[styles.chip, styles.chipDanger]} onPress={remove}>
+            <Text style={styles.chipText}>削除</Text>
+          </Pressable>
+        )}
+        <Pressable style={styles.chip} onPress={() => setHelpOpen(v => !v)}>
+          <Text style={styles.chipText}>{helpOpen ? '使える値を閉じる' : '使える値'}</Text>
+        </Pressable>
+      </View>
+
+      {helpOpen && (
+        <View style={styles.card}>
+          <Text style={styles.note}>
+            {'{{値}} で差し込み、{{#値}}…{{/値}} は値があるときだけ（一覧なら繰り返し）、{{^値}}…{{/値}} は値がないときに出力します。'}
+          </Text>
+          <Text style={styles.note}>書式：{TEMPLATE_FILTERS.map(f => `{{値|${f}}}`).join(' ')}</Text>
+          {TEMPLATE_FIELDS.map(f => (
+            <Text key={f.name} style={styles.note}>・{f.name}：{f.note}</Text>
+          ))}
+        </View>
+      )}
+
+      <Text style={styles.h2}>プレビュー</Text>
+      <View style={styles.outputBox}>
+        <Text style={styles.mono}>{preview || '（出力なし）'}</Text>
+      </View>
+
+      <Pressable style={[styles.btn, styles.primary]} onPress={save}>
+        <Text style={[styles.btnText, styles.primaryText]}>保存</Text>
+      </Pressable>
+      <View style={styles.spacer} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, gap: 12 },
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  h1: { fontSize: 18, fontWeight: '700' },
+  h2: { fontSize: 16, fontWeight: '600' },
+  note: { fontSize: 12, color: '#666' },
+  warn: { color: '#c9302c' },
+  row: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, alignItems: 'center' },
+  btn: { paddingVertical: 10, paddingHorizontal: 14, borderRadius: 10, backgroundColor: '#f2f2f7' },
+  btnText: { fontSize: 14, fontWeight: '600', color: '#111' },
+  primary: { backgroundColor: '#007aff' },
+  primaryText: { color: '#fff' },
+  outline: { backgroundColor: '#fff', borderWidth: 1, borderColor: '#c7c7cc' },
+  input: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#c7c7cc',
+    backgroundColor: '#fff',
+    fontSize: 14,
+  },
+  bodyInput: {
+    minHeight: 200,
+    textAlignVertical: 'top',
+    fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'Courier' }),
+    fontSize: 13,
+  },
+  card: {
+    padding: 12,
+    gap: 4,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e5e5ea',
+    backgroundColor: '#fbfbfd',
+  },
+  outputBox: {
+    padding: 12,
+    backgroundColor: '#fbfbfd',
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e5e5ea',
+    minHeight: 120,
+  },
+  mono: {
+    fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'Courier' }),
+    fontSize: 14, lineHeight: 20,
+  },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, backgroundColor: '#f2f2f7' },
+  chipActive: { backgroundColor: '#e7f0ff' },
+  chipDanger: { backgroundColor: '#ffe7e7' },
+  chipText: { fontSize: 12, fontWeight: '600' },
+  spacer: { height: 32 },
+});
@@ -1,262 +1,104 @@
 ﻿// src/screens/test.tsx
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   Alert,
+  Modal,
   Platform,
   Pressable,
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   View,
   Share,
 } from 'react-native';
 
 import DocumentPicker, { types as DocTypes } from 'react-native-document-picker';
 import RNFS from 'react-native-fs';
-import BlobUtil from 'react-native-blob-util';
 import Clipboard from '@react-native-clipboard/clipboard';
-import Papa from 'papaparse';
-import * as XLSX from 'xlsx';
-
-type ProductRow = Record<string, any>;
-type StatsRow = Record<string, any>;
-
-const RAMEN_KEYS = ['花', '月', '雪', '月花', '雪月', '雪月花', '花こふれ', 'カレーラーメン', '氷花'] as const;
-type RamenKey = typeof RAMEN_KEYS[number];
-const RAMEN_LABELS: Record<RamenKey, string> = {
-  花: '花',
-  月: '月（ランチ）',
-  雪: '雪（ランチ）',
-  月花: '月花',
-  雪月: '雪月',
-  雪月花: '雪月花',
-  花こふれ: '花こふれ',
-  カレーラーメン: 'カレーラーメン',
-  氷花: '氷花',
-};
-const RAMEN_DISPLAY_ORDER: ReadonlyArray<RamenKey> = ['雪', '月', '花', '月花', '雪月', '雪月花', '花こふれ', 'カレーラーメン', '氷花'];
-const SET_ALLOWED_KEYS: ReadonlyArray<RamenKey> = ['花', '月花', '雪月'];
-
-type Totals = Record<RamenKey, number>;
-type SetTotals = Record<RamenKey, number>;
-
-type PickedFile = { uri: string; name?: string; type?: string | null };
-type OtherPayment = { label: string; amount: number };
-type CoursePeopleEntry = { label: string; price: number; count: number };
-type UnassignedItem = { name: string; count: number };
-
-type PaymentKey = 'total' | 'card' | 'tablecheck' | 'paypay' | 'cash' | 'funfo';
-const PAYMENT_KEY_ORDER: readonly PaymentKey[] = ['total', 'card', 'tablecheck', 'paypay', 'cash', 'funfo'];
-const PAYMENT_LABELS: Record<PaymentKey, string> = {
-  total: '売上',
-  card: 'クレジット・IC（Square）',
-  tablecheck: 'Table check',
-  paypay: 'PayPay',
-  cash: '現金',
-  funfo: 'Funfo',
-};
-
-// total は「税込み」だけ（税抜/非課税/割引前は除外）
-const PAYMENT_ALIASES: Record<PaymentKey, string[]> = {
-  total: ['売上高（税込み）', '売上高 (税込み)', '売上高 (税込)', '税込み売上高', '税込売上'],
-  card: ['Square', 'square', 'クレジット・IC', 'クレジット・IC（Square）', 'クレジット･IC'],
-  tablecheck: ['Table check', 'TableCheck', 'テーブルチェック'],
-  paypay: ['PayPay', 'paypay', 'Pay Pay'],
-  cash: ['現金', 'cash', 'Cash', 'CASH'],
-  funfo: ['Funfo', 'fnfo', 'FNFO', 'Fnfo'],
-};
-
-const EXTRA_PAYMENT_IGNORE = [
-  '会計数', '組数', 'groups', 'group count',
-  '客数', '来客数', '人数', 'customers',
-];
-
-// 商品名・数量・カテゴリの候補キー
-const PRODUCT_NAME_CANDS = ['商品名', '品名', 'メニュー', '商品', 'Item Name', 'item', 'name'];
-const PRODUCT_QTY_CANDS = ['商品販売数', '販売数', '数量', '個数', 'Quantity', 'Qty'];
-const PRODUCT_CATEGORY_CANDS = ['カテゴリ', 'カテゴリー', 'category', 'Category'];
-const GROUP_CANDS = ['会計数', '組数', 'groups', 'group count'];
-const PEOPLE_CANDS = ['客数', '来客数', '人数', 'customers'];
-
-// コース・クラファン・人数抽出
-const DINNER_PATTERN = /(ディナー|dinner)/i;
-const CROWDFUND_PATTERN = /クラファン/i;
-const NAME_PEOPLE_PATTERN = /(\d+)名/;
-const PRICE_PATTERN = /(\d{4,5})/;
-
-// 「ラーメン『花』or『月花』…セット…」は自動計上せず、未振り分けへ（手動で 花/月花(セット) 選択）
-const FORCE_AMBIG_SET_HANA_GEKKA = /ラーメン.*(?:「|『)?花(?:」|』)?\s*or\s*(?:「|『)?月花(?:」|』)?.*セット/i;
-
-// 完全除外（どこにも出さない）— 例：月花コース
-const EXCLUDED_PRODUCT_REGEXPS: RegExp[] = [
-  /月花.*コース/i,
-];
-
-const norm = (s: string) => String(s ?? '').replace(/\u00A0/g, ' ').trim().toLowerCase();
-const toNum = (v: any): number => {
-  if (v == null) return 0;
-  if (typeof v === 'number') return v;
-  const s = String(v).replace(/[,\s]/g, '');
-  const m = s.match(/-?\d+(\.\d+)?/);
-  return m ? Number(m[0]) : 0;
-};
-const firstByCandidates = (row: Record<string, any>, candidates: string[]) => {
-  const keys = Object.keys(row);
-  for (const cand of candidates) {
-    const hit = keys.find(k => norm(k) === norm(cand));
-    if (hit) return toNum(row[hit]);
-  }
-  return 0;
-};
-const firstKeyStr = (row: Record<string, any>, candidates: string[]) => {
-  const keys = Object.keys(row);
-  for (const cand of candidates) {
-    const hit = keys.find(k => norm(k) === norm(cand));
-    if (hit) return String(row[hit] ?? '');
-  }
-  return '';
-};
-
-const jpCurrency = (n: number) => '¥' + Number(n ?? 0).toLocaleString('ja-JP');
-const jpDateLabel = (isoDate: string) => {
-  const d = new Date(isoDate + 'T00:00:00+09:00');
-  const weekday = ['日曜日', '月曜日', '火曜日', '水曜日', '木曜日', '金曜日', '土曜日'][d.getDay()];
-  return `${d.getMonth() + 1}月${d.getDate()}日（${weekday}）`;
-};
-
-// ramen detection
-const isRamenish = (name: string) => /ラーメン|らーめん|麺|ramen/i.test(name);
-const isYokubariCurry = (name: string) => /よくばり.*カレー/i.test(name);
-const isPattyCurry = (name: string) => /(パティ|ﾊﾟﾃｨ).*(カレー|ｶﾚｰ)/i.test(name);
-const guessRamenKey = (raw: string): RamenKey | undefined => {
-  const name = String(raw);
-  if (/雪月花|setsugekka/i.test(name)) return '雪月花';
-  if (/雪月|setsugetsu/i.test(name)) return '雪月';
-  if (/月花|gekka/i.test(name)) return '月花';
-  if (/氷花|hyouka|hyoka|ice\s*hana/i.test(name)) return '氷花';
-  if (/花こふれ|hana\s*cof+ret|hana\s*coffret/i.test(name)) return '花こふれ';
-  if (/(?:カレー|curry).*(?:ラーメン|らーめん|ramen)/i.test(name)) return 'カレーラーメン';
-  if (/豆乳ラーメン「?花|(?:^|\s)花(?:」|$)|\bhana\b/i.test(name)) return '花';
-  if (/(?:「|^|\s)月(?:」|$)|\btsuki\b/i.test(name)) return '月';
-  if (/(?:「|^|\s)雪(?:」|$)|\byuki\b/i.test(name)) return '雪';
-  return undefined;
-};
-
-const makeEmptyTotals = (): Totals => {
-  const totals = {} as Totals;
-  RAMEN_KEYS.forEach(k => (totals[k] = 0));
-  return totals;
-};
-const makeEmptySetTotals = (): SetTotals => makeEmptyTotals();
-
-const buildPaymentAliasMap = () => {
-  const map = new Map<string, PaymentKey>();
-  PAYMENT_KEY_ORDER.forEach(key => {
-    PAYMENT_ALIASES[key].forEach(alias => map.set(norm(alias), key));
-  });
-  return map;
-};
-
-type MetaState = {
-  dateISO: string;
-  payments: Record<PaymentKey, number>;
-  otherPayments: OtherPayment[];
-  groups: number;
-  people: number;
-  yokubariCurry: number;
-  pattyCurry: number;
-};
-
-const renderOutput = (
-  meta: MetaState,
-  ramenTotals: Totals,
-  ramenSetTotals: SetTotals,
-  ramenCourseTotals: SetTotals,
-  coursePeople: CoursePeopleEntry[],
-  unassignedCount: number
-) => {
-  const lines: string[] = [];
-  const pushBlank = () => {
-    if (lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
-  };
-
-  // 1) 日付
-  lines.push(jpDateLabel(meta.dateISO));
-
-  // 2) 支払（0円は非表示）
-  const paymentLines: string[] = [];
-  PAYMENT_KEY_ORDER.forEach(key => {
-    const amount = meta.payments[key];
-    if (amount > 0) paymentLines.push(`${PAYMENT_LABELS[key]}　${jpCurrency(amount)}`);
-  });
-  meta.otherPayments.forEach(({ label, amount }) => {
-    if (amount > 0) paymentLines.push(`${label}　${jpCurrency(amount)}`);
-  });
-  if (paymentLines.length) {
-    pushBlank();
-    lines.push(...paymentLines);
-  }
-
-  // 3) 組数・人数（存在時のみ）
-  const gp: string[] = [];
-  if (meta.groups > 0) gp.push(`${meta.groups}組`);
-  if (meta.people > 0) gp.push(`${meta.people}人`);
-  if (gp.length) {
-    pushBlank();
-    lines.push(...gp);
-  }
-
-  // 4) ラーメン（合計1以上のときだけ）
-  const ramenTotalCount = RAMEN_KEYS.reduce(
-    (s, k) => s + ramenTotals[k] + ramenSetTotals[k] + ramenCourseTotals[k],
-    0
-  );
-  if (ramenTotalCount > 0) {
-    pushBlank();
-    lines.push(`ラーメン  ${ramenTotalCount}杯`);
-    RAMEN_DISPLAY_ORDER.forEach(key => {
-      const base = ramenTotals[key];
-      const setCount = ramenSetTotals[key];
-      const courseCount = ramenCourseTotals[key];
-      const total = base + setCount + courseCount;
-      if (total <= 0) return;
-      const noteParts: string[] = [];
-      if (setCount > 0) noteParts.push(`+セット${setCount}杯`);
-      if (courseCount > 0) noteParts.push(`+コース${courseCount}杯`);
-      const note = noteParts.length ? `(${noteParts.join(', ')})` : '';
-      lines.push(`・${RAMEN_LABELS[key]}　${total}杯${note}`);
-    });
-  }
-
-  // 5) サイド（独立・1以上のみ・単位は杯）
-  const sides: string[] = [];
-  if (meta.yokubariCurry > 0) sides.push(`よくばりカレー　${meta.yokubariCurry}杯`);
-  if (meta.pattyCurry > 0) sides.push(`パティカレー　${meta.pattyCurry}杯`);
-  if (sides.length) {
-    pushBlank();
-    lines.push(...sides);
-  }
 
-  // 6) 人数コース（末尾）
-  if (coursePeople.length) {
-    pushBlank();
-    coursePeople.forEach(({ label, price, count }) => {
-      if (!count || count <= 0) return;
-      const labelWithPrice = price > 0 ? `${label}${price}` : label;
-      lines.push(`${labelWithPrice} ${count}名`);
-    });
-  }
-
-  // 7) 未振り分け
-  if (unassignedCount > 0) {
-    pushBlank();
-    lines.push(`（要振り分け候補：未計上 ${unassignedCount} 件）`);
-  }
-
-  return lines.join('\n');
-};
-
-async function pickOne(_kind: 'product' | 'stats'): Promise<PickedFile | null> {
+import { autoMapping, headersOf, newProfileId, upsertProfile } from '../import/columnMapping';
+import type { ColumnMapping, ColumnProfile, FileKind } from '../import/columnMapping';
+import { ENCODING_LABELS } from '../import/encoding';
+import { routeFiles } from '../import/fileKind';
+import type { FileRows } from '../import/rows';
+import { buildReportsFromFiles, missingFieldsOf, prepareImport } from '../import/pipeline';
+import type { ImportedFile } from '../import/pipeline';
+import { LAYOUT_LABELS, STANDARD_FORMAT, encodingMismatch } from '../import/sourceFormats';
+import type { SourceLayout } from '../import/sourceFormats';
+import { subscribeFileDrop, supportsFileDrop } from '../io/dropFiles';
+import { exportFile } from '../io/exportFile';
+import { readFileRows } from '../io/readFile';
+import type { PickedFile } from '../io/readFile';
+import { BUCKET_LABELS, assignAllUnassigned, assignUnassigned, revertAllocation } from '../report/allocate';
+import { DEFAULT_BUSINESS_DAY, normalizeBusinessDay, todayBusinessISO } from '../report/businessDay';
+import type { BusinessDaySettings } from '../report/businessDay';
+import type { CashClosing } from '../report/cashClosing';
+import { DEFAULT_MENU_CATALOG, displayItems, labelOf } from '../report/catalog';
+import type { MenuCatalog } from '../report/catalog';
+import { dailyToCsv, dailyToJson, dailyToXlsxBase64 } from '../report/dailyExport';
+import { DEFAULT_COMPARISON_DISPLAY, DEFAULT_SALES_TARGETS, buildComparison } from '../report/comparison';
+import type { ComparisonDisplaySettings, SalesTargets } from '../report/comparison';
+import { addDaysISO } from '../report/dates';
+import { makeEmptyReport } from '../report/engine';
+import { DEFAULT_KPI_DISPLAY, computeKpis } from '../report/kpi';
+import type { KpiDisplaySettings } from '../report/kpi';
+import { recordToReport, toDailyRecord } from '../report/history';
+import type { DailyRecord, SourceFiles } from '../report/history';
+import { DEFAULT_RECONCILE_SETTINGS, hasReconcileWarnings, reconcile } from '../report/reconcile';
+import type { ReconcileSettings } from '../report/reconcile';
+import { carryOverrides, clearOverride, overrideCount, overrideFigure } from '../report/overrides';
+import type { FigurePath } from '../report/overrides';
+import {
+  CASH_KEY,
+  DEFAULT_PAYMENT_METHODS,
+  applyPaymentMethod,
+  findPaymentMethod,
+  methodFromOtherPayment,
+  upsertPaymentMethod,
+} from '../report/payments';
+import type { PaymentMethod } from '../report/payments';
+import { comparisonLines, jpCurrency, jpDateLabel, kpiLines, renderOutput } from '../report/render';
+import { BUILTIN_TEMPLATES, findTemplate } from '../report/reportTemplates';
+import { findRuleFor, newRuleId, upsertRule } from '../report/rules';
+import type { LearnedRule } from '../report/rules';
+import { DEFAULT_STORE_SETTINGS, activeStoreOf } from '../report/stores';
+import { DEFAULT_TAX_DISPLAY, TAX_FIELDS, TAX_LABELS } from '../report/tax';
+import type { TaxDisplaySettings, TaxField } from '../report/tax';
+import type { StoreSettings } from '../report/stores';
+import type { AssignBucket, DailyReport, RamenKey } from '../report/types';
+import { makeUndoStack, recordChange, redoChange, undoChange } from '../report/undo';
+import type { UndoStack } from '../report/undo';
+import { loadBusinessDaySettings, saveBusinessDaySettings } from '../storage/businessDay';
+import { loadColumnProfiles, saveColumnProfiles } from '../storage/columnProfiles';
+import { loadComparisonDisplay, saveComparisonDisplay } from '../storage/comparisonDisplay';
+import { loadDailyRecord, loadHistory, saveDailyRecord } from '../storage/history';
+import { loadKpiDisplay, saveKpiDisplay } from '../storage/kpiDisplay';
+import { loadLearnedRules, saveLearnedRules } from '../storage/learnedRules';
+import { loadMenuCatalog, saveMenuCatalog } from '../storage/menuCatalog';
+import { loadPaymentMethods, savePaymentMethods } from '../storage/paymentMethods';
+import { loadReconcileSettings, saveReconcileSettings } from '../storage/reconcileSettings';
+import { loadSalesTargets, saveSalesTargets } from '../storage/salesTargets';
+import { loadStoreSettings, removeStoreData, saveStoreSettings } from '../storage/stores';
+import { loadTaxDisplay, saveTaxDisplay } from '../storage/taxDisplay';
+import { DEFAULT_TEMPLATE_SETTINGS, loadTemplateSettings, saveTemplateSettings } from '../storage/templates';
+import type { TemplateSettings } from '../storage/templates';
+import { confirm } from '../ui/confirm';
+import CashClosingScreen from './cashClosing';
+import ColumnMappingScreen from './columnMapping';
+import FiguresScreen from './figures';
+import HistoryScreen from './history';
+import LearnedRulesScreen from './learnedRules';
+import MenuCatalogScreen from './menuCatalog';
+import PaymentMethodsScreen from './paymentMethods';
+import PeriodReportScreen from './periodReport';
+import StoresScreen from './stores';
+import TemplatesScreen from './templates';
+
+type LoadedFile = PickedFile & ImportedFile;
+type RememberOffer = { name: string; key: RamenKey; bucket: AssignBucket };
+
+async function pickOne(_kind: FileKind): Promise<PickedFile | null> {
   try {
     const res = await DocumentPicker.pickSingle({
       type: [DocTypes.csv, DocTypes.plainText, 'text/comma-separated-values', 'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
@@ -273,103 +115,254 @@ async function pickOne(_kind: 'product' | 'stats'): Promise<PickedFile | null> {
   }
 }
 
-async function readText(uri: string): Promise<string> {
-  if (Platform.OS === 'web') {
-    const r = await fetch(uri);
-    if (!r.ok) throw new Error('CSVの読み込みに失敗（web）');
-    return await r.text();
-  }
-  if (uri.startsWith('content://')) {
-    return await BlobUtil.fs.readFile(uri, 'utf8');
-  }
-  const path = uri.startsWith('file://') ? uri.replace('file://', '') : uri;
-  return await RNFS.readFile(path, 'utf8');
-}
+export default function TestPageScreen() {
+  const [productFile, setProductFile] = useState<LoadedFile | null>(null);
+  const [statsFile, setStatsFile] = useState<LoadedFile | null>(null);
+  const [catalog, setCatalog] = useState<MenuCatalog>(DEFAULT_MENU_CATALOG);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>(DEFAULT_PAYMENT_METHODS);
+  const [paymentsOpen, setPaymentsOpen] = useState(false);
+  const [learnedRules, setLearnedRules] = useState<LearnedRule[]>([]);
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [rememberOffer, setRememberOffer] = useState<RememberOffer | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [storeSettings, setStoreSettings] = useState<StoreSettings>(DEFAULT_STORE_SETTINGS);
+  const [storesOpen, setStoresOpen] = useState(false);
+  const [periodOpen, setPeriodOpen] = useState(false);
+  const [cashOpen, setCashOpen] = useState(false);
+  const [figuresOpen, setFiguresOpen] = useState(false);
+  const [templateSettings, setTemplateSettings] = useState<TemplateSettings>(DEFAULT_TEMPLATE_SETTINGS);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [sourceFiles, setSourceFiles] = useState<SourceFiles>({});
+  const [columnProfiles, setColumnProfiles] = useState<ColumnProfile[]>([]);
+  const [mappingKind, setMappingKind] = useState<FileKind | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [reconcileSettings, setReconcileSettings] = useState<ReconcileSettings>(DEFAULT_RECONCILE_SETTINGS);
+  const [toleranceText, setToleranceText] = useState(String(DEFAULT_RECONCILE_SETTINGS.paymentTolerance));
+  const [taxDisplay, setTaxDisplay] = useState<TaxDisplaySettings>(DEFAULT_TAX_DISPLAY);
+  const [kpiDisplay, setKpiDisplay] = useState<KpiDisplaySettings>(DEFAULT_KPI_DISPLAY);
+  // 前週・前年との比較と月累計に使う保存済みの日報（今の店舗の分）
+  const [records, setRecords] = useState<DailyRecord[]>([]);
+  const [salesTargets, setSalesTargets] = useState<SalesTargets>(DEFAULT_SALES_TARGETS);
+  const [comparisonDisplay, setComparisonDisplay] = useState<ComparisonDisplaySettings>(DEFAULT_COMPARISON_DISPLAY);
+  const [dailyTargetText, setDailyTargetText] = useState('');
+  const [monthlyTargetText, setMonthlyTargetText] = useState('');
+  const [businessDay, setBusinessDay] = useState<BusinessDaySettings>(DEFAULT_BUSINESS_DAY);
+  const [cutoffText, setCutoffText] = useState(String(DEFAULT_BUSINESS_DAY.cutoffHour));
+  const [timeZoneText, setTimeZoneText] = useState(DEFAULT_BUSINESS_DAY.timeZone);
+  // 複数日ファイルは1日ずつ days に入る（単日は1件）
+  const [days, setDays] = useState<DailyReport[]>(() => [
+    makeEmptyReport(todayBusinessISO(DEFAULT_BUSINESS_DAY), DEFAULT_MENU_CATALOG),
+  ]);
+  const [dayIndex, setDayIndex] = useState(0);
+  const [savedDates, setSavedDates] = useState<string[]>([]);
+  const store = activeStoreOf(storeSettings);
+  const report = days[dayIndex] ?? days[0];
+  const { meta, unassigned, autoResolved } = report;
+  const allocations = report.allocations ?? [];
+  // 振り分けなど手で変えた分だけを積む（取込・日付変更は対象外）
+  const [undoStack, setUndoStack] = useState<UndoStack>(makeUndoStack);
+
+  // 表示中の日だけを更新
+  const setReport = (update: DailyReport | ((prev: DailyReport) => DailyReport)) => {
+    setDays(prev => prev.map((r, i) => (i === dayIndex ? (typeof update === 'function' ? update(r) : update) : r)));
+  };
 
-const EXCEL_MIME_TYPES = new Set([
-  'application/vnd.ms-excel',
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-]);
-
-const isExcelFile = (file: PickedFile) => {
-  const name = file.name?.toLowerCase() ?? '';
-  const mime = file.type?.toLowerCase() ?? '';
-  if (/\.(xlsx|xls)$/i.test(name)) return true;
-  if (!mime) return false;
-  if (EXCEL_MIME_TYPES.has(mime)) return true;
-  return mime.includes('spreadsheetml');
-};
-
-async function readExcelRows(file: PickedFile): Promise<Record<string, any>[]> {
-  let workbook: XLSX.WorkBook;
-  if (Platform.OS === 'web') {
-    const response = await fetch(file.uri);
-    if (!response.ok) throw new Error('Excel/CSVの読み込みに失敗（web）');
-    const arrayBuffer = await response.arrayBuffer();
-    workbook = XLSX.read(arrayBuffer, { type: 'array' });
-  } else if (file.uri.startsWith('content://')) {
-    const base64 = await BlobUtil.fs.readFile(file.uri, 'base64');
-    workbook = XLSX.read(base64, { type: 'base64' });
-  } else {
-    const path = file.uri.startsWith('file://') ? file.uri.replace('file://', '') : file.uri;
-    const base64 = await RNFS.readFile(path, 'base64');
-    workbook = XLSX.read(base64, { type: 'base64' });
-  }
-  const sheetName = workbook.SheetNames?.[0];
-  if (!sheetName) return [];
-  const sheet = workbook.Sheets[sheetName];
-  return XLSX.utils.sheet_to_json(sheet, { defval: '' });
-}
+  const loadDays = (next: DailyReport[]) => {
+    setDays(next);
+    setDayIndex(0);
+    setSavedDates([]);
+    setRememberOffer(null);
+    setUndoStack(makeUndoStack());
+  };
 
-export default function TestPageScreen() {
-  const [productFile, setProductFile] = useState<PickedFile | null>(null);
-  const [statsFile, setStatsFile] = useState<PickedFile | null>(null);
-  const [unassigned, setUnassigned] = useState<UnassignedItem[]>([]);
-  const [ramenTotals, setRamenTotals] = useState<Totals>(makeEmptyTotals());
-  const [ramenSetTotals, setRamenSetTotals] = useState<SetTotals>(makeEmptySetTotals());
-  const [ramenCourseTotals, setRamenCourseTotals] = useState<SetTotals>(makeEmptySetTotals());
-  const [coursePeopleEntries, setCoursePeopleEntries] = useState<CoursePeopleEntry[]>([]);
-  const [meta, setMeta] = useState<MetaState>({
-    dateISO: new Date().toISOString().slice(0, 10),
-    payments: { total: 0, card: 0, tablecheck: 0, paypay: 0, cash: 0, funfo: 0 },
-    otherPayments: [],
-    groups: 0,
-    people: 0,
-    yokubariCurry: 0,
-    pattyCurry: 0,
-  });
+  // 手動変更：変わった項目を undo に積んでから表示中の日を更新
+  const applyManual = (update: (prev: DailyReport) => DailyReport) => {
+    const next = update(report);
+    if (next === report) {
+      return;
+    }
+    setUndoStack(prev => recordChange(prev, dayIndex, report, next));
+    setReport(next);
+  };
+
+  const onUndo = () => {
+    const result = undoChange(undoStack, days);
+    if (!result) {
+      return;
+    }
+    setDays(result.values);
+    setDayIndex(result.index);
+    setUndoStack(result.stack);
+    setRememberOffer(null);
+  };
+
+  const onRedo = () => {
+    const result = redoChange(undoStack, days);
+    if (!result) {
+      return;
+    }
+    setDays(result.values);
+    setDayIndex(result.index);
+    setUndoStack(result.stack);
+  };
+
+  // メニュー・学習ルール・列の対応・書式・支払方法・履歴・売上目標は店舗ごと
+  const loadStoreData = async (storeId: string) => {
+    const [nextCatalog, rules, profiles, templates, methods, history, targets] = await Promise.all([
+      loadMenuCatalog(storeId),
+      loadLearnedRules(storeId),
+      loadColumnProfiles(storeId),
+      loadTemplateSettings(storeId),
+      loadPaymentMethods(storeId),
+      loadHistory(storeId),
+      loadSalesTargets(storeId),
+    ]);
+    setCatalog(nextCatalog);
+    setPaymentMethods(methods);
+    setLearnedRules(rules);
+    setColumnProfiles(profiles);
+    setTemplateSettings(templates);
+    setRecords(history);
+    applySalesTargets(targets);
+    return nextCatalog;
+  };
+
+  useEffect(() => {
+    loadStoreSettings().then(s => {
+      setStoreSettings(s);
+      loadStoreData(activeStoreOf(s).id);
+    });
+    loadReconcileSettings().then(s => {
+      setReconcileSettings(s);
+      setToleranceText(String(s.paymentTolerance));
+    });
+    loadTaxDisplay().then(setTaxDisplay);
+    loadKpiDisplay().then(setKpiDisplay);
+    loadComparisonDisplay().then(setComparisonDisplay);
+    loadBusinessDaySettings().then(s => {
+      applyBusinessDay(s);
+      // 取込前の空の日報は、保存した区切りでの今日に合わせ直す
+      const initial = todayBusinessISO(DEFAULT_BUSINESS_DAY);
+      const today = todayBusinessISO(s);
+      setDays(prev =>
+        prev.length === 1 && prev[0].meta.dateISO === initial
+          ? [{ ...prev[0], meta: { ...prev[0].meta, dateISO: today } }]
+          : prev
+      );
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
+  const allTemplates = useMemo(() => [...BUILTIN_TEMPLATES, ...templateSettings.templates], [templateSettings]);
+  const template = findTemplate(allTemplates, templateSettings.selectedId);
+  const comparison = useMemo(() => buildComparison(report, records, salesTargets), [report, records, salesTargets]);
   const output = useMemo(
-    () =>
-      renderOutput(
-        meta,
-        ramenTotals,
-        ramenSetTotals,
-        ramenCourseTotals,
-        coursePeopleEntries,
-        unassigned.length
-      ),
-    [meta, ramenTotals, ramenSetTotals, ramenCourseTotals, coursePeopleEntries, unassigned.length]
+    () => renderOutput(report, catalog, template, paymentMethods, taxDisplay, kpiDisplay, comparison, comparisonDisplay),
+    [report, catalog, template, paymentMethods, taxDisplay, kpiDisplay, comparison, comparisonDisplay]
   );
+  const kpis = useMemo(
+    () => kpiLines(computeKpis(report, paymentMethods), report, catalog),
+    [report, paymentMethods, catalog]
+  );
+  const checks = useMemo(() => reconcile(report, reconcileSettings), [report, reconcileSettings]);
+  const ramenItems = useMemo(() => displayItems(catalog, 'ramen'), [catalog]);
+  const setItems = useMemo(() => ramenItems.filter(it => it.setAllowed), [ramenItems]);
+
+  const setFile = (kind: FileKind, file: LoadedFile) => {
+    if (kind === 'product') {
+      setProductFile(file);
+    } else {
+      setStatsFile(file);
+    }
+  };
+  const fileOf = (kind: FileKind) => (kind === 'product' ? productFile : statsFile);
 
-  const onPick = async (kind: 'product' | 'stats') => {
+  // 必須列が見つからなければ対応付けウィザードを開く
+  const needsMapping = (kind: FileKind, file: LoadedFile) => missingFieldsOf(kind, file).length > 0;
+
+  const toLoadedFile = (kind: FileKind, picked: PickedFile, fileRows: FileRows): LoadedFile =>
+    prepareImport(kind, { ...picked, ...fileRows }, columnProfiles);
+
+  // 選んだ時点で読み込み、文字コードと POS 形式をバッジに表示する
+  const onPick = async (kind: FileKind) => {
     const picked = await pickOne(kind);
     if (!picked) return;
-    if (kind === 'product') setProductFile(picked);
-    else setStatsFile(picked);
+    try {
+      const loaded = toLoadedFile(kind, picked, await readFileRows(picked));
+      setFile(kind, loaded);
+      if (needsMapping(kind, loaded)) {
+        setMappingKind(kind);
+      }
+    } catch (e: any) {
+      console.error(e);
+      Alert.alert('読み込みエラー', e?.message ?? String(e));
+    }
   };
 
-  const parseCsv = (text: string) => {
-    const { data } = Papa.parse(text, { header: true, skipEmptyLines: true });
-    return data as any[];
+  // web：まとめてドロップされたファイルを列名で ①商品別 / ②支払方法別 に振り分ける
+  const onDropFiles = async (dropped: PickedFile[]) => {
+    if (dropped.length > 2) {
+      Alert.alert('読み込みエラー', '商品別と支払方法別の2ファイルまでドロップできます。');
+      return;
+    }
+    try {
+      const read = await Promise.all(dropped.map(readFileRows));
+      const kinds = routeFiles(read.map(r => headersOf(r.rows)), columnProfiles);
+      const unknown = dropped.filter((_, i) => !kinds[i]).map(f => f.name);
+      if (unknown.length) {
+        Alert.alert('振り分けできません', `${unknown.join('、')} が商品別・支払方法別のどちらか判断できません。ボタンから選んでください。`);
+        return;
+      }
+      let toMap: FileKind | null = null;
+      dropped.forEach((picked, i) => {
+        const kind = kinds[i]!;
+        const loaded = toLoadedFile(kind, picked, read[i]);
+        setFile(kind, loaded);
+        if (!toMap && needsMapping(kind, loaded)) {
+          toMap = kind;
+        }
+      });
+      if (toMap) {
+        setMappingKind(toMap);
+      }
+    } catch (e: any) {
+      console.error(e);
+      Alert.alert('読み込みエラー', e?.message ?? String(e));
+    }
   };
 
-  const readRows = async (file: PickedFile) => {
-    if (isExcelFile(file)) {
-      return await readExcelRows(file);
+  useEffect(
+    () => subscribeFileDrop({ onFiles: files => { onDropFiles(files); }, onDragging: setDragging }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [columnProfiles]
+  );
+
+  const onApplyMapping = async (mapping: ColumnMapping, layout: SourceLayout, profileName?: string) => {
+    const kind = mappingKind;
+    const file = kind && fileOf(kind);
+    if (!kind || !file) {
+      return;
+    }
+    if (profileName) {
+      const next = upsertProfile(columnProfiles, {
+        id: newProfileId(),
+        name: profileName,
+        kind,
+        mapping,
+        layout,
+        createdAt: new Date().toISOString(),
+      });
+      try {
+        await saveColumnProfiles(next, store.id);
+      } catch (e: any) {
+        Alert.alert('保存エラー', e?.message ?? String(e));
+        return;
+      }
+      setColumnProfiles(next);
     }
-    const text = await readText(file.uri);
-    return parseCsv(text);
+    setFile(kind, { ...file, mapping, layout, profileName });
+    setMappingKind(null);
   };
 
   const makeSummary = async () => {
@@ -378,211 +371,354 @@ export default function TestPageScreen() {
         Alert.alert('不足', '「商品別 CSV/Excel」と「支払方法別 CSV/Excel」を両方選んでください。');
         return;
       }
-      const [productRowsRaw, statsRowsRaw] = await Promise.all([
-        readRows(productFile),
-        readRows(statsFile),
-      ]);
-      const productRows = productRowsRaw as ProductRow[];
-      const statsRows = statsRowsRaw as StatsRow[];
-      if (!statsRows.length) throw new Error('売上詳細CSVに行がありません。');
-
-      const dayRow = statsRows[0];
-
-      // ===== 支払 正規化 =====
-      const payments: Record<PaymentKey, number> = { total: 0, card: 0, tablecheck: 0, paypay: 0, cash: 0, funfo: 0 };
-      const aliasMap = buildPaymentAliasMap();
-
-      // other に入れないキー（合計・既知決済・集客・税/割引/内訳など）
-      const ignoreSet = new Set<string>();
-      aliasMap.forEach((_v, k) => ignoreSet.add(k));
-      PAYMENT_KEY_ORDER.forEach(k => ignoreSet.add(norm(PAYMENT_LABELS[k])));
-      EXTRA_PAYMENT_IGNORE.forEach(l => ignoreSet.add(norm(l)));
-      [
-        '集計期間',
-        '割引前 売上高',
-        '売上高（税抜き）',
-        '売上高（非課税）',
-        '内消費税（合計）',
-        '内消費税（10%標準）',
-        '内消費税（8%軽減）',
-        '売上高（10%標準）',
-        '売上高（8%軽減）',
-        '会計単価',
-        '客単価',
-        '商品販売数',
-        // 追加の割引用語
-        '割引合計_1',
-        '会計割引',
-        '割引合計',
-        '割引',
-      ].forEach(l => ignoreSet.add(norm(l)));
-
-      const otherPayments: OtherPayment[] = [];
-      Object.entries(dayRow).forEach(([rawKey, rawValue]) => {
-        const amount = toNum(rawValue);
-        if (!amount) return;
-        const nk = norm(rawKey);
-        const pkey = aliasMap.get(nk);
-        // total はここで加算しない（後で税込み1本だけ採用）
-        if (pkey && pkey !== 'total') {
-          payments[pkey] += amount;
+      const unmapped = needsMapping('product', productFile) ? 'product' : needsMapping('stats', statsFile) ? 'stats' : null;
+      if (unmapped) {
+        setMappingKind(unmapped);
+        return;
+      }
+      const reports = buildReportsFromFiles(productFile, statsFile, catalog, learnedRules, businessDay, paymentMethods);
+      // 手入力の修正は黙って消さない
+      const edits = days.reduce((n, d) => n + overrideCount(d), 0);
+      let next = reports;
+      if (edits > 0) {
+        if (await confirm('手入力の修正', `手入力で直した数値が ${edits} 件あります。取込し直した結果に引き継ぎますか？`, '引き継ぐ')) {
+          next = carryOverrides(days, reports);
+        } else if (!(await confirm('修正を破棄', '手入力の修正を破棄して取込し直しますか？', '破棄して取込'))) {
           return;
         }
-        if (ignoreSet.has(nk)) return;
-        otherPayments.push({ label: rawKey, amount });
-      });
+      }
+      loadDays(next);
+      setSourceFiles({ product: productFile.name, stats: statsFile.name });
+      if (reports.length > 1) {
+        Alert.alert('複数日の取込', `${reports.length}日分に分けました。1日ずつ確認して保存してください。`);
+      }
+    } catch (e: any) {
+      console.error(e);
+      Alert.alert('エラー', e?.message ?? String(e));
+    }
+  };
 
-      // 税込み合計の先頭ヒットだけを total に採用
-      const pickFirst = (row: Record<string, any>, cands: string[]) =>
-        cands.map(c => firstByCandidates(row, [c])).find(v => v > 0) ?? 0;
-      const fixedTotal = pickFirst(dayRow, PAYMENT_ALIASES.total);
-      if (fixedTotal) payments.total = fixedTotal;
-
-      // ===== 集客 =====
-      const groups = firstByCandidates(dayRow, GROUP_CANDS);
-      const people = firstByCandidates(dayRow, PEOPLE_CANDS);
-
-      // ===== 日付 =====
-      const statsName = statsFile?.name ?? '';
-      const prodName = productFile?.name ?? '';
-      const dateISOFromCol = String(dayRow['集計期間'] ?? '').match(/^\d{4}-\d{2}-\d{2}/)?.[0];
-      const dateISOFromStatsName = (() => {
-        const m = String(statsName).match(/(20\d{2})年?0?(\d{1,2})月?0?(\d{1,2})日?/);
-        return m ? `${m[1]}-${String(m[2]).padStart(2, '0')}-${String(m[3]).padStart(2, '0')}` : undefined;
-      })();
-      const dateISOFromProdName = (() => {
-        const m = String(prodName).match(/(20\d{2})年?0?(\d{1,2})月?0?(\d{1,2})日?/);
-        return m ? `${m[1]}-${String(m[2]).padStart(2, '0')}-${String(m[3]).padStart(2, '0')}` : undefined;
-      })();
-      const dateISO = dateISOFromCol ?? dateISOFromStatsName ?? dateISOFromProdName ?? new Date().toISOString().slice(0, 10);
-
-      // ===== 商品集計：通常/セット/コース、サイド、人数コース =====
-      const localTotals = makeEmptyTotals();
-      const localSetTotals = makeEmptySetTotals();
-      const localCourseTotals = makeEmptySetTotals();
-      const ambiguous: UnassignedItem[] = [];
-      const coursePeople: CoursePeopleEntry[] = [];
-      let yokubariCurry = 0;
-      let pattyCurry = 0;
-
-      for (const row of productRows) {
-        const name = firstKeyStr(row, PRODUCT_NAME_CANDS);
-        const count = firstByCandidates(row, PRODUCT_QTY_CANDS);
-        if (!count) continue;
-
-        const category = firstKeyStr(row, PRODUCT_CATEGORY_CANDS);
-
-        // 0) 完全除外（どの集計にも加算しない）
-        if (EXCLUDED_PRODUCT_REGEXPS.some(rx => rx.test(name))) {
-          continue;
-        }
+  // 計上先はカタログのセット可の銘柄から選ぶ（メニューを編集しても表示されない銘柄に入れない）
+  const assignAllUnassignedToSet = (key: RamenKey) => {
+    if (!unassigned.length) {
+      Alert.alert('未振り分けなし', '振り分け候補の項目はありません。');
+      return;
+    }
+    applyManual(prev => assignAllUnassigned(prev, key, 'set'));
+  };
 
-        // 0.5) 「花 or 月花」セットは未振り分けへ（手動でセット/コース配分）
-        if (FORCE_AMBIG_SET_HANA_GEKKA.test(name) && /セット|set/i.test(name)) {
-          ambiguous.push({ name, count });
-          continue;
-        }
+  const applyAssign = (index: number, key: RamenKey, bucket: AssignBucket, amount?: number) => {
+    const item = unassigned[index];
+    applyManual(prev => assignUnassigned(prev, index, key, bucket, amount));
+    // 残数を配分しきったら、同じ商品名を次回から自動計上するか提案
+    if (!item || (amount ?? item.count) < item.count) {
+      return;
+    }
+    const existing = findRuleFor(learnedRules, item.name);
+    if (existing && existing.key === key && existing.bucket === bucket) {
+      return;
+    }
+    setRememberOffer({ name: item.name, key, bucket });
+  };
 
-        // サイド
-        if (isYokubariCurry(name)) { yokubariCurry += count; continue; }
-        if (isPattyCurry(name)) { pattyCurry += count; continue; }
-
-        // コース：必ず人数コースへ（ラーメン杯に入れない）→ 早期 continue
-        const isCourse = /(コース|course)/i.test(name) || /(予約メニュー|予約|コース|course)/i.test(category);
-        if (isCourse) {
-          const priceMatch = name.match(PRICE_PATTERN);
-          const price = priceMatch ? Number(priceMatch[1]) : 0;
-          const peopleMatch = name.match(NAME_PEOPLE_PATTERN);
-          const peopleCount = peopleMatch ? Number(peopleMatch[1]) : count;
-          const label =
-            DINNER_PATTERN.test(name) ? 'ディナー' :
-            CROWDFUND_PATTERN.test(name) ? 'クラファンコース' : 'コース';
-          coursePeople.push({ label, price, count: peopleCount });
-          continue;
-        }
+  const persistRules = async (next: LearnedRule[]) => {
+    try {
+      await saveLearnedRules(next, store.id);
+    } catch (e: any) {
+      Alert.alert('保存エラー', e?.message ?? String(e));
+      return false;
+    }
+    setLearnedRules(next);
+    return true;
+  };
 
-        // ★ 銘柄判定（銘柄名だけでも拾えるように：先に guess、ダメなら isRamenish で未振り分け）
-        const guessed = guessRamenKey(name);
-        const isSet = /(セット|set\b)/i.test(name) || /セット/i.test(category);
-        if (guessed) {
-          if (isSet) localSetTotals[guessed] += count;
-          else       localTotals[guessed] += count;
-          continue;
-        }
-        if (isRamenish(name)) {
-          ambiguous.push({ name, count });
+  const acceptRememberOffer = async () => {
+    if (!rememberOffer) {
+      return;
+    }
+    const rule: LearnedRule = {
+      id: newRuleId(),
+      productName: rememberOffer.name,
+      key: rememberOffer.key,
+      bucket: rememberOffer.bucket,
+      createdAt: new Date().toISOString(),
+    };
+    if (await persistRules(upsertRule(learnedRules, rule))) {
+      setRememberOffer(null);
+    }
+  };
+
+  const onSaveRules = async (next: LearnedRule[]) => {
+    if (await persistRules(next)) {
+      setRulesOpen(false);
+    }
+  };
+
+  const shiftDate = (delta: number) => {
+    setReport(prev => ({ ...prev, meta: { ...prev.meta, dateISO: addDaysISO(prev.meta.dateISO, delta) } }));
+  };
+
+  const onSaveCatalog = async (next: MenuCatalog) => {
+    try {
+      await saveMenuCatalog(next, store.id);
+    } catch (e: any) {
+      Alert.alert('保存エラー', e?.message ?? String(e));
+      return;
+    }
+    setCatalog(next);
+    setMenuOpen(false);
+    Alert.alert('保存しました', '次回の解析から新しいメニューで判定します。');
+  };
+
+  const persistPaymentMethods = async (next: PaymentMethod[]) => {
+    try {
+      await savePaymentMethods(next, store.id);
+    } catch (e: any) {
+      Alert.alert('保存エラー', e?.message ?? String(e));
+      return false;
+    }
+    setPaymentMethods(next);
+    return true;
+  };
+
+  const onSavePaymentMethods = async (next: PaymentMethod[]) => {
+    if (!(await persistPaymentMethods(next))) {
+      return;
+    }
+    setPaymentsOpen(false);
+    Alert.alert('保存しました', '次回の解析から新しい支払方法で集計します。');
+  };
+
+  // その他の支払をワンタップで支払方法に登録し、取込済みの日報にもすぐ反映する
+  // キャッシュレス比率に数えるかはその場で聞く（商品券・金券は数えない。登録済みの支払方法に足すときは聞かない）
+  const onPromotePayment = async (label: string) => {
+    const existing = findPaymentMethod(paymentMethods, label);
+    const cashless = existing
+      ? existing.cashless
+      : await confirm(
+        'キャッシュレス',
+        `「${label}」はキャッシュレス（カード・電子マネーなど）ですか？\n商品券などは「キャンセル」を選んでください。`,
+        'キャッシュレス'
+      );
+    const method = methodFromOtherPayment(paymentMethods, label, cashless);
+    if (!(await persistPaymentMethods(upsertPaymentMethod(paymentMethods, method)))) {
+      return;
+    }
+    setDays(prev => prev.map(r => applyPaymentMethod(r, method)));
+  };
+
+  const persistTemplateSettings = async (next: TemplateSettings) => {
+    try {
+      await saveTemplateSettings(next, store.id);
+    } catch (e: any) {
+      Alert.alert('保存エラー', e?.message ?? String(e));
+      return false;
+    }
+    setTemplateSettings(next);
+    return true;
+  };
+
+  const onSaveTemplates = async (next: TemplateSettings) => {
+    if (await persistTemplateSettings(next)) {
+      setTemplatesOpen(false);
+    }
+  };
+
+  const onChangeFigure = (path: FigurePath, value: number) => {
+    applyManual(prev => overrideFigure(prev, path, value));
+  };
+
+  const onResetFigure = (path: FigurePath) => {
+    applyManual(prev => clearOverride(prev, path));
+  };
+
+  // undefined なら削除（JSON 保存時に落ちる）
+  const onSaveCashClosing = (closing: CashClosing | undefined) => {
+    setReport(prev => ({ ...prev, cashClosing: closing }));
+    setCashOpen(false);
+  };
+
+  const onSaveTolerance = async () => {
+    const paymentTolerance = Math.max(0, Math.round(Number(toleranceText) || 0));
+    const next = { ...reconcileSettings, paymentTolerance };
+    setToleranceText(String(paymentTolerance));
+    setReconcileSettings(next);
+    try {
+      await saveReconcileSettings(next);
+    } catch (e: any) {
+      Alert.alert('保存エラー', e?.message ?? String(e));
+    }
+  };
+
+  const applySalesTargets = (targets: SalesTargets) => {
+    setSalesTargets(targets);
+    setDailyTargetText(targets.daily ? String(targets.daily) : '');
+    setMonthlyTargetText(targets.monthly ? String(targets.monthly) : '');
+  };
+
+  // 空欄・0 は目標なし
+  const onSaveSalesTargets = async () => {
+    const amount = (text: string) => Math.max(0, Math.round(Number(text.replace(/[,¥\s]/g, '')) || 0));
+    const next = { daily: amount(dailyTargetText), monthly: amount(monthlyTargetText) };
+    applySalesTargets(next);
+    try {
+      await saveSalesTargets(next, store.id);
+    } catch (e: any) {
+      Alert.alert('保存エラー', e?.message ?? String(e));
+    }
+  };
+
+  // 履歴画面で削除した日を比較から外す
+  const onCloseHistory = async () => {
+    setHistoryOpen(false);
+    setRecords(await loadHistory(store.id));
+  };
+
+  // 税・割引の項目ごとに日報テキストへ載せるか切り替える
+  const onToggleTaxShown = async (field: TaxField) => {
+    const shown = taxDisplay.shown.includes(field)
+      ? taxDisplay.shown.filter(f => f !== field)
+      : TAX_FIELDS.filter(f => f === field || taxDisplay.shown.includes(f));
+    const next = { ...taxDisplay, shown };
+    setTaxDisplay(next);
+    try {
+      await saveTaxDisplay(next);
+    } catch (e: any) {
+      Alert.alert('保存エラー', e?.message ?? String(e));
+    }
+  };
+
+  const onToggleKpiAppend = async () => {
+    const next = { ...kpiDisplay, append: !kpiDisplay.append };
+    setKpiDisplay(next);
+    try {
+      await saveKpiDisplay(next);
+    } catch (e: any) {
+      Alert.alert('保存エラー', e?.message ?? String(e));
+    }
+  };
+
+  const onToggleComparisonAppend = async () => {
+    const next = { ...comparisonDisplay, append: !comparisonDisplay.append };
+    setComparisonDisplay(next);
+    try {
+      await saveComparisonDisplay(next);
+    } catch (e: any) {
+      Alert.alert('保存エラー', e?.message ?? String(e));
+    }
+  };
+
+  const applyBusinessDay = (s: BusinessDaySettings) => {
+    setBusinessDay(s);
+    setCutoffText(String(s.cutoffHour));
+    setTimeZoneText(s.timeZone);
+  };
+
+  // 不正なタイムゾーンは既定に戻る（区切りは次の取込から反映）
+  const onSaveBusinessDay = async () => {
+    const next = normalizeBusinessDay({ timeZone: timeZoneText, cutoffHour: Number(cutoffText) });
+    applyBusinessDay(next);
+    try {
+      await saveBusinessDaySettings(next);
+    } catch (e: any) {
+      Alert.alert('保存エラー', e?.message ?? String(e));
+    }
+  };
+
+  const onSaveDay = async () => {
+    const label = jpDateLabel(meta.dateISO);
+    if (unassigned.length && !(await confirm('未振り分けあり', `未計上が ${unassigned.length} 件残っています。このまま保存しますか？`, '保存'))) {
+      return;
+    }
+    if (hasReconcileWarnings(checks) && !(await confirm('照合の不一致', '照合チェックで一致しない項目があります。このまま保存しますか？', '保存'))) {
+      return;
+    }
+    try {
+      if (await loadDailyRecord(meta.dateISO, store.id)) {
+        if (!(await confirm('上書き確認', `${label} の日報は保存済みです。上書きしますか？`, '上書き'))) {
+          return;
         }
       }
-
-      setRamenTotals(localTotals);
-      setRamenSetTotals(localSetTotals);
-      setRamenCourseTotals(localCourseTotals); // 手動で“コース杯”加算可能
-      setCoursePeopleEntries(coursePeople);
-      setUnassigned(ambiguous);
-      setMeta({
-        dateISO,
-        payments,
-        otherPayments,
-        groups,
-        people,
-        yokubariCurry,
-        pattyCurry,
-      });
+      await saveDailyRecord(toDailyRecord(report, sourceFiles, paymentMethods), store.id);
+      setRecords(await loadHistory(store.id));
     } catch (e: any) {
-      console.error(e);
-      Alert.alert('エラー', e?.message ?? String(e));
+      Alert.alert('保存エラー', e?.message ?? String(e));
+      return;
     }
+    setSavedDates(prev => [...prev, meta.dateISO]);
+    Alert.alert('保存しました', `${label} の日報を履歴に保存しました。`);
   };
 
-  const assignAllUnassignedToHanaSet = () => {
-    if (!unassigned.length) {
-      Alert.alert('未振り分けなし', '振り分け候補の項目はありません。');
+  // 複数日取込：未保存の日をまとめて保存
+  const onSaveAllDays = async () => {
+    const pending = days.filter(d => !savedDates.includes(d.meta.dateISO));
+    if (!pending.length) {
       return;
     }
-    const addCount = unassigned.reduce((s, it) => s + it.count, 0);
-    setRamenSetTotals(prev => ({ ...prev, 花: prev.花 + addCount }));
-    setUnassigned([]); // まとめ配分後は消す
-  };
-
-  const applyAssign = (index: number, key: RamenKey, asSet: boolean, amount?: number) => {
-    setUnassigned(prev => {
-      const next = [...prev];
-      const item = next[index];
-      if (!item) return prev;
-      const requested = amount ?? item.count;
-      const numeric = typeof requested === 'number' && Number.isFinite(requested) ? Math.floor(requested) : item.count;
-      const qty = Math.max(0, Math.min(numeric, item.count));
-      if (qty <= 0) return prev;
-
-      if (asSet) {
-        setRamenSetTotals(prevTotals => ({ ...prevTotals, [key]: prevTotals[key] + qty }));
-      } else {
-        setRamenTotals(prevTotals => ({ ...prevTotals, [key]: prevTotals[key] + qty }));
+    const withUnassigned = pending.filter(d => d.unassigned.length).length;
+    const note = withUnassigned ? `\n（うち ${withUnassigned} 日に未振り分けが残っています）` : '';
+    if (!(await confirm('まとめて保存', `${pending.length}日分を履歴に保存します。保存済みの日は上書きされます。${note}`, '保存'))) {
+      return;
+    }
+    try {
+      for (const day of pending) {
+        await saveDailyRecord(toDailyRecord(day, sourceFiles, paymentMethods), store.id);
       }
+      setRecords(await loadHistory(store.id));
+    } catch (e: any) {
+      Alert.alert('保存エラー', e?.message ?? String(e));
+      return;
+    }
+    setSavedDates(days.map(d => d.meta.dateISO));
+    Alert.alert('保存しました', `${pending.length}日分の日報を履歴に保存しました。`);
+  };
 
-      if (qty >= item.count) next.splice(index, 1);
-      else next[index] = { ...item, count: item.count - qty };
-      return next;
-    });
+  // 店舗を変えたら取込中のファイルと日報は閉じる（別の店舗のメニューで集計しないように）
+  const switchStore = async (next: StoreSettings) => {
+    const nextCatalog = await loadStoreData(activeStoreOf(next).id);
+    setProductFile(null);
+    setStatsFile(null);
+    setSourceFiles({});
+    loadDays([makeEmptyReport(todayBusinessISO(businessDay), nextCatalog)]);
   };
 
-  // ★ コース杯の手動加算（セットと同じUIで「コースに追加」も可能に）
-  const applyAssignCourse = (index: number, key: RamenKey, amount?: number) => {
-    setUnassigned(prev => {
-      const next = [...prev];
-      const item = next[index];
-      if (!item) return prev;
-      const requested = amount ?? item.count;
-      const numeric = typeof requested === 'number' && Number.isFinite(requested) ? Math.floor(requested) : item.count;
-      const qty = Math.max(0, Math.min(numeric, item.count));
-      if (qty <= 0) return prev;
+  const onSelectStore = async (id: string) => {
+    if (id === store.id) {
+      return;
+    }
+    if ((productFile || statsFile) && !(await confirm('店舗の切り替え', '読み込んだファイルと作成中の日報を閉じて切り替えますか？', '切り替え'))) {
+      return;
+    }
+    const next = { ...storeSettings, activeId: id };
+    try {
+      await saveStoreSettings(next);
+    } catch (e: any) {
+      Alert.alert('保存エラー', e?.message ?? String(e));
+      return;
+    }
+    setStoreSettings(next);
+    await switchStore(next);
+  };
 
-      setRamenCourseTotals(prevTotals => ({ ...prevTotals, [key]: prevTotals[key] + qty }));
+  const onSaveStores = async (next: StoreSettings, removedIds: string[]) => {
+    try {
+      await saveStoreSettings(next);
+      await Promise.all(removedIds.map(removeStoreData));
+    } catch (e: any) {
+      Alert.alert('保存エラー', e?.message ?? String(e));
+      return;
+    }
+    setStoreSettings(next);
+    setStoresOpen(false);
+    if (next.activeId !== storeSettings.activeId) {
+      await switchStore(next);
+    }
+  };
 
-      if (qty >= item.count) next.splice(index, 1);
-      else next[index] = { ...item, count: item.count - qty };
-      return next;
-    });
+  const onReopen = (record: DailyRecord) => {
+    loadDays([recordToReport(record)]);
+    setSourceFiles(record.sourceFiles);
+    setHistoryOpen(false);
   };
 
   const onCopy = async () => {
@@ -593,6 +729,15 @@ export default function TestPageScreen() {
 
   const onShare = async () => {
     if (!output) return;
+    // ブラウザの共有は対応がまちまちなので、web はテキストファイルのダウンロードだけにする
+    if (Platform.OS === 'web') {
+      try {
+        await exportFile(`summary_${meta.dateISO}.txt`, output, 'utf8');
+      } catch (e: any) {
+        Alert.alert('書き出しエラー', e?.message ?? String(e));
+      }
+      return;
+    }
     try {
       await Share.share({ message: output });
     } catch (e) {
@@ -606,22 +751,91 @@ export default function TestPageScreen() {
     } catch {}
   };
 
-  const fileBadge = (f: PickedFile | null, label: string) => (
+  const onExport = async (kind: 'json' | 'csv' | 'xlsx') => {
+    const baseName = `daily_${meta.dateISO}`;
+    try {
+      const path = kind === 'json'
+        ? await exportFile(`${baseName}.json`, dailyToJson(report, catalog, paymentMethods, sourceFiles), 'utf8')
+        : kind === 'csv'
+          ? await exportFile(`${baseName}.csv`, dailyToCsv(report, catalog, paymentMethods), 'utf8')
+          : await exportFile(`${baseName}.xlsx`, dailyToXlsxBase64(report, catalog, paymentMethods), 'base64');
+      if (Platform.OS !== 'web') {
+        Alert.alert('書き出し完了', path);
+      }
+    } catch (e: any) {
+      Alert.alert('書き出しエラー', e?.message ?? String(e));
+    }
+  };
+
+  const mappingFile = mappingKind ? fileOf(mappingKind) : null;
+
+  const fileBadge = (f: LoadedFile | null, label: string) => (
     <View style={styles.fileRow}>
       <Text style={styles.fileLabel}>{label}</Text>
-      <Text style={styles.fileName}>{f?.name ?? '未選択'}</Text>
+      <Text style={styles.fileName}>
+        {f?.name ?? '未選択'}
+        {f?.encoding ? <Text style={styles.fileEncoding}>（{ENCODING_LABELS[f.encoding]}）</Text> : null}
+        {f?.profileName ? <Text style={styles.fileEncoding}>［列：{f.profileName}］</Text> : null}
+        {f && f.format.id !== STANDARD_FORMAT.id ? (
+          <Text style={styles.fileEncoding}>［{f.format.label}］</Text>
+        ) : null}
+        {f?.layout === 'transaction' ? <Text style={styles.fileEncoding}>［{LAYOUT_LABELS[f.layout]}］</Text> : null}
+        {f && encodingMismatch(f.format, f.encoding) ? (
+          <Text style={styles.fileWarn}> ※{f.format.label}の想定と文字コードが違います</Text>
+        ) : null}
+      </Text>
     </View>
   );
 
   return (
     <ScrollView contentContainerStyle={styles.container}>
       <Text style={styles.h1}>CSV/Excelから日報テキスト生成</Text>
+      <View style={styles.chipRow}>
+        {storeSettings.stores.map(s => (
+          <Pressable key={s.id} style={[styles.chip, s.id === store.id && styles.chipSet]} onPress={() => onSelectStore(s.id)}>
+            <Text style={styles.chipText}>{s.id === store.id ? '✓ ' : ''}{s.name}</Text>
+          </Pressable>
+        ))}
+        <Pressable style={[styles.chip, styles.outline]} onPress={() => setStoresOpen(true)}>
+          <Text style={styles.chipText}>店舗を管理</Text>
+        </Pressable>
+      </View>
+      <View style={styles.navRow}>
+        <Pressable style={[styles.btn, styles.outline]} onPress={() => setMenuOpen(true)}>
+          <Text style={styles.btnText}>メニュー設定</Text>
+        </Pressable>
+        <Pressable style={[styles.btn, styles.outline]} onPress={() => setPaymentsOpen(true)}>
+          <Text style={styles.btnText}>支払方法</Text>
+        </Pressable>
+        <Pressable style={[styles.btn, styles.outline]} onPress={() => setRulesOpen(true)}>
+          <Text style={styles.btnText}>学習ルール（{learnedRules.length}）</Text>
+        </Pressable>
+        <Pressable style={[styles.btn, styles.outline]} onPress={() => setHistoryOpen(true)}>
+          <Text style={styles.btnText}>履歴</Text>
+        </Pressable>
+        <Pressable style={[styles.btn, styles.outline]} onPress={() => setPeriodOpen(true)}>
+          <Text style={styles.btnText}>週次・月次</Text>
+        </Pressable>
+      </View>
+
+      {supportsFileDrop && (
+        <View style={[styles.dropZone, dragging && styles.dropZoneActive]}>
+          <Text style={styles.dropText}>
+            {dragging ? 'ここにドロップ' : '2つのファイルをまとめてドラッグ＆ドロップすると、列名から①②に自動で振り分けます'}
+          </Text>
+        </View>
+      )}
 
       {fileBadge(productFile, '① 商品別 CSV/Excel')}
       <View style={styles.row}>
         <Pressable style={styles.btn} onPress={() => onPick('product')}>
           <Text style={styles.btnText}>商品別CSV/Excelを選ぶ</Text>
         </Pressable>
+        {productFile && (
+          <Pressable style={[styles.btn, styles.outline]} onPress={() => setMappingKind('product')}>
+            <Text style={styles.btnText}>列の対応</Text>
+          </Pressable>
+        )}
       </View>
 
       {fileBadge(statsFile, '② 支払方法別／拡張統計 CSV/Excel')}
@@ -629,6 +843,11 @@ export default function TestPageScreen() {
         <Pressable style={styles.btn} onPress={() => onPick('stats')}>
           <Text style={styles.btnText}>支払方法別CSV/Excelを選ぶ</Text>
         </Pressable>
+        {statsFile && (
+          <Pressable style={[styles.btn, styles.outline]} onPress={() => setMappingKind('stats')}>
+            <Text style={styles.btnText}>列の対応</Text>
+          </Pressable>
+        )}
       </View>
 
       <View style={styles.row}>
@@ -637,35 +856,181 @@ export default function TestPageScreen() {
         </Pressable>
       </View>
 
-      {/* 日付手動調整（JST） */}
+      {days.length > 1 && (
+        <View style={styles.daysBox}>
+          <Text style={styles.warnTitle}>複数日の取込：{days.length}日分（保存済み {savedDates.length}日）</Text>
+          <View style={styles.chipRow}>
+            {days.map((d, i) => (
+              <Pressable
+                key={`day-${d.meta.dateISO}-${i}`}
+                style={[styles.chip, i === dayIndex && styles.chipSet]}
+                onPress={() => { setDayIndex(i); setRememberOffer(null); }}
+              >
+                <Text style={styles.chipText}>
+                  {savedDates.includes(d.meta.dateISO) ? '✓ ' : ''}{d.meta.dateISO.slice(5)}
+                  {d.unassigned.length ? ` ⚠${d.unassigned.length}` : ''}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <Pressable style={[styles.btn, styles.outline, styles.spacedTop]} onPress={onSaveAllDays}>
+            <Text style={styles.btnText}>未保存の日をまとめて履歴に保存</Text>
+          </Pressable>
+        </View>
+      )}
+
+      {/* 日付手動調整（営業日） */}
       <View style={[styles.row, { justifyContent: 'space-between', alignItems: 'center' }]}>
         <Pressable
           style={[styles.btn, styles.outline, { minWidth: 84, alignItems: 'center' }]}
-          onPress={() => {
-            const d = new Date(meta.dateISO + 'T00:00:00+09:00');
-            d.setDate(d.getDate() - 1);
-            setMeta(prev => ({ ...prev, dateISO: d.toISOString().slice(0, 10) }));
-          }}
+          onPress={() => shiftDate(-1)}
         >
           <Text style={styles.btnText}>← 前日</Text>
         </Pressable>
         <Text style={{ fontSize: 14, fontWeight: '600' }}>{jpDateLabel(meta.dateISO)}</Text>
         <Pressable
           style={[styles.btn, styles.outline, { minWidth: 84, alignItems: 'center' }]}
-          onPress={() => {
-            const d = new Date(meta.dateISO + 'T00:00:00+09:00');
-            d.setDate(d.getDate() + 1);
-            setMeta(prev => ({ ...prev, dateISO: d.toISOString().slice(0, 10) }));
-          }}
+          onPress={() => shiftDate(1)}
         >
           <Text style={styles.btnText}>翌日 →</Text>
         </Pressable>
       </View>
+      <View style={styles.row}>
+        <Text style={styles.checkLine}>営業日の区切り</Text>
+        <TextInput
+          style={styles.toleranceInput}
+          value={cutoffText}
+          onChangeText={setCutoffText}
+          onBlur={onSaveBusinessDay}
+          onSubmitEditing={onSaveBusinessDay}
+          keyboardType="number-pad"
+        />
+        <Text style={styles.checkLine}>時（この時刻より前の会計は前日分）　タイムゾーン</Text>
+        <TextInput
+          style={[styles.toleranceInput, styles.timeZoneInput]}
+          value={timeZoneText}
+          onChangeText={setTimeZoneText}
+          onBlur={onSaveBusinessDay}
+          onSubmitEditing={onSaveBusinessDay}
+          autoCapitalize="none"
+        />
+      </View>
 
       <Text style={styles.h2}>出力プレビュー</Text>
       <View style={styles.outputBox}>
         <Text style={styles.mono}>{output || '（ここに生成された文章が表示されます）'}</Text>
       </View>
+      {overrideCount(report) > 0 && (
+        <Text style={styles.overrideNote}>✎ 手入力で直した数値が {overrideCount(report)} 件あります（「数値を修正」で確認・取込値に戻せます）</Text>
+      )}
+
+      <View style={styles.taxBox}>
+        <View style={styles.kpiHeader}>
+          <Text style={styles.warnTitle}>前週・前年との比較と目標</Text>
+          <Pressable style={[styles.chip, comparisonDisplay.append && styles.chipSet]} onPress={onToggleComparisonAppend}>
+            <Text style={styles.chipText}>{comparisonDisplay.append ? '✓ 日報に載せる' : '日報に載せる'}</Text>
+          </Pressable>
+        </View>
+        {comparisonLines(comparison).map(line => (
+          <Text key={line.label} style={styles.checkLine}>
+            {line.label}：{line.value}
+          </Text>
+        ))}
+        <View style={styles.taxRow}>
+          <Text style={styles.checkLine}>日目標（円）</Text>
+          <TextInput
+            style={styles.toleranceInput}
+            value={dailyTargetText}
+            placeholder="なし"
+            onChangeText={setDailyTargetText}
+            onBlur={onSaveSalesTargets}
+            onSubmitEditing={onSaveSalesTargets}
+            keyboardType="number-pad"
+          />
+          <Text style={styles.checkLine}>月目標（円）</Text>
+          <TextInput
+            style={styles.toleranceInput}
+            value={monthlyTargetText}
+            placeholder="なし"
+            onChangeText={setMonthlyTargetText}
+            onBlur={onSaveSalesTargets}
+            onSubmitEditing={onSaveSalesTargets}
+            keyboardType="number-pad"
+          />
+        </View>
+      </View>
+
+      {!!checks.length && (
+        <View style={[styles.checkBox, hasReconcileWarnings(checks) && styles.checkBoxWarn]}>
+          <Text style={styles.warnTitle}>照合チェック{hasReconcileWarnings(checks) ? '：要確認' : '：OK'}</Text>
+          {checks.map(c => (
+            <Text key={c.id} style={[styles.checkLine, !c.ok && styles.checkNg]}>
+              {c.ok ? '✓' : '⚠'} {c.label}：{c.actual.toLocaleString('ja-JP')} / {c.expected.toLocaleString('ja-JP')}　{c.message}
+            </Text>
+          ))}
+          <View style={[styles.row, styles.spacedTop]}>
+            <Text style={styles.checkLine}>支払合計の許容差（円）</Text>
+            <TextInput
+              style={styles.toleranceInput}
+              value={toleranceText}
+              onChangeText={setToleranceText}
+              onBlur={onSaveTolerance}
+              onSubmitEditing={onSaveTolerance}
+              keyboardType="number-pad"
+            />
+          </View>
+        </View>
+      )}
+
+      {meta.tax && (
+        <View style={styles.taxBox}>
+          <Text style={styles.warnTitle}>税・割引</Text>
+          {TAX_FIELDS.map(f => (
+            <View key={f} style={styles.taxRow}>
+              <Text style={styles.taxLabel}>{TAX_LABELS[f]}</Text>
+              <Text style={styles.taxAmount}>{jpCurrency(meta.tax?.[f] ?? 0)}</Text>
+              <Pressable
+                style={[styles.chip, taxDisplay.shown.includes(f) && styles.chipSet]}
+                onPress={() => onToggleTaxShown(f)}
+              >
+                <Text style={styles.chipText}>{taxDisplay.shown.includes(f) ? '✓ 日報に載せる' : '日報に載せる'}</Text>
+              </Pressable>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {meta.payments.total > 0 && (
+        <View style={styles.taxBox}>
+          <View style={styles.kpiHeader}>
+            <Text style={styles.warnTitle}>指標</Text>
+            <Pressable style={[styles.chip, kpiDisplay.append && styles.chipSet]} onPress={onToggleKpiAppend}>
+              <Text style={styles.chipText}>{kpiDisplay.append ? '✓ 日報に載せる' : '日報に載せる'}</Text>
+            </Pressable>
+          </View>
+          {kpis.map(k => (
+            <View key={k.label} style={styles.taxRow}>
+              <Text style={styles.taxLabel}>{k.label}</Text>
+              <Text style={styles.taxAmount}>{k.value}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.chipRow}>
+        {allTemplates.map(t => (
+          <Pressable
+            key={t.id}
+            style={[styles.chip, t.id === template.id && styles.chipSet]}
+            onPress={() => persistTemplateSettings({ ...templateSettings, selectedId: t.id })}
+          >
+            <Text style={styles.chipText}>{t.name}</Text>
+          </Pressable>
+        ))}
+        <Pressable style={[styles.chip, styles.outline]} onPress={() => setTemplatesOpen(true)}>
+          <Text style={styles.chipText}>書式を編集</Text>
+        </Pressable>
+      </View>
 
       <View style={styles.toolbar}>
         <Pressable style={styles.btn} onPress={onCopy} disabled={!output}>
@@ -674,8 +1039,81 @@ export default function TestPageScreen() {
         <Pressable style={styles.btn} onPress={onShare} disabled={!output}>
           <Text style={styles.btnText}>テキスト保存/共有</Text>
         </Pressable>
+        <Pressable style={styles.btn} onPress={() => onExport('json')}>
+          <Text style={styles.btnText}>JSON</Text>
+        </Pressable>
+        <Pressable style={styles.btn} onPress={() => onExport('csv')}>
+          <Text style={styles.btnText}>CSV</Text>
+        </Pressable>
+        <Pressable style={styles.btn} onPress={() => onExport('xlsx')}>
+          <Text style={styles.btnText}>Excel</Text>
+        </Pressable>
+        <Pressable style={styles.btn} onPress={() => setCashOpen(true)}>
+          <Text style={styles.btnText}>レジ締め{report.cashClosing ? ' ✓' : ''}</Text>
+        </Pressable>
+        <Pressable style={styles.btn} onPress={() => setFiguresOpen(true)}>
+          <Text style={styles.btnText}>数値を修正{overrideCount(report) ? ` ✎${overrideCount(report)}` : ''}</Text>
+        </Pressable>
+        <Pressable style={[styles.btn, styles.primary]} onPress={onSaveDay}>
+          <Text style={[styles.btnText, styles.primaryText]}>この日を履歴に保存</Text>
+        </Pressable>
       </View>
 
+      {rememberOffer && (
+        <View style={styles.offerBox}>
+          <Text style={styles.itemName}>
+            「{rememberOffer.name}」を次回から「{labelOf(catalog, rememberOffer.key)}（{BUCKET_LABELS[rememberOffer.bucket]}）」として自動計上しますか？
+          </Text>
+          <View style={styles.chipRow}>
+            <Pressable style={[styles.chip, styles.chipSet]} onPress={acceptRememberOffer}>
+              <Text style={styles.chipText}>記憶する</Text>
+            </Pressable>
+            <Pressable style={styles.chip} onPress={() => setRememberOffer(null)}>
+              <Text style={styles.chipText}>今回だけ</Text>
+            </Pressable>
+          </View>
+        </View>
+      )}
+
+      {!!autoResolved.length && (
+        <View style={styles.autoBox}>
+          <Text style={styles.warnTitle}>学習ルールで自動計上: {autoResolved.length}件</Text>
+          {autoResolved.map((a, i) => (
+            <Text key={`${a.name}-${i}`} style={styles.itemMeta}>
+              ・{a.name} × {a.count} → {labelOf(catalog, a.key)}（{BUCKET_LABELS[a.bucket]}）
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {(undoStack.past.length > 0 || undoStack.future.length > 0) && (
+        <View style={styles.row}>
+          <Pressable style={[styles.btn, styles.outline]} onPress={onUndo} disabled={!undoStack.past.length}>
+            <Text style={[styles.btnText, !undoStack.past.length && styles.btnDisabled]}>元に戻す</Text>
+          </Pressable>
+          <Pressable style={[styles.btn, styles.outline]} onPress={onRedo} disabled={!undoStack.future.length}>
+            <Text style={[styles.btnText, !undoStack.future.length && styles.btnDisabled]}>やり直す</Text>
+          </Pressable>
+        </View>
+      )}
+
+      {!!allocations.length && (
+        <View style={styles.daysBox}>
+          <Text style={styles.warnTitle}>手動の振り分け: {allocations.length}件</Text>
+          {allocations.map(a => (
+            <View key={a.id} style={styles.allocationRow}>
+              <Text style={styles.allocationText}>
+                ・{a.name} × {a.qty} → {labelOf(catalog, a.key)}（{BUCKET_LABELS[a.bucket]}）
+              </Text>
+              <Pressable style={styles.chip} onPress={() => applyManual(prev => revertAllocation(prev, a.id))}>
+                <Text style={styles.chipText}>取り消し</Text>
+              </Pressable>
+            </View>
+          ))}
+          <Text style={styles.warnNote}>※取り消すと数量が未振り分けに戻ります。</Text>
+        </View>
+      )}
+
       {!!unassigned.length && (
         <View style={styles.unassignedBox}>
           <Text style={styles.warnTitle}>要振り分け候補（未計上）: {unassigned.length}件</Text>
@@ -688,30 +1126,30 @@ export default function TestPageScreen() {
 
               <Text style={{ marginTop: 6, fontSize: 12 }}>通常に追加（残り {a.count}）</Text>
               <View style={styles.chipRow}>
-                {RAMEN_DISPLAY_ORDER.map(key => (
+                {ramenItems.map(({ key, label }) => (
                   <Pressable
                     key={`base-${key}`}
                     style={styles.chip}
-                    onPress={() => applyAssign(i, key, false, 1)}
-                    onLongPress={() => applyAssign(i, key, false, a.count)}
+                    onPress={() => applyAssign(i, key, 'normal', 1)}
+                    onLongPress={() => applyAssign(i, key, 'normal', a.count)}
                     delayLongPress={200}
                   >
-                    <Text style={styles.chipText}>＋{RAMEN_LABELS[key]}</Text>
+                    <Text style={styles.chipText}>＋{label}</Text>
                   </Pressable>
                 ))}
               </View>
 
               <Text style={{ marginTop: 8, fontSize: 12 }}>セットに追加</Text>
               <View style={styles.chipRow}>
-                {SET_ALLOWED_KEYS.map(key => (
+                {setItems.map(({ key, label }) => (
                   <Pressable
                     key={`set-${key}`}
                     style={[styles.chip, styles.chipSet]}
-                    onPress={() => applyAssign(i, key, true, 1)}
-                    onLongPress={() => applyAssign(i, key, true, a.count)}
+                    onPress={() => applyAssign(i, key, 'set', 1)}
+                    onLongPress={() => applyAssign(i, key, 'set', a.count)}
                     delayLongPress={200}
                   >
-                    <Text style={styles.chipText}>＋{RAMEN_LABELS[key]}（セット）</Text>
+                    <Text style={styles.chipText}>＋{label}（セット）</Text>
                   </Pressable>
                 ))}
               </View>
@@ -719,28 +1157,136 @@ export default function TestPageScreen() {
               {/* ★ 追加：コースに追加 */}
               <Text style={{ marginTop: 8, fontSize: 12 }}>コースに追加</Text>
               <View style={styles.chipRow}>
-                {SET_ALLOWED_KEYS.map(key => (
+                {setItems.map(({ key, label }) => (
                   <Pressable
                     key={`course-${key}`}
                     style={[styles.chip, styles.chipCourse]}
-                    onPress={() => applyAssignCourse(i, key, 1)}
-                    onLongPress={() => applyAssignCourse(i, key, a.count)}
+                    onPress={() => applyAssign(i, key, 'course', 1)}
+                    onLongPress={() => applyAssign(i, key, 'course', a.count)}
                     delayLongPress={200}
                   >
-                    <Text style={styles.chipText}>＋{RAMEN_LABELS[key]}（コース）</Text>
+                    <Text style={styles.chipText}>＋{label}（コース）</Text>
                   </Pressable>
                 ))}
               </View>
             </View>
           ))}
-          <Pressable style={[styles.btn, styles.outline, { marginTop: 12 }]} onPress={assignAllUnassignedToHanaSet}>
-            <Text style={styles.btnText}>未振り分けを一括で「花セット」計上</Text>
-          </Pressable>
+          {setItems.length > 0 && (
+            <>
+              <Text style={styles.bulkSetTitle}>未振り分けを一括でセット計上</Text>
+              <View style={styles.chipRow}>
+                {setItems.map(({ key, label }) => (
+                  <Pressable
+                    key={`all-set-${key}`}
+                    style={[styles.chip, styles.chipSet]}
+                    onPress={() => assignAllUnassignedToSet(key)}
+                  >
+                    <Text style={styles.chipText}>すべて{label}セット</Text>
+                  </Pressable>
+                ))}
+              </View>
+            </>
+          )}
           <Text style={styles.warnNote}>※タップで1杯、長押しで残数まとめて配分できます。</Text>
         </View>
       )}
 
       <View style={{ height: 32 }} />
+
+      <Modal visible={menuOpen} animationType="slide" onRequestClose={() => setMenuOpen(false)}>
+        <MenuCatalogScreen catalog={catalog} onSave={onSaveCatalog} onClose={() => setMenuOpen(false)} />
+      </Modal>
+      <Modal visible={paymentsOpen} animationType="slide" onRequestClose={() => setPaymentsOpen(false)}>
+        <PaymentMethodsScreen
+          methods={paymentMethods}
+          onSave={onSavePaymentMethods}
+          onClose={() => setPaymentsOpen(false)}
+        />
+      </Modal>
+      <Modal visible={rulesOpen} animationType="slide" onRequestClose={() => setRulesOpen(false)}>
+        <LearnedRulesScreen
+          rules={learnedRules}
+          catalog={catalog}
+          onSave={onSaveRules}
+          onClose={() => setRulesOpen(false)}
+        />
+      </Modal>
+      <Modal visible={historyOpen} animationType="slide" onRequestClose={onCloseHistory}>
+        <HistoryScreen
+          store={store}
+          catalog={catalog}
+          paymentMethods={paymentMethods}
+          onReopen={onReopen}
+          onClose={onCloseHistory}
+        />
+      </Modal>
+      <Modal visible={!!mappingFile} animationType="slide" onRequestClose={() => setMappingKind(null)}>
+        {mappingKind && mappingFile && (
+          <ColumnMappingScreen
+            kind={mappingKind}
+            fileName={mappingFile.name}
+            rows={mappingFile.rows}
+            initialMapping={
+              Object.keys(mappingFile.mapping).length
+                ? mappingFile.mapping
+                : autoMapping(headersOf(mappingFile.rows), mappingKind, paymentMethods)
+            }
+            paymentMethods={paymentMethods}
+            initialLayout={mappingFile.layout}
+            initialName={mappingFile.profileName}
+            onApply={onApplyMapping}
+            onClose={() => setMappingKind(null)}
+          />
+        )}
+      </Modal>
+      <Modal visible={cashOpen} animationType="slide" onRequestClose={() => setCashOpen(false)}>
+        <CashClosingScreen
+          dateLabel={jpDateLabel(meta.dateISO)}
+          initial={report.cashClosing}
+          expectedCash={meta.payments[CASH_KEY] ?? 0}
+          onSave={onSaveCashClosing}
+          onClose={() => setCashOpen(false)}
+        />
+      </Modal>
+      <Modal visible={figuresOpen} animationType="slide" onRequestClose={() => setFiguresOpen(false)}>
+        <FiguresScreen
+          dateLabel={jpDateLabel(meta.dateISO)}
+          report={report}
+          catalog={catalog}
+          paymentMethods={paymentMethods}
+          onChange={onChangeFigure}
+          onReset={onResetFigure}
+          onPromote={onPromotePayment}
+          onClose={() => setFiguresOpen(false)}
+        />
+      </Modal>
+      <Modal visible={templatesOpen} animationType="slide" onRequestClose={() => setTemplatesOpen(false)}>
+        <TemplatesScreen
+          settings={templateSettings}
+          report={report}
+          catalog={catalog}
+          paymentMethods={paymentMethods}
+          taxDisplay={taxDisplay}
+          kpiDisplay={kpiDisplay}
+          comparison={comparison}
+          comparisonDisplay={comparisonDisplay}
+          onSave={onSaveTemplates}
+          onClose={() => setTemplatesOpen(false)}
+        />
+      </Modal>
+      <Modal visible={periodOpen} animationType="slide" onRequestClose={() => setPeriodOpen(false)}>
+        <PeriodReportScreen
+          store={store}
+          catalog={catalog}
+          stores={storeSettings.stores}
+          paymentMethods={paymentMethods}
+          anchorISO={meta.dateISO}
+          onClose={() => setPeriodOpen(false)}
+        />
+      </Modal>
+      <Modal visible={storesOpen} animationType="slide" onRequestClose={() => setStoresOpen(false)}>
+        <StoresScreen settings={storeSettings} onSave={onSaveStores} onClose={() => setStoresOpen(false)} />
+      </Modal>
     </ScrollView>
   );
 }
@@ -750,14 +1296,18 @@ const styles = StyleSheet.create({
   h1: { fontSize: 18, fontWeight: '700' },
   h2: { fontSize: 16, fontWeight: '600', marginTop: 8 },
   row: { flexDirection: 'row', gap: 8, alignItems: 'center' },
+  navRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
   btn: { paddingVertical: 10, paddingHorizontal: 14, borderRadius: 10, backgroundColor: '#f2f2f7' },
   btnText: { fontSize: 14, fontWeight: '600', color: '#111' },
+  btnDisabled: { color: '#aaa' },
   primary: { backgroundColor: '#007aff' },
   primaryText: { color: '#fff' },
   outline: { backgroundColor: '#fff', borderWidth: 1, borderColor: '#c7c7cc' },
   fileRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
   fileLabel: { fontSize: 14, color: '#444' },
   fileName: { fontSize: 14, fontWeight: '600' },
+  fileEncoding: { fontSize: 12, fontWeight: '400', color: '#666' },
+  fileWarn: { fontSize: 12, fontWeight: '400', color: '#c9302c' },
   outputBox: {
     padding: 12,
     backgroundColor: '#fbfbfd',
@@ -770,7 +1320,18 @@ const styles = StyleSheet.create({
     fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'Courier' }),
     fontSize: 14, lineHeight: 20,
   },
-  toolbar: { flexDirection: 'row', gap: 12 },
+  dropZone: {
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#c7c7cc',
+    alignItems: 'center',
+  },
+  dropZoneActive: { borderColor: '#007aff', backgroundColor: '#e7f0ff' },
+  dropText: { fontSize: 12, color: '#666' },
+  overrideNote: { fontSize: 12, color: '#c96a00' },
+  toolbar: { flexDirection: 'row', flexWrap: 'wrap', gap: 12 },
   unassignedBox: {
     marginTop: 8,
     padding: 12,
@@ -780,6 +1341,64 @@ const styles = StyleSheet.create({
     backgroundColor: '#fffbea',
   },
   unassignedItem: { marginTop: 8 },
+  offerBox: {
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#007aff',
+    backgroundColor: '#f0f6ff',
+  },
+  daysBox: {
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#c7c7cc',
+    backgroundColor: '#f7f7fa',
+  },
+  autoBox: {
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#34c759',
+    backgroundColor: '#f0fbf3',
+  },
+  checkBox: {
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#34c759',
+    backgroundColor: '#f0fbf3',
+  },
+  checkBoxWarn: { borderColor: '#ff3b30', backgroundColor: '#fff2f1' },
+  taxBox: {
+    padding: 12,
+    gap: 4,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#e5e5ea',
+    backgroundColor: '#fbfbfd',
+  },
+  kpiHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  spacedTop: { marginTop: 8 },
+  timeZoneInput: { minWidth: 140 },
+  bulkSetTitle: { marginTop: 12, fontSize: 12 },
+  taxRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  taxLabel: { width: 120, fontSize: 13 },
+  taxAmount: { width: 100, fontSize: 13, textAlign: 'right' },
+  checkLine: { fontSize: 12, color: '#333', marginTop: 2 },
+  checkNg: { color: '#c9302c', fontWeight: '600' },
+  toleranceInput: {
+    minWidth: 72,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#c7c7cc',
+    backgroundColor: '#fff',
+    fontSize: 13,
+  },
+  allocationRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 4 },
+  allocationText: { flex: 1, fontSize: 12, color: '#333' },
   itemName: { fontSize: 13, fontWeight: '600' },
   itemMeta: { fontSize: 12, color: '#666', marginLeft: 6 },
   chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 6 },
@@ -30,6 +30,7 @@ export async function pickSingle(_options?: PickOptions): Promise<DocumentPicker
         reject(new Error('No file selected'));
         return;
       }
+      // URL は readBytes（src/io/readFile.ts）が読み終えたら解放する
       const uri = URL.createObjectURL(file);
       resolve({
         uri,
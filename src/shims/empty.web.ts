@@ -1,4 +1,6 @@
-﻿export const DocumentDirectoryPath = '/';
+﻿import { base64ToBytes } from '../import/encoding';
+
+export const DocumentDirectoryPath = '/';
 
 export async function readFile(uri: string, encoding: string = 'utf8'): Promise<string> {
   const response = await fetch(uri);
@@ -18,8 +20,29 @@ export async function readFile(uri: string, encoding: string = 'utf8'): Promise<
   return await response.text();
 }
 
-export async function writeFile(_path: string, _data: string): Promise<void> {
-  console.warn('writeFile stub called in web shim – no-op');
+const MIME_BY_EXTENSION: Record<string, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  txt: 'text/plain',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// ブラウザにはアプリ用のフォルダがないので、パスの末尾をファイル名にしてダウンロードさせる
+export async function writeFile(path: string, data: string, encoding: string = 'utf8'): Promise<void> {
+  const g = globalThis as any;
+  const fileName = path.split('/').pop() || 'download';
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  const blob = new g.Blob([encoding === 'base64' ? base64ToBytes(data) : data], {
+    type: MIME_BY_EXTENSION[extension] ?? 'application/octet-stream',
+  });
+  const url = g.URL.createObjectURL(blob);
+  const a = g.document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  g.document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => g.URL.revokeObjectURL(url), 1000);
 }
 
 export const fs = {
@@ -0,0 +1,15 @@
+﻿// src/storage/businessDay.ts
+import { DEFAULT_BUSINESS_DAY, normalizeBusinessDay } from '../report/businessDay';
+import type { BusinessDaySettings } from '../report/businessDay';
+import { loadJSON, saveJSON } from './jsonStore';
+
+const STORAGE_KEY = 'business_day';
+
+export async function loadBusinessDaySettings(): Promise<BusinessDaySettings> {
+  const saved = await loadJSON<Partial<BusinessDaySettings> | null>(STORAGE_KEY, null);
+  return saved ? normalizeBusinessDay(saved) : DEFAULT_BUSINESS_DAY;
+}
+
+export async function saveBusinessDaySettings(settings: BusinessDaySettings): Promise<void> {
+  await saveJSON(STORAGE_KEY, settings);
+}
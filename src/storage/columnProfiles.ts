@@ -0,0 +1,16 @@
+﻿// src/storage/columnProfiles.ts
+import type { ColumnProfile } from '../import/columnMapping';
+import { DEFAULT_STORE_ID } from '../report/stores';
+import { loadJSON, saveJSON } from './jsonStore';
+import { storeKey } from './stores';
+
+const STORAGE_KEY = 'column_profiles';
+
+export async function loadColumnProfiles(storeId = DEFAULT_STORE_ID): Promise<ColumnProfile[]> {
+  const saved = await loadJSON<unknown>(storeKey(STORAGE_KEY, storeId), []);
+  return Array.isArray(saved) ? (saved as ColumnProfile[]) : [];
+}
+
+export async function saveColumnProfiles(profiles: ColumnProfile[], storeId = DEFAULT_STORE_ID): Promise<void> {
+  await saveJSON(storeKey(STORAGE_KEY, storeId), profiles);
+}
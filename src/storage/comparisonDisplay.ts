@@ -0,0 +1,15 @@
+﻿// src/storage/comparisonDisplay.ts
+import { DEFAULT_COMPARISON_DISPLAY } from '../report/comparison';
+import type { ComparisonDisplaySettings } from '../report/comparison';
+import { loadJSON, saveJSON } from './jsonStore';
+
+const STORAGE_KEY = 'comparison_display';
+
+export async function loadComparisonDisplay(): Promise<ComparisonDisplaySettings> {
+  const saved = await loadJSON<Partial<ComparisonDisplaySettings> | null>(STORAGE_KEY, null);
+  return { ...DEFAULT_COMPARISON_DISPLAY, ...(saved ?? {}) };
+}
+
+export async function saveComparisonDisplay(settings: ComparisonDisplaySettings): Promise<void> {
+  await saveJSON(STORAGE_KEY, settings);
+}
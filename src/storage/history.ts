@@ -0,0 +1,36 @@
+﻿// src/storage/history.ts
+import { sortRecordsDesc } from '../report/history';
+import type { DailyRecord } from '../report/history';
+import { DEFAULT_STORE_ID } from '../report/stores';
+import { loadJSON, saveJSON } from './jsonStore';
+import { storeKey } from './stores';
+
+const STORAGE_KEY = 'daily_history';
+
+// dateISO → レコード（同じ日を保存し直すと上書き）。店舗ごとに別のキーに保存
+type HistoryMap = Record<string, DailyRecord>;
+
+async function loadHistoryMap(storeId: string): Promise<HistoryMap> {
+  const saved = await loadJSON<unknown>(storeKey(STORAGE_KEY, storeId), {});
+  return saved && typeof saved === 'object' && !Array.isArray(saved) ? (saved as HistoryMap) : {};
+}
+
+export async function loadHistory(storeId = DEFAULT_STORE_ID): Promise<DailyRecord[]> {
+  return sortRecordsDesc(Object.values(await loadHistoryMap(storeId)));
+}
+
+export async function loadDailyRecord(dateISO: string, storeId = DEFAULT_STORE_ID): Promise<DailyRecord | undefined> {
+  return (await loadHistoryMap(storeId))[dateISO];
+}
+
+export async function saveDailyRecord(record: DailyRecord, storeId = DEFAULT_STORE_ID): Promise<void> {
+  const map = await loadHistoryMap(storeId);
+  map[record.meta.dateISO] = record;
+  await saveJSON(storeKey(STORAGE_KEY, storeId), map);
+}
+
+export async function deleteDailyRecord(dateISO: string, storeId = DEFAULT_STORE_ID): Promise<void> {
+  const map = await loadHistoryMap(storeId);
+  delete map[dateISO];
+  await saveJSON(storeKey(STORAGE_KEY, storeId), map);
+}
@@ -0,0 +1,51 @@
+﻿// src/storage/jsonStore.ts
+// 端末ローカルの JSON 保存（native: DocumentDirectory のファイル / web: localStorage）
+import { Platform } from 'react-native';
+import RNFS from 'react-native-fs';
+
+type WebStorage = {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+};
+
+const webStorage = (): WebStorage | undefined => (globalThis as any).localStorage;
+
+const pathOf = (key: string) => `${RNFS.DocumentDirectoryPath}/${key}.json`;
+
+export async function loadJSON<T>(key: string, fallback: T): Promise<T> {
+  try {
+    if (Platform.OS === 'web') {
+      const raw = webStorage()?.getItem(key);
+      return raw ? (JSON.parse(raw) as T) : fallback;
+    }
+    const path = pathOf(key);
+    if (!(await RNFS.exists(path))) {
+      return fallback;
+    }
+    return JSON.parse(await RNFS.readFile(path, 'utf8')) as T;
+  } catch (e) {
+    console.warn(`loadJSON(${key}) failed`, e);
+    return fallback;
+  }
+}
+
+export async function saveJSON<T>(key: string, value: T): Promise<void> {
+  const raw = JSON.stringify(value);
+  if (Platform.OS === 'web') {
+    webStorage()?.setItem(key, raw);
+    return;
+  }
+  await RNFS.writeFile(pathOf(key), raw, 'utf8');
+}
+
+export async function removeJSON(key: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    webStorage()?.removeItem(key);
+    return;
+  }
+  const path = pathOf(key);
+  if (await RNFS.exists(path)) {
+    await RNFS.unlink(path);
+  }
+}
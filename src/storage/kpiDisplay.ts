@@ -0,0 +1,15 @@
+﻿// src/storage/kpiDisplay.ts
+import { DEFAULT_KPI_DISPLAY } from '../report/kpi';
+import type { KpiDisplaySettings } from '../report/kpi';
+import { loadJSON, saveJSON } from './jsonStore';
+
+const STORAGE_KEY = 'kpi_display';
+
+export async function loadKpiDisplay(): Promise<KpiDisplaySettings> {
+  const saved = await loadJSON<Partial<KpiDisplaySettings> | null>(STORAGE_KEY, null);
+  return { ...DEFAULT_KPI_DISPLAY, ...(saved ?? {}) };
+}
+
+export async function saveKpiDisplay(settings: KpiDisplaySettings): Promise<void> {
+  await saveJSON(STORAGE_KEY, settings);
+}
@@ -0,0 +1,16 @@
+﻿// src/storage/learnedRules.ts
+import type { LearnedRule } from '../report/rules';
+import { DEFAULT_STORE_ID } from '../report/stores';
+import { loadJSON, saveJSON } from './jsonStore';
+import { storeKey } from './stores';
+
+const STORAGE_KEY = 'learned_rules';
+
+export async function loadLearnedRules(storeId = DEFAULT_STORE_ID): Promise<LearnedRule[]> {
+  const saved = await loadJSON<unknown>(storeKey(STORAGE_KEY, storeId), []);
+  return Array.isArray(saved) ? (saved as LearnedRule[]) : [];
+}
+
+export async function saveLearnedRules(rules: LearnedRule[], storeId = DEFAULT_STORE_ID): Promise<void> {
+  await saveJSON(storeKey(STORAGE_KEY, storeId), rules);
+}
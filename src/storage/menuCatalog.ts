@@ -0,0 +1,20 @@
+﻿// src/storage/menuCatalog.ts
+import { DEFAULT_MENU_CATALOG } from '../report/catalog';
+import type { MenuCatalog } from '../report/catalog';
+import { DEFAULT_STORE_ID } from '../report/stores';
+import { loadJSON, saveJSON } from './jsonStore';
+import { storeKey } from './stores';
+
+const STORAGE_KEY = 'menu_catalog';
+
+const isMenuCatalog = (v: any): v is MenuCatalog =>
+  !!v && v.version === 1 && Array.isArray(v.items) && Array.isArray(v.excludePatterns);
+
+export async function loadMenuCatalog(storeId = DEFAULT_STORE_ID): Promise<MenuCatalog> {
+  const saved = await loadJSON<unknown>(storeKey(STORAGE_KEY, storeId), null);
+  return isMenuCatalog(saved) ? { ...DEFAULT_MENU_CATALOG, ...saved } : DEFAULT_MENU_CATALOG;
+}
+
+export async function saveMenuCatalog(catalog: MenuCatalog, storeId = DEFAULT_STORE_ID): Promise<void> {
+  await saveJSON(storeKey(STORAGE_KEY, storeId), catalog);
+}
@@ -0,0 +1,28 @@
+﻿// src/storage/paymentMethods.ts
+import { DEFAULT_PAYMENT_METHODS } from '../report/payments';
+import type { PaymentMethod } from '../report/payments';
+import { DEFAULT_STORE_ID } from '../report/stores';
+import { loadJSON, saveJSON } from './jsonStore';
+import { storeKey } from './stores';
+
+const STORAGE_KEY = 'payment_methods';
+
+const isMethod = (m: any): m is PaymentMethod =>
+  !!m && typeof m.key === 'string' && typeof m.label === 'string' && Array.isArray(m.aliases);
+
+// 未保存・壊れているときは標準の支払方法
+export async function loadPaymentMethods(storeId = DEFAULT_STORE_ID): Promise<PaymentMethod[]> {
+  const saved = await loadJSON<unknown>(storeKey(STORAGE_KEY, storeId), null);
+  if (!Array.isArray(saved) || !saved.length) {
+    return DEFAULT_PAYMENT_METHODS;
+  }
+  return saved.filter(isMethod).map((m, i) => ({
+    ...m,
+    order: typeof m.order === 'number' ? m.order : i + 1,
+    cashless: m.cashless !== false,
+  }));
+}
+
+export async function savePaymentMethods(methods: PaymentMethod[], storeId = DEFAULT_STORE_ID): Promise<void> {
+  await saveJSON(storeKey(STORAGE_KEY, storeId), methods);
+}
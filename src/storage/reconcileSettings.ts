@@ -0,0 +1,15 @@
+﻿// src/storage/reconcileSettings.ts
+import { DEFAULT_RECONCILE_SETTINGS } from '../report/reconcile';
+import type { ReconcileSettings } from '../report/reconcile';
+import { loadJSON, saveJSON } from './jsonStore';
+
+const STORAGE_KEY = 'reconcile_settings';
+
+export async function loadReconcileSettings(): Promise<ReconcileSettings> {
+  const saved = await loadJSON<Partial<ReconcileSettings> | null>(STORAGE_KEY, null);
+  return { ...DEFAULT_RECONCILE_SETTINGS, ...(saved ?? {}) };
+}
+
+export async function saveReconcileSettings(settings: ReconcileSettings): Promise<void> {
+  await saveJSON(STORAGE_KEY, settings);
+}
@@ -0,0 +1,22 @@
+﻿// src/storage/salesTargets.ts
+import { DEFAULT_SALES_TARGETS } from '../report/comparison';
+import type { SalesTargets } from '../report/comparison';
+import { DEFAULT_STORE_ID } from '../report/stores';
+import { loadJSON, saveJSON } from './jsonStore';
+import { storeKey } from './stores';
+
+const STORAGE_KEY = 'sales_targets';
+
+const amountOf = (v: unknown) => (typeof v === 'number' && v > 0 ? Math.round(v) : 0);
+
+export async function loadSalesTargets(storeId = DEFAULT_STORE_ID): Promise<SalesTargets> {
+  const saved = await loadJSON<Partial<SalesTargets> | null>(storeKey(STORAGE_KEY, storeId), null);
+  if (!saved) {
+    return DEFAULT_SALES_TARGETS;
+  }
+  return { daily: amountOf(saved.daily), monthly: amountOf(saved.monthly) };
+}
+
+export async function saveSalesTargets(targets: SalesTargets, storeId = DEFAULT_STORE_ID): Promise<void> {
+  await saveJSON(storeKey(STORAGE_KEY, storeId), targets);
+}
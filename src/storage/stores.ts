@@ -0,0 +1,32 @@
+﻿// src/storage/stores.ts
+import { DEFAULT_STORE_ID, DEFAULT_STORE_SETTINGS } from '../report/stores';
+import type { StoreSettings } from '../report/stores';
+import { loadJSON, removeJSON, saveJSON } from './jsonStore';
+
+const STORAGE_KEY = 'stores';
+
+// 店舗ごとに持つデータの保存キー（既定の店舗は店舗機能より前と同じキーのまま）
+export const STORE_SCOPED_KEYS = ['menu_catalog', 'learned_rules', 'column_profiles', 'report_templates', 'daily_history', 'payment_methods', 'sales_targets'];
+
+export const storeKey = (key: string, storeId: string) => (storeId === DEFAULT_STORE_ID ? key : `${key}@${storeId}`);
+
+export async function loadStoreSettings(): Promise<StoreSettings> {
+  const saved = await loadJSON<Partial<StoreSettings> | null>(STORAGE_KEY, null);
+  if (!saved || !Array.isArray(saved.stores) || !saved.stores.length) {
+    return DEFAULT_STORE_SETTINGS;
+  }
+  const stores = saved.stores;
+  return {
+    stores,
+    activeId: stores.some(s => s.id === saved.activeId) ? saved.activeId! : stores[0].id,
+  };
+}
+
+export async function saveStoreSettings(settings: StoreSettings): Promise<void> {
+  await saveJSON(STORAGE_KEY, settings);
+}
+
+// 店舗を削除したときに、その店舗のメニュー・履歴なども消す
+export async function removeStoreData(storeId: string): Promise<void> {
+  await Promise.all(STORE_SCOPED_KEYS.map(key => removeJSON(storeKey(key, storeId))));
+}
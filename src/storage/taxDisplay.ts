@@ -0,0 +1,18 @@
+﻿// src/storage/taxDisplay.ts
+import { DEFAULT_TAX_DISPLAY, TAX_FIELDS } from '../report/tax';
+import type { TaxDisplaySettings } from '../report/tax';
+import { loadJSON, saveJSON } from './jsonStore';
+
+const STORAGE_KEY = 'tax_display';
+
+export async function loadTaxDisplay(): Promise<TaxDisplaySettings> {
+  const saved = await loadJSON<Partial<TaxDisplaySettings> | null>(STORAGE_KEY, null);
+  if (!saved || !Array.isArray(saved.shown)) {
+    return DEFAULT_TAX_DISPLAY;
+  }
+  return { shown: TAX_FIELDS.filter(f => saved.shown!.includes(f)) };
+}
+
+export async function saveTaxDisplay(settings: TaxDisplaySettings): Promise<void> {
+  await saveJSON(STORAGE_KEY, settings);
+}
@@ -0,0 +1,28 @@
+﻿// src/storage/templates.ts
+import { DEFAULT_TEMPLATE_ID } from '../report/reportTemplates';
+import type { ReportTemplate } from '../report/reportTemplates';
+import { DEFAULT_STORE_ID } from '../report/stores';
+import { loadJSON, saveJSON } from './jsonStore';
+import { storeKey } from './stores';
+
+const STORAGE_KEY = 'report_templates';
+
+// templates は利用者が作ったものだけ（組み込みは保存しない）
+export type TemplateSettings = {
+  templates: ReportTemplate[];
+  selectedId: string;
+};
+
+export const DEFAULT_TEMPLATE_SETTINGS: TemplateSettings = { templates: [], selectedId: DEFAULT_TEMPLATE_ID };
+
+export async function loadTemplateSettings(storeId = DEFAULT_STORE_ID): Promise<TemplateSettings> {
+  const saved = await loadJSON<Partial<TemplateSettings> | null>(storeKey(STORAGE_KEY, storeId), null);
+  return {
+    templates: Array.isArray(saved?.templates) ? saved!.templates : [],
+    selectedId: saved?.selectedId ?? DEFAULT_TEMPLATE_ID,
+  };
+}
+
+export async function saveTemplateSettings(settings: TemplateSettings, storeId = DEFAULT_STORE_ID): Promise<void> {
+  await saveJSON(storeKey(STORAGE_KEY, storeId), settings);
+}
@@ -0,0 +1,12 @@
+﻿// src/types/cpexcel.d.ts
+// xlsx 同梱のコードページ表（Shift_JIS などのデコードに使う）
+declare module 'xlsx/dist/cpexcel.js' {
+  type Bytes = Uint8Array | number[];
+  const cptable: {
+    utils: {
+      decode: (cp: number, data: Bytes) => string;
+      encode: (cp: number, data: string, ofmt?: 'buf' | 'arr' | 'str') => Bytes;
+    };
+  };
+  export default cptable;
+}
@@ -0,0 +1,16 @@
+﻿// src/ui/confirm.ts
+// 確認ダイアログ（react-native-web の Alert.alert は何もしないため web は window.confirm）
+import { Alert, Platform } from 'react-native';
+
+export function confirm(title: string, message: string, okText: string = 'OK'): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    const webConfirm = (globalThis as any).confirm as ((text: string) => boolean) | undefined;
+    return Promise.resolve(webConfirm ? webConfirm(`${title}\n\n${message}`) : true);
+  }
+  return new Promise(resolve => {
+    Alert.alert(title, message, [
+      { text: 'キャンセル', style: 'cancel', onPress: () => resolve(false) },
+      { text: okText, style: 'destructive', onPress: () => resolve(true) },
+    ], { cancelable: true, onDismiss: () => resolve(false) });
+  });
+}
@@ -0,0 +1,15 @@
+﻿import { defineConfig } from 'vite';
+import path from 'path';
+
+// 日報 CLI（Node 用）。react-native を使わない src/import・src/report だけを束ねる
+export default defineConfig({
+  build: {
+    ssr: path.resolve(__dirname, 'src/cli/index.ts'),
+    outDir: 'dist/cli',
+    emptyOutDir: true,
+    target: 'node18',
+    rollupOptions: {
+      output: { entryFileNames: 'daily-report.mjs' },
+    },
+  },
+});
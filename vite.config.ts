@@ -5,6 +5,8 @@ import path from 'path';
 export default defineConfig({
   plugins: [react()],
   resolve: {
+    // react-native-web と同じく .web.* を優先する（src/io/dropFiles.web.ts など）
+    extensions: ['.web.tsx', '.web.ts', '.web.js', '.tsx', '.ts', '.mjs', '.js', '.jsx', '.json'],
     alias: {
       'react-native': 'react-native-web',
       'react-native-document-picker': path.resolve(__dirname, 'src/shims/document-picker.web.ts'),